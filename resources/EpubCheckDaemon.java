@@ -0,0 +1,127 @@
+import com.adobe.epubcheck.tool.EpubChecker;
+
+import java.io.BufferedReader;
+import java.io.ByteArrayOutputStream;
+import java.io.FileDescriptor;
+import java.io.FileOutputStream;
+import java.io.InputStreamReader;
+import java.io.OutputStream;
+import java.io.PrintStream;
+import java.nio.charset.StandardCharsets;
+import java.util.Base64;
+
+/**
+ * Keeps EpubCheck loaded between checks. Started by the epub-fix EpubCheck daemon with
+ * `java -cp epubcheck.jar EpubCheckDaemon.java` (Java 11 or later).
+ *
+ * Each line on stdin is one job: an id followed by the base64-encoded EpubCheck command-line arguments,
+ * separated by spaces. Each finished job writes one line to stdout: the id, EpubCheck's exit code, and
+ * the base64-encoded console output and error output. "ready" is written once EpubCheck is loaded.
+ * The daemon exits when stdin is closed.
+ *
+ * Jobs run one at a time, in the order they arrive. EpubCheck isn't documented as thread-safe, so checks
+ * that should run side by side go to separate daemons.
+ */
+public class EpubCheckDaemon {
+    public static void main(String[] args) throws Exception {
+        // stdout carries the protocol; anything EpubCheck prints outside a job goes to stderr
+        PrintStream protocol = new PrintStream(new FileOutputStream(FileDescriptor.out), true, "UTF-8");
+        PrintStream originalErr = System.err;
+        CapturedOutput out = new CapturedOutput(originalErr);
+        CapturedOutput err = new CapturedOutput(originalErr);
+        System.setOut(new PrintStream(out, true, "UTF-8"));
+        System.setErr(new PrintStream(err, true, "UTF-8"));
+
+        // Load EpubCheck before the first job instead of during it
+        Class.forName(EpubChecker.class.getName());
+        respond(protocol, "ready");
+
+        BufferedReader in = new BufferedReader(new InputStreamReader(System.in, StandardCharsets.UTF_8));
+        String line;
+        while ((line = in.readLine()) != null) {
+            String[] parts = line.trim().split(" ");
+            if (parts[0].isEmpty()) {
+                continue;
+            }
+            String id = parts[0];
+            String[] checkArgs = new String[parts.length - 1];
+            for (int i = 1; i < parts.length; i++) {
+                checkArgs[i - 1] = new String(Base64.getDecoder().decode(parts[i]), StandardCharsets.UTF_8);
+            }
+            runJob(protocol, out, err, id, checkArgs);
+        }
+    }
+
+    private static void runJob(PrintStream protocol, CapturedOutput out, CapturedOutput err, String id, String[] args) {
+        ByteArrayOutputStream stdout = new ByteArrayOutputStream();
+        ByteArrayOutputStream stderr = new ByteArrayOutputStream();
+        out.capture(stdout);
+        err.capture(stderr);
+        int exitCode;
+        boolean fatal = false;
+        try {
+            // The same entry point as `java -jar epubcheck.jar`, without its System.exit
+            exitCode = new EpubChecker().run(args);
+        } catch (Throwable error) {
+            error.printStackTrace(System.err);
+            exitCode = 2;
+            fatal = error instanceof Error; // The JVM may be in a bad state, e.g. after OutOfMemoryError
+        } finally {
+            System.out.flush();
+            System.err.flush();
+            out.release();
+            err.release();
+        }
+
+        Base64.Encoder encoder = Base64.getEncoder();
+        respond(protocol, id + " " + exitCode + " " + encoder.encodeToString(stdout.toByteArray()) + " " +
+            encoder.encodeToString(stderr.toByteArray()));
+        if (fatal) {
+            System.exit(70);
+        }
+    }
+
+    private static void respond(PrintStream protocol, String line) {
+        protocol.println(line);
+        protocol.flush();
+    }
+
+    /**
+     * Sends what EpubCheck prints to the running job's buffer, and anything printed between jobs to stderr
+     */
+    private static class CapturedOutput extends OutputStream {
+        private final OutputStream fallback;
+        private OutputStream current;
+
+        CapturedOutput(OutputStream fallback) {
+            this.fallback = fallback;
+        }
+
+        void capture(OutputStream target) {
+            current = target;
+        }
+
+        void release() {
+            current = null;
+        }
+
+        @Override
+        public void write(int b) throws java.io.IOException {
+            target().write(b);
+        }
+
+        @Override
+        public void write(byte[] b, int off, int len) throws java.io.IOException {
+            target().write(b, off, len);
+        }
+
+        @Override
+        public void flush() throws java.io.IOException {
+            target().flush();
+        }
+
+        private OutputStream target() {
+            return current != null ? current : fallback;
+        }
+    }
+}
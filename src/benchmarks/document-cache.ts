@@ -0,0 +1,146 @@
+/**
+ * Times the fix phase on a large synthetic EPUB with and without the shared document cache.
+ *
+ *   npm run benchmark -- [chapters]
+ */
+import { DocumentCache } from '../core/document-cache';
+import { FixerOrchestrator } from '../core/fixer-orchestrator';
+import { EpubContent, ProcessingContext, ValidationIssue } from '../types';
+import { Logger } from '../utils/common';
+
+const DEFAULT_CHAPTERS = 200;
+const PARAGRAPHS_PER_CHAPTER = 40;
+
+function chapterPath(index: number): string {
+    return `chapter-${String(index + 1).padStart(4, '0')}.xhtml`;
+}
+
+function createChapter(index: number): string {
+    const paragraphs: string[] = [];
+    for (let p = 0; p < PARAGRAPHS_PER_CHAPTER; p++) {
+        paragraphs.push(`    <p id="c${index}-p${p}">Paragraph ${p} of chapter ${index + 1}, with <em>some</em> text and a <a href="${chapterPath(index + 1)}"><img src="images/arrow.png"/></a> link.</p>`);
+    }
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head>
+  <title>Chapter ${index + 1}</title>
+</head>
+<body>
+  <section epub:type="chapter">
+    <h1>Chapter ${index + 1}</h1>
+    <h3>Out of order</h3>
+    <img src="images/figure-${index}.png"/>
+${paragraphs.join('\n')}
+  </section>
+</body>
+</html>
+`;
+}
+
+function createContext(chapters: number): ProcessingContext {
+    const contents = new Map<string, EpubContent>();
+    const items = [];
+    const issues: ValidationIssue[] = [];
+
+    for (let index = 0; index < chapters; index++) {
+        const filePath = chapterPath(index);
+        contents.set(filePath, { path: filePath, content: createChapter(index), mediaType: 'application/xhtml+xml', modified: false });
+        items.push({ id: `chapter-${index + 1}`, href: filePath, mediaType: 'application/xhtml+xml' });
+
+        for (const [code, element] of [['html-has-lang', 'html'], ['image-alt', 'img'], ['heading-order', 'h3'], ['link-name', 'a']]) {
+            issues.push({
+                type: 'error',
+                category: 'accessibility',
+                severity: 'major',
+                code,
+                message: `Synthetic ${code} issue`,
+                location: { file: filePath },
+                fixable: true,
+                element
+            } as ValidationIssue);
+        }
+    }
+
+    const itemRefs = items.map(item => `    <itemref idref="${item.id}"/>`).join('\n');
+    const manifestItems = items.map(item => `    <item id="${item.id}" href="${item.href}" media-type="${item.mediaType}"/>`).join('\n');
+    contents.set('content.opf', {
+        path: 'content.opf',
+        mediaType: 'application/oebps-package+xml',
+        modified: false,
+        content: `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="uid">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="uid">urn:uuid:00000000-0000-0000-0000-000000000000</dc:identifier>
+    <dc:title>Synthetic Benchmark</dc:title>
+    <dc:language>en</dc:language>
+    <meta property="dcterms:modified">2024-01-01T00:00:00Z</meta>
+  </metadata>
+  <manifest>
+${manifestItems}
+  </manifest>
+  <spine>
+${itemRefs}
+  </spine>
+</package>
+`
+    });
+
+    return {
+        epubPath: 'synthetic.epub',
+        tempDir: '',
+        manifest: { items, spine: items.map(item => ({ idref: item.id })) },
+        metadata: { title: 'Synthetic Benchmark', language: 'en' },
+        contents,
+        issues,
+        fixes: [],
+        config: {} as any
+    };
+}
+
+async function run(chapters: number, withCache: boolean): Promise<{ ms: number; contents: Map<string, EpubContent>; fixed: number; stats?: string }> {
+    const logger = new Logger(false, true);
+    const context = createContext(chapters);
+    if (withCache) {
+        context.documents = new DocumentCache(logger);
+    }
+
+    const start = process.hrtime.bigint();
+    const results = await new FixerOrchestrator(logger).fixAllIssues(context);
+    context.documents?.flush();
+    const ms = Number(process.hrtime.bigint() - start) / 1e6;
+
+    const stats = context.documents?.getStats();
+    return {
+        ms,
+        contents: context.contents,
+        fixed: results.filter(result => result.success).length,
+        stats: stats && `${stats.parsed} parsed, ${stats.reused} reused, ${stats.serialized} serialized`
+    };
+}
+
+async function main(): Promise<void> {
+    const chapters = parseInt(process.argv[2], 10) || DEFAULT_CHAPTERS;
+    console.log(`Synthetic EPUB: ${chapters} chapters, ${PARAGRAPHS_PER_CHAPTER} paragraphs each, ${chapters * 4} issues`);
+
+    const uncached = await run(chapters, false);
+    console.log(`  without cache: ${uncached.ms.toFixed(0)} ms, ${uncached.fixed} fixes`);
+
+    const cached = await run(chapters, true);
+    console.log(`  with cache:    ${cached.ms.toFixed(0)} ms, ${cached.fixed} fixes (${cached.stats})`);
+    console.log(`  speedup:       ${(uncached.ms / cached.ms).toFixed(2)}x`);
+
+    // The cache must not change what the fixers produce
+    const different = Array.from(uncached.contents.keys()).filter(filePath =>
+        uncached.contents.get(filePath)!.content !== cached.contents.get(filePath)?.content);
+    if (different.length > 0 || uncached.fixed !== cached.fixed) {
+        console.error(`Output differs with the cache: ${different.slice(0, 5).join(', ')}${different.length > 5 ? ', ...' : ''}`);
+        process.exit(1);
+    }
+    console.log('  output identical');
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 import chalk from 'chalk';
@@ -8,53 +8,135 @@ import ora from 'ora';
 import * as dotenv from 'dotenv';
 
 import { EpubAccessibilityProcessor } from './core/epub-processor';
+import { EpubCheckDaemon } from './validators/epubcheck-daemon';
 import { Logger, isValidEpubPath, formatFileSize } from './utils/common';
-import { loadConfig } from './core/config';
-import { CliOptions } from './types';
+import { loadConfig, resolveFixerSelection } from './core/config';
+import { AnalysisResult, CliOptions, ToolProgress } from './types';
 import { EpubVersionDetector } from './utils/epub-version-detector';
 import { Epub2To3Converter } from './core/epub2-to-3-converter';
+import { BatchProcessor } from './core/batch-processor';
+import { evaluateQualityGates, isSeverity, ExitCode } from './core/quality-gates';
+import { BaselineManager } from './core/baseline';
+import { BatchIndexReporter } from './reporters/batch-index-reporter';
+import { ExternalToolInstaller } from './core/tool-installer';
+import { MANIFEST_FILE } from './core/tool-manifest';
+import { ResultCache } from './core/result-cache';
 
-// Load environment variables from .env file
-dotenv.config();
+// Load environment variables from .env file (quietly, so --quiet output stays a single line)
+dotenv.config({ quiet: true });
 
 const program = new Command();
 
 /**
- * Run verification by re-running validation tools on the fixed EPUB
+ * Split a comma-separated option value into a list
+ */
+function parseList(value: string, previous: string[] = []): string[] {
+    return previous.concat(value.split(',').map(item => item.trim()).filter(item => item.length > 0));
+}
+
+/**
+ * Parse a non-negative integer option value
+ */
+function parseCount(value: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new InvalidArgumentError('Expected a non-negative whole number.');
+    }
+    return parsed;
+}
+
+/**
+ * Parse a --fail-on severity
+ */
+function parseSeverity(value: string): 'critical' | 'major' | 'minor' {
+    if (!isSeverity(value)) {
+        throw new InvalidArgumentError('Expected one of: critical, major, minor.');
+    }
+    return value;
+}
+
+/**
+ * Show the progress of EpubCheck and the accessibility check after the spinner text while the processor runs them.
+ * Returns a function that stops showing it.
+ */
+function showToolProgress(processor: EpubAccessibilityProcessor, spinner: ora.Ora, text: string): () => void {
+    let checks: ToolProgress[] = [];
+    const seconds = (ms: number) => `${Math.round(ms / 1000)}s`;
+    const render = () => {
+        const parts = checks.map(check => {
+            const issues = check.issues !== undefined ? `, ${check.issues} issues` : '';
+            switch (check.state) {
+                case 'running': return `${check.label} running ${seconds(Date.now() - (check.startedAt || Date.now()))}`;
+                case 'done': return `${check.label} ✓ ${seconds(check.duration || 0)}${issues}`;
+                case 'cached': return `${check.label} cached${issues}`;
+                case 'failed': return `${check.label} failed`;
+                default: return `${check.label} waiting`;
+            }
+        });
+        spinner.text = parts.length > 0 ? `${text} ${chalk.gray(`[${parts.join(' · ')}]`)}` : text;
+    };
+
+    // Keeps the running times current between events
+    const ticker = setInterval(() => {
+        if (checks.some(check => check.state === 'running')) {
+            render();
+        }
+    }, 1000);
+    processor.setToolProgressListener(progress => {
+        checks = progress;
+        render();
+    });
+
+    return () => {
+        clearInterval(ticker);
+        processor.setToolProgressListener(null);
+    };
+}
+
+/**
+ * A --verify re-check of the fixed EPUB; result is null if the re-check failed
+ */
+interface Verification {
+    result: AnalysisResult | null;
+    dir: string;
+}
+
+/**
+ * Run verification by re-running validation tools on the fixed EPUB. The tool output is kept in a
+ * timestamped directory next to the input. A failure is printed and gives a null result.
  */
 async function runVerification(
-    fixedEpubPath: string, 
-    processor: EpubAccessibilityProcessor, 
-    logger: Logger, 
-    inputBasename: string, 
-    inputDir: string
-): Promise<void> {
-    const spinner = ora();
-    
+    fixedEpubPath: string,
+    processor: EpubAccessibilityProcessor,
+    logger: Logger,
+    inputBasename: string,
+    inputDir: string,
+    spinner: ora.Ora
+): Promise<Verification> {
+    // Create timestamped directory for verification output
+    const timestamp = Date.now();
+    const verifyDir = path.join(inputDir, `${inputBasename}_verification_${timestamp}`);
+
     try {
-        console.log(`\n${chalk.blue('🔍 Verification Phase:')}`);
-        console.log(`Re-running validation tools on the fixed EPUB to verify fixes...`);
-        
-        // Create timestamped directory for verification output
-        const timestamp = Date.now();
-        const verifyDir = path.join(inputDir, `${inputBasename}_verification_${timestamp}`);
         await fs.ensureDir(verifyDir);
-        
+
         // Create verification options that force keeping output files
         const verifyOptions: CliOptions = {
             input: fixedEpubPath,
             analyze: true, // Analysis only for verification
             verbose: logger.isVerbose(),
-            keepOutput: true // Always keep verification output
+            keepOutput: true, // Always keep verification output
+            noCache: true // A re-check of this run's output, which later runs don't check again
         };
-        
-        spinner.start('Running verification analysis...');
-        
+
+        spinner.start('Re-running validation tools on the fixed EPUB to verify fixes...');
+
         // Process the fixed EPUB with analysis only
-        const verifyResult = await processor.processEpub(verifyOptions, loadConfig());
-        
+        const stopProgress = showToolProgress(processor, spinner, 'Re-running validation tools on the fixed EPUB to verify fixes...');
+        const verifyResult = await processor.processEpub(verifyOptions, loadConfig()).finally(stopProgress);
+
         spinner.succeed('Verification complete');
-        
+
         // Move output files to verification directory if they exist
         if (verifyResult.outputFiles) {
             if (verifyResult.outputFiles.epubCheck) {
@@ -75,60 +157,8 @@ async function runVerification(
                 verifyResult.outputFiles.daisyAce = verifyDaisyPath;
             }
         }
-        
-        // Display verification results
-        console.log(`\n${chalk.bold('Verification Results:')}`);
-        
-        const verifyValidationErrors = verifyResult.validation.issues.filter(i => i.type === 'error').length;
-        const verifyValidationWarnings = verifyResult.validation.issues.filter(i => i.type === 'warning').length;
-        const verifyAccessibilityIssues = verifyResult.accessibility.issues.length;
-        
-        // Validation results
-        if (verifyValidationErrors === 0) {
-            console.log(`${chalk.green('✓ Validation:')} No errors found`);
-        } else {
-            console.log(`${chalk.red('✗ Validation:')} ${verifyValidationErrors} errors remaining`);
-        }
-        
-        if (verifyValidationWarnings > 0) {
-            console.log(`${chalk.yellow('⚠️  Validation warnings:')} ${verifyValidationWarnings}`);
-        }
-        
-        // Accessibility results
-        if (verifyAccessibilityIssues === 0) {
-            console.log(`${chalk.green('✓ Accessibility:')} No issues found`);
-        } else {
-            console.log(`${chalk.red('✗ Accessibility:')} ${verifyAccessibilityIssues} issues remaining`);
-        }
-        
-        // Overall score
-        if (verifyResult.accessibility.score !== undefined) {
-            const scoreColor = verifyResult.accessibility.score >= 90 ? chalk.green : 
-                              verifyResult.accessibility.score >= 70 ? chalk.yellow : chalk.red;
-            console.log(`${chalk.cyan('Accessibility Score:')} ${scoreColor(`${verifyResult.accessibility.score}/100`)}`);
-        }
-        
-        console.log(`\n${chalk.blue('Verification Files Saved:')}`);
-        console.log(`${chalk.gray('Directory:')} ${verifyDir}`);
-        if (verifyResult.outputFiles?.epubCheck) {
-            console.log(`${chalk.gray('EpubCheck JSON:')} ${path.basename(verifyResult.outputFiles.epubCheck)}`);
-        }
-        if (verifyResult.outputFiles?.epubCheckText) {
-            console.log(`${chalk.gray('EpubCheck Text:')} ${path.basename(verifyResult.outputFiles.epubCheckText)}`);
-        }
-        if (verifyResult.outputFiles?.daisyAce) {
-            console.log(`${chalk.gray('DAISY ACE:')} ${path.basename(verifyResult.outputFiles.daisyAce)}`);
-        }
-        
-        // Summary message
-        if (verifyValidationErrors === 0 && verifyAccessibilityIssues === 0) {
-            console.log(`\n${chalk.green('🎉 Success!')} All fixes verified successfully - no issues remaining.`);
-        } else if (verifyValidationErrors === 0) {
-            console.log(`\n${chalk.yellow('📝 Note:')} Validation issues resolved, but ${verifyAccessibilityIssues} accessibility issues remain.`);
-        } else {
-            console.log(`\n${chalk.red('⚠️  Warning:')} Some issues remain after fixing. Manual intervention may be required.`);
-        }
-        
+
+        return { result: verifyResult, dir: verifyDir };
     } catch (error: any) {
         spinner.fail('Verification failed');
         console.error(chalk.red(`\nVerification error: ${error.message}`));
@@ -136,13 +166,78 @@ async function runVerification(
             console.error(chalk.gray('Stack trace:'));
             console.error(chalk.gray(error.stack));
         }
+        return { result: null, dir: verifyDir };
+    }
+}
+
+/**
+ * Print what the verification found
+ */
+function printVerification(verification: Verification): void {
+    const result = verification.result;
+    if (!result) {
+        return;
+    }
+
+    console.log(`\n${chalk.bold('Verification Results:')}`);
+    
+    const verifyValidationErrors = result.validation.issues.filter(i => i.type === 'error').length;
+    const verifyValidationWarnings = result.validation.issues.filter(i => i.type === 'warning').length;
+    const verifyAccessibilityIssues = result.accessibility.issues.length;
+    
+    // Validation results
+    if (verifyValidationErrors === 0) {
+        console.log(`${chalk.green('✓ Validation:')} No errors found`);
+    } else {
+        console.log(`${chalk.red('✗ Validation:')} ${verifyValidationErrors} errors remaining`);
+    }
+    
+    if (verifyValidationWarnings > 0) {
+        console.log(`${chalk.yellow('⚠️  Validation warnings:')} ${verifyValidationWarnings}`);
+    }
+    
+    // Accessibility results
+    if (verifyAccessibilityIssues === 0) {
+        console.log(`${chalk.green('✓ Accessibility:')} No issues found`);
+    } else {
+        console.log(`${chalk.red('✗ Accessibility:')} ${verifyAccessibilityIssues} issues remaining`);
+    }
+    
+    // Overall score
+    if (result.accessibility.score !== undefined) {
+        const scoreColor = result.accessibility.score >= 90 ? chalk.green : 
+                          result.accessibility.score >= 70 ? chalk.yellow : chalk.red;
+        console.log(`${chalk.cyan('Accessibility Score:')} ${scoreColor(`${result.accessibility.score}/100`)}`);
+    }
+    
+    console.log(`\n${chalk.blue('Verification Files Saved:')}`);
+    console.log(`${chalk.gray('Directory:')} ${verification.dir}`);
+    if (result.outputFiles?.epubCheck) {
+        console.log(`${chalk.gray('EpubCheck JSON:')} ${path.basename(result.outputFiles.epubCheck)}`);
+    }
+    if (result.outputFiles?.epubCheckText) {
+        console.log(`${chalk.gray('EpubCheck Text:')} ${path.basename(result.outputFiles.epubCheckText)}`);
+    }
+    if (result.outputFiles?.daisyAce) {
+        console.log(`${chalk.gray('DAISY ACE:')} ${path.basename(result.outputFiles.daisyAce)}`);
+    }
+    
+    // Summary message
+    if (verifyValidationErrors === 0 && verifyAccessibilityIssues === 0) {
+        console.log(`\n${chalk.green('🎉 Success!')} All fixes verified successfully - no issues remaining.`);
+    } else if (verifyValidationErrors === 0) {
+        console.log(`\n${chalk.yellow('📝 Note:')} Validation issues resolved, but ${verifyAccessibilityIssues} accessibility issues remain.`);
+    } else {
+        console.log(`\n${chalk.red('⚠️  Warning:')} Some issues remain after fixing. Manual intervention may be required.`);
     }
 }
 
 program
     .name('epub-fix')
     .description('CLI tool for analyzing and fixing EPUB accessibility issues')
-    .version('1.0.0');
+    .version('1.0.0')
+    // Keep subcommand options (-c, -v, --only, ...) from being consumed by the main command
+    .enablePositionalOptions();
 
 // Make the input argument optional by using .argument() with square brackets
 program
@@ -156,7 +251,22 @@ program
     .option('--dry-run', 'Show what would be fixed without making changes')
     .option('--keep-output', 'Keep DAISY ACE and EpubCheck output files for manual review')
     .option('--verify', 'Re-run validation tools on the fixed EPUB to verify fixes were successful')
+    .option('--format <formats>', 'Also write machine-readable reports (comma-separated: json, sarif, junit, csv)', parseList)
+    .option('--baseline <file>', 'Suppress issues listed in this baseline file (see the baseline command)')
+    .option('--diff <path>', 'Write a unified diff of every change the fixers made to this file')
+    .option('--interactive', 'Review each proposed change and accept, reject or edit it before it is applied')
+    .option('--preserve-formatting', 'Write changes as small edits to the original XHTML and OPF text, leaving unchanged markup byte-identical')
+    .option('--iterate', 'Re-check the fixed EPUB and fix again until the issue count stops falling')
+    .option('--max-iterations <n>', 'Maximum number of fix passes when using --iterate (default 3)', (value) => parseInt(value, 10))
+    .option('--epubcheck-daemon', 'Keep one EpubCheck JVM running for all checks instead of starting one per check')
+    .option('--no-cache', 'Run EpubCheck and DAISY ACE even if their results for this EPUB are cached')
     .option('--use-gemini', 'Use Gemini AI models for alt text generation instead of Ollama')
+    .option('--only <fixers>', 'Only run these fixers (comma-separated fixer ids or groups, see the fixers command)', parseList)
+    .option('--skip <fixers>', 'Do not run these fixers (comma-separated fixer ids or groups)', parseList)
+    .option('--fail-on <severity>', 'Exit with code 2 if unfixed issues of this severity or worse remain (critical, major, minor)', parseSeverity)
+    .option('--min-accessibility-score <n>', 'Exit with code 3 if the accessibility score is below n', parseCount)
+    .option('--max-validation-errors <n>', 'Exit with code 4 if more than n validation errors remain', parseCount)
+    .option('-q, --quiet', 'Only print a one-line summary')
     .option('-v, --verbose', 'Verbose output')
     .action(async (input: string, options: any) => {
         // If no input is provided and no command is matched, show help
@@ -165,13 +275,16 @@ program
             return;
         }
 
-        const spinner = ora();
+        // The spinner would redraw over the review prompts
+        const spinner = ora({ isSilent: options.quiet || options.interactive || false });
+        let processor: EpubAccessibilityProcessor | null = null;
+        let exitCode: number | undefined;
 
         try {
             // Validate input file
             if (!isValidEpubPath(input)) {
                 console.error(chalk.red(`Error: Invalid EPUB file: ${input}`));
-                process.exit(1);
+                process.exit(ExitCode.PROCESSING_ERROR);
             }
 
             const inputPath = path.resolve(input);
@@ -179,7 +292,7 @@ program
             const inputDir = path.dirname(inputPath);
 
             // Initialize logger early for version detection
-            const versionLogger = new Logger(options.verbose || false);
+            const versionLogger = new Logger(options.verbose || false, options.quiet || false);
 
             // Check EPUB version first
             spinner.start('Detecting EPUB version...');
@@ -252,11 +365,26 @@ program
                 dryRun: options.dryRun || false,
                 keepOutput: options.keepOutput || false,
                 verify: options.verify || false,
-                useGemini: options.useGemini || false
+                useGemini: options.useGemini || false,
+                onlyFixers: options.only,
+                skipFixers: options.skip,
+                iterate: options.iterate || false,
+                maxIterations: options.maxIterations,
+                formats: options.format,
+                quiet: options.quiet || false,
+                failOn: options.failOn,
+                minAccessibilityScore: options.minAccessibilityScore,
+                maxValidationErrors: options.maxValidationErrors,
+                baseline: options.baseline ? path.resolve(options.baseline) : undefined,
+                diff: options.diff ? path.resolve(options.diff) : undefined,
+                interactive: options.interactive || false,
+                preserveFormatting: options.preserveFormatting || false,
+                epubcheckDaemon: options.epubcheckDaemon || false,
+                noCache: options.cache === false
             };
 
             // Initialize logger
-            const logger = new Logger(cliOptions.verbose);
+            const logger = new Logger(cliOptions.verbose, cliOptions.quiet);
 
             // Load configuration
             const config = loadConfig(cliOptions.config);
@@ -271,7 +399,14 @@ program
             logger.info(`Report: ${cliOptions.reportPath}`);
 
             // Initialize processor
-            const processor = new EpubAccessibilityProcessor(logger);
+            processor = new EpubAccessibilityProcessor(logger);
+
+            const unknownFormats = (cliOptions.formats || []).filter(f => !processor.getReportFormats().includes(f));
+            if (unknownFormats.length > 0) {
+                console.error(chalk.red(`Error: Unknown report format(s): ${unknownFormats.join(', ')}`));
+                console.error(`Available formats: ${processor.getReportFormats().join(', ')}`);
+                process.exit(1);
+            }
 
             // Install tools if needed
             spinner.start('Installing required tools...');
@@ -280,19 +415,59 @@ program
 
             // Process EPUB
             spinner.start('Processing EPUB...');
-            const result = await processor.processEpub(cliOptions, config);
+            // The first Ctrl+C stops a running EpubCheck or ACE and cleans up; a second one exits straight away
+            const abortController = new AbortController();
+            process.once('SIGINT', () => abortController.abort());
+            const stopProgress = showToolProgress(processor, spinner, 'Processing EPUB...');
+            const result = await processor.processEpub(cliOptions, config, abortController.signal).finally(stopProgress);
             spinner.succeed('Processing complete');
 
+            // Run verification if requested and fixes were applied; the quality gates include what it finds
+            let verification: Verification | null = null;
+            let verificationSkipped = false;
+            if (cliOptions.verify && !cliOptions.analyze && !cliOptions.dryRun && cliOptions.output) {
+                if (await fs.pathExists(cliOptions.output)) {
+                    verification = await runVerification(cliOptions.output, processor, logger, inputBasename, inputDir, spinner);
+                } else {
+                    verificationSkipped = true;
+                }
+            }
+
+            const gates = evaluateQualityGates(result, cliOptions, verification ? verification.result : undefined);
+
+            if (cliOptions.quiet) {
+                const score = result.accessibility.score !== undefined ? `${result.accessibility.score}/100` : 'n/a';
+                const status = gates.passed ? 'PASS' : `FAIL (${gates.failures.map(f => f.message).join('; ')})`;
+                const suppressed = result.suppressedIssues?.length ? ` (${result.suppressedIssues.length} baselined)` : '';
+                const verified = verification?.result ? `, ${verification.result.summary.totalIssues} issues after verification` : '';
+                console.log(`${path.basename(inputPath)}: ${result.summary.totalIssues} issues${suppressed}, ` +
+                    `${result.summary.criticalIssues} critical, ${result.summary.fixedIssues} fixed, ` +
+                    `accessibility ${score}, ${result.summary.remainingValidationErrors} validation errors${verified} - ${status}`);
+                exitCode = gates.exitCode;
+                return;
+            }
+
             // Display results
             console.log('\n' + chalk.bold('Analysis Results:'));
             console.log(`Total issues found: ${chalk.yellow(result.summary.totalIssues)}`);
             console.log(`Critical issues: ${chalk.red(result.summary.criticalIssues)}`);
             console.log(`Fixable issues: ${chalk.blue(result.summary.fixableIssues)}`);
+            if (result.suppressedIssues && result.suppressedIssues.length > 0) {
+                console.log(`Suppressed by baseline: ${chalk.gray(result.suppressedIssues.length)}`);
+            }
 
             if (!cliOptions.analyze) {
                 console.log(`Fixed issues: ${chalk.green(result.summary.fixedIssues)}`);
             }
 
+            if (result.iterations && result.iterations.length > 0) {
+                console.log('\n' + chalk.bold('Fix Iterations:'));
+                result.iterations.forEach(summary => {
+                    console.log(`  Iteration ${summary.iteration}: ${summary.issuesFixed} fixed, ` +
+                        `${summary.newIssues} new, ${summary.reopenedIssues} reopened, ${summary.issuesFound} remaining`);
+                });
+            }
+
             // Display validation score
             const unfixedValidationErrors = result.validation.issues.filter(i => i.type === 'error' && !i.fixed).length;
             const validationScore = unfixedValidationErrors === 0 ? 100 :
@@ -331,6 +506,14 @@ program
             if (await fs.pathExists(cliOptions.reportPath!)) {
                 console.log(`\n${chalk.blue('HTML Report:')} ${cliOptions.reportPath}`);
             }
+            if (cliOptions.diff && await fs.pathExists(cliOptions.diff)) {
+                console.log(`${chalk.blue('Patch:')} ${cliOptions.diff}`);
+            }
+            if (result.reports) {
+                for (const [format, reportFile] of Object.entries(result.reports)) {
+                    console.log(`${chalk.blue(`${format.toUpperCase()} Report:`)} ${reportFile}`);
+                }
+            }
 
             // Show preserved output files if option enabled
             if (cliOptions.keepOutput && result.outputFiles) {
@@ -343,13 +526,10 @@ program
                 }
             }
 
-            // Run verification if requested and fixes were applied
-            if (cliOptions.verify && !cliOptions.analyze && !cliOptions.dryRun && cliOptions.output) {
-                if (await fs.pathExists(cliOptions.output)) {
-                    await runVerification(cliOptions.output, processor, logger, inputBasename, inputDir);
-                } else {
-                    console.log(`\n${chalk.yellow('⚠️  Verification skipped: Fixed EPUB not found')}`);
-                }
+            if (verification) {
+                printVerification(verification);
+            } else if (verificationSkipped) {
+                console.log(`\n${chalk.yellow('⚠️  Verification skipped: Fixed EPUB not found')}`);
             }
 
             // Recommendations
@@ -367,6 +547,14 @@ program
                 console.log('Critical issues detected. Please review the HTML report for details.');
             }
 
+            if (!gates.passed) {
+                console.log('\n' + chalk.red.bold('Quality Gates Failed:'));
+                gates.failures.forEach(failure => {
+                    console.log(`  • ${failure.message} (--${failure.gate}, exit code ${failure.exitCode})`);
+                });
+                exitCode = gates.exitCode;
+            }
+
         } catch (error: any) {
             spinner.fail('Processing failed');
             console.error(chalk.red(`\nError: ${error.message}`));
@@ -376,7 +564,13 @@ program
                 console.error(chalk.gray(error.stack));
             }
 
-            process.exit(1);
+            exitCode = ExitCode.PROCESSING_ERROR;
+        } finally {
+            // Stops the EpubCheck daemon if --epubcheck-daemon started one
+            await processor?.stopEpubCheckDaemon();
+            if (exitCode !== undefined) {
+                process.exit(exitCode);
+            }
         }
     });
 
@@ -384,14 +578,47 @@ program
 program
     .command('install-tools')
     .description('Install or update required external tools')
+    .option('--from <path>', 'Install from a directory or archive of artifacts instead of downloading (needs --manifest)')
+    .option('--manifest <file>', `Pinned ${MANIFEST_FILE} to check --from, and the artifacts in it, against`)
+    .option('--epubcheck-version <version>', 'EpubCheck version to install')
+    .option('--ace-version <version>', 'DAISY ACE version to install')
+    .option('--force', 'Reinstall tools that are already installed')
     .option('-v, --verbose', 'Verbose output')
     .action(async (options) => {
         const logger = new Logger(options.verbose);
-        const processor = new EpubAccessibilityProcessor(logger);
+        const installer = new ExternalToolInstaller(logger);
 
         try {
-            console.log(chalk.blue('Installing required tools...'));
-            await processor.initializeTools();
+            if (options.manifest && !options.from) {
+                throw new Error('--manifest needs --from');
+            }
+            if (options.from && !options.manifest) {
+                throw new Error('--from needs --manifest, a pinned manifest kept apart from the artifacts');
+            }
+
+            console.log(chalk.blue(options.from ? `Installing tools from ${options.from}...` : 'Installing required tools...'));
+            if (!(await installer.verifySystemRequirements())) {
+                throw new Error('System requirements not met. Please install Java and Node.js');
+            }
+
+            const result = await installer.installAllTools({
+                from: options.from,
+                manifest: options.manifest,
+                versions: { epubcheck: options.epubcheckVersion, ace: options.aceVersion },
+                force: options.force
+            });
+
+            for (const tool of [result.epubcheck, result.daisyAce]) {
+                if (tool.installed) {
+                    console.log(chalk.green(`  ✓ ${tool.name} ${tool.version}`) + chalk.gray(` ${tool.path}`));
+                } else {
+                    console.log(chalk.red(`  ✗ ${tool.name} is not installed`));
+                }
+            }
+            if (result.failed.length > 0) {
+                console.error(chalk.red(`Installation failed for ${result.failed.join(', ')}`));
+                process.exit(1);
+            }
             console.log(chalk.green('✓ All tools installed successfully'));
         } catch (error: any) {
             console.error(chalk.red(`Installation failed: ${error.message}`));
@@ -399,6 +626,243 @@ program
         }
     });
 
+// Tools commands
+const toolsCommand = program
+    .command('tools')
+    .description('Inspect the installed external tools');
+
+toolsCommand
+    .command('status')
+    .description('Show the installed EpubCheck and DAISY ACE versions and paths, and the Java version')
+    .option('--manifest <file>', 'Warn about tools that are not at a version this manifest pins')
+    .option('-v, --verbose', 'Verbose output')
+    .action(async (options) => {
+        const installer = new ExternalToolInstaller(new Logger(options.verbose));
+
+        try {
+            const status = await installer.getToolStatus(options.manifest);
+
+            console.log(chalk.blue('External Tools:'));
+            console.log(`  ${chalk.bold('java'.padEnd(10))} ${status.java.version || chalk.red('not found')}`);
+            status.java.warnings.forEach(warning => console.log(chalk.yellow(`    ⚠ ${warning}`)));
+
+            for (const tool of status.tools) {
+                if (!tool.installed) {
+                    console.log(`  ${chalk.bold(tool.name.padEnd(10))} ${chalk.red('not installed')}`);
+                } else {
+                    const pinned = tool.pinnedVersion ? `installed as ${tool.pinnedVersion}` : null;
+                    const details = [tool.source, pinned].filter(Boolean).join(', ');
+                    console.log(`  ${chalk.bold(tool.name.padEnd(10))} ${tool.detectedVersion || chalk.yellow('unknown version')}` +
+                        (details ? chalk.gray(` (${details})`) : ''));
+                    console.log(chalk.gray(`  ${''.padEnd(10)} ${tool.path}`));
+                }
+                tool.warnings.forEach(warning => console.log(chalk.yellow(`    ⚠ ${warning}`)));
+            }
+        } catch (error: any) {
+            console.error(chalk.red(`Could not read tool status: ${error.message}`));
+            process.exit(1);
+        }
+    });
+
+// Cache commands
+const cacheCommand = program
+    .command('cache')
+    .description('Manage the cache of EpubCheck and DAISY ACE results');
+
+cacheCommand
+    .command('clear')
+    .description('Remove all cached EpubCheck and DAISY ACE results')
+    .option('-c, --config <path>', 'Path to configuration file (for its cacheDir)')
+    .action(async (options) => {
+        const config = loadConfig(options.config);
+        const cache = new ResultCache(new Logger(false), config.cacheDir);
+
+        try {
+            const removed = await cache.clear();
+            console.log(chalk.green(`✓ Removed ${removed} cached result${removed === 1 ? '' : 's'} from ${cache.getDir()}`));
+        } catch (error: any) {
+            console.error(chalk.red(`Could not clear the cache: ${error.message}`));
+            process.exit(1);
+        }
+    });
+
+// Batch command for processing many EPUBs
+program
+    .command('batch <source>')
+    .description('Analyze/fix every EPUB in a directory or listed in a text file (one path per line)')
+    .option('-d, --output-dir <dir>', 'Directory for fixed EPUBs, reports and logs (defaults to <source>_batch)')
+    .option('-j, --concurrency <n>', 'Number of EPUBs to process in parallel', (value) => parseInt(value, 10), 2)
+    .option('-r, --recursive', 'Include EPUBs in subdirectories when source is a directory')
+    .option('-a, --analyze-only', 'Only analyze, do not fix issues')
+    .option('-c, --config <path>', 'Path to configuration file')
+    .option('--skip-validation', 'Skip EPUB validation checks')
+    .option('--skip-accessibility', 'Skip accessibility analysis')
+    .option('--only <fixers>', 'Only run these fixers (comma-separated fixer ids or groups)', parseList)
+    .option('--skip <fixers>', 'Do not run these fixers (comma-separated fixer ids or groups)', parseList)
+    .option('--format <formats>', 'Also write machine-readable reports (comma-separated: json, sarif, junit, csv)', parseList)
+    .option('--baseline <file>', 'Suppress issues listed in this baseline file (see the baseline command)')
+    .option('--iterate', 'Re-check each fixed EPUB and fix again until the issue count stops falling')
+    .option('--max-iterations <n>', 'Maximum number of fix passes when using --iterate (default 3)', (value) => parseInt(value, 10))
+    .option('--epubcheck-daemon', 'Keep one EpubCheck JVM per worker running instead of starting one per check')
+    .option('--no-cache', 'Run EpubCheck and DAISY ACE even if their results for an EPUB are cached')
+    .option('--use-gemini', 'Use Gemini AI models for alt text generation instead of Ollama')
+    .option('-v, --verbose', 'Verbose output')
+    .action(async (source: string, options) => {
+        const spinner = ora();
+        const logger = new Logger(options.verbose);
+        const startTime = new Date();
+        let epubCheckDaemon: EpubCheckDaemon | null = null;
+        let exitCode: number | undefined;
+
+        try {
+            if (!(await fs.pathExists(source))) {
+                console.error(chalk.red(`Error: Batch source not found: ${source}`));
+                process.exit(1);
+            }
+
+            const sourcePath = path.resolve(source);
+            const outputDir = options.outputDir ?
+                path.resolve(options.outputDir) :
+                path.join(path.dirname(sourcePath), `${path.basename(sourcePath, path.extname(sourcePath))}_batch`);
+
+            const formats = new EpubAccessibilityProcessor(logger).getReportFormats();
+            const unknownFormats = (options.format || []).filter((f: string) => !formats.includes(f));
+            if (unknownFormats.length > 0) {
+                console.error(chalk.red(`Error: Unknown report format(s): ${unknownFormats.join(', ')}`));
+                console.error(`Available formats: ${formats.join(', ')}`);
+                process.exit(1);
+            }
+
+            const batchProcessor = new BatchProcessor(logger);
+            const inputs = await batchProcessor.resolveInputs(sourcePath, options.recursive || false);
+            if (inputs.length === 0) {
+                console.log(chalk.yellow(`No EPUB files found in ${source}`));
+                return;
+            }
+
+            // Install tools once up front so the workers don't race to install them
+            spinner.start('Installing required tools...');
+            const toolsProcessor = new EpubAccessibilityProcessor(logger);
+            await toolsProcessor.initializeTools();
+            spinner.succeed('Tools ready');
+
+            const config = loadConfig(options.config);
+            const concurrency = options.concurrency || 2;
+            // The workers share the daemon JVMs, one per worker, so each JVM runs one check at a time
+            epubCheckDaemon = options.epubcheckDaemon || config.epubcheckDaemon ?
+                await toolsProcessor.createEpubCheckDaemon(Math.min(concurrency, inputs.length)) : null;
+
+            spinner.start(`Processing ${inputs.length} EPUBs...`);
+            const results = await batchProcessor.processBatch(inputs, config, {
+                outputDir,
+                concurrency,
+                analyze: options.analyzeOnly || false,
+                epubCheck: epubCheckDaemon || undefined,
+                processing: {
+                    config: options.config,
+                    verbose: options.verbose || false,
+                    skipValidation: options.skipValidation || false,
+                    skipAccessibility: options.skipAccessibility || false,
+                    useGemini: options.useGemini || false,
+                    onlyFixers: options.only,
+                    skipFixers: options.skip,
+                    iterate: options.iterate || false,
+                    maxIterations: options.maxIterations,
+                    formats: options.format,
+                    baseline: options.baseline ? path.resolve(options.baseline) : undefined,
+                    noCache: options.cache === false
+                }
+            }, (result, completed, total) => {
+                const name = path.basename(result.input);
+                const line = result.status === 'failed' ?
+                    `${chalk.red('✗')} ${name}: ${result.error}` :
+                    `${chalk.green('✓')} ${name}: ${result.totalIssues} issues, ${result.fixedIssues} fixed`;
+                spinner.stop();
+                console.log(`[${completed}/${total}] ${line}`);
+                spinner.start(`Processing ${inputs.length} EPUBs...`);
+            });
+            spinner.succeed('Batch complete');
+
+            const indexPath = path.join(outputDir, 'index.html');
+            await new BatchIndexReporter(logger).generateReport(results, indexPath, startTime);
+
+            const failed = results.filter(r => r.status === 'failed');
+            console.log('\n' + chalk.bold('Batch Results:'));
+            console.log(`Processed: ${chalk.green(results.length - failed.length)}`);
+            console.log(`Failed: ${failed.length > 0 ? chalk.red(failed.length) : failed.length}`);
+            console.log(`\n${chalk.blue('Index Report:')} ${indexPath}`);
+
+            if (failed.length > 0) {
+                exitCode = 1;
+            }
+        } catch (error: any) {
+            spinner.fail('Batch processing failed');
+            console.error(chalk.red(`\nError: ${error.message}`));
+            if (options.verbose) {
+                console.error(chalk.gray('\nStack trace:'));
+                console.error(chalk.gray(error.stack));
+            }
+            exitCode = 1;
+        } finally {
+            await epubCheckDaemon?.stop();
+            if (exitCode !== undefined) {
+                process.exit(exitCode);
+            }
+        }
+    });
+
+// Baseline command: record the current issues as accepted
+program
+    .command('baseline <input>')
+    .description('Write a baseline file of the current issues so later runs with --baseline only show new ones')
+    .option('-o, --output <path>', 'Output path for the baseline file (defaults to input_baseline.json)')
+    .option('-c, --config <path>', 'Path to configuration file')
+    .option('--skip-validation', 'Skip EPUB validation checks')
+    .option('--skip-accessibility', 'Skip accessibility analysis')
+    .option('-v, --verbose', 'Verbose output')
+    .action(async (input: string, options) => {
+        const spinner = ora();
+        const logger = new Logger(options.verbose);
+
+        try {
+            if (!isValidEpubPath(input)) {
+                console.error(chalk.red(`Error: Invalid EPUB file: ${input}`));
+                process.exit(1);
+            }
+
+            const inputPath = path.resolve(input);
+            const outputPath = options.output ?
+                path.resolve(options.output) :
+                path.join(path.dirname(inputPath), `${path.basename(inputPath, '.epub')}_baseline.json`);
+
+            const processor = new EpubAccessibilityProcessor(logger);
+            spinner.start('Installing required tools...');
+            await processor.initializeTools();
+            spinner.succeed('Tools ready');
+
+            spinner.start('Analyzing EPUB...');
+            const result = await processor.processEpub({
+                input: inputPath,
+                analyze: true,
+                verbose: options.verbose,
+                skipValidation: options.skipValidation || false,
+                skipAccessibility: options.skipAccessibility || false
+            }, loadConfig(options.config));
+            spinner.succeed('Analysis complete');
+
+            const baselineManager = new BaselineManager(logger);
+            const issues = [...result.validation.issues, ...result.accessibility.issues];
+            await baselineManager.saveBaseline(baselineManager.createBaseline(issues, inputPath), outputPath);
+
+            console.log(`\n${chalk.green('Baseline written:')} ${outputPath} (${issues.length} issues)`);
+            console.log(`Use it with: ${chalk.gray(`epub-fix "${input}" --baseline "${outputPath}"`)}`);
+        } catch (error: any) {
+            spinner.fail('Baseline creation failed');
+            console.error(chalk.red(`\nError: ${error.message}`));
+            process.exit(1);
+        }
+    });
+
 // Convert command for EPUB 2.0 to 3.0
 program
     .command('convert <input>')
@@ -524,6 +988,52 @@ program
         }
     });
 
+// Locate command
+program
+    .command('locate <input> <cfi>')
+    .description('Show the element an EPUB CFI points to and the source around it')
+    .option('-v, --verbose', 'Verbose output')
+    .action(async (input: string, cfi: string, options) => {
+        const logger = new Logger(options.verbose, !options.verbose);
+
+        try {
+            if (!isValidEpubPath(input)) {
+                console.error(chalk.red(`Error: Invalid EPUB file: ${input}`));
+                process.exit(1);
+            }
+
+            const location = await new EpubAccessibilityProcessor(logger).locateCfi(path.resolve(input), cfi);
+            if (!location) {
+                console.error(chalk.red(`CFI does not point to anything in ${input}: ${cfi}`));
+                process.exit(1);
+            }
+
+            console.log(`${chalk.bold('File:')}     ${location.filePath} (spine item ${location.spineIndex + 1})`);
+            console.log(`${chalk.bold('CFI:')}      ${location.cfi}`);
+            if (location.source) {
+                console.log(`${chalk.bold('Position:')} line ${location.source.line}, column ${location.source.column}` +
+                    (location.offset !== undefined ? `, character offset ${location.offset}` : ''));
+                console.log(`${chalk.bold('XPath:')}    ${location.source.xpath}`);
+                console.log(`${chalk.bold('Selector:')} ${location.source.selector}`);
+                console.log(`${chalk.bold('Element:')}  ${location.startTag}`);
+
+                const { startLine, lines } = location.source.excerpt;
+                const width = String(startLine + lines.length - 1).length;
+                console.log('');
+                lines.forEach((line, index) => {
+                    const number = startLine + index;
+                    const text = `${String(number).padStart(width)} | ${line}`;
+                    console.log(number === location.source!.line ? chalk.yellow(`> ${text}`) : `  ${text}`);
+                });
+            } else {
+                console.log(chalk.gray('The CFI names the whole document.'));
+            }
+        } catch (error: any) {
+            console.error(chalk.red(`Locate failed: ${error.message}`));
+            process.exit(1);
+        }
+    });
+
 // Config command
 program
     .command('config')
@@ -535,6 +1045,115 @@ program
         console.log(JSON.stringify(config, null, 2));
     });
 
+// Fixers command
+program
+    .command('fixers')
+    .description('List available fixers in the order they run and whether the configuration enables them')
+    .option('-c, --config <path>', 'Path to configuration file')
+    .option('--only <fixers>', 'Only run these fixers (comma-separated fixer ids or groups)', parseList)
+    .option('--skip <fixers>', 'Do not run these fixers (comma-separated fixer ids or groups)', parseList)
+    .action((options) => {
+        const processor = new EpubAccessibilityProcessor(new Logger(false));
+        const config = loadConfig(options.config);
+        processor.loadPlugins(config);
+        const ids = processor.getFixerIds();
+        const names = processor.getAvailableFixers();
+        const pluginFixerIds = processor.getPluginFixerIds();
+        const selection = resolveFixerSelection(config, ids, options.only, options.skip, pluginFixerIds);
+
+        console.log(chalk.blue('Available Fixers:'));
+        ids.forEach((id, index) => {
+            const enabled = selection.enabled.includes(id);
+            const status = enabled ? chalk.green('enabled ') : chalk.gray('disabled');
+            const plugin = Object.keys(pluginFixerIds).find(name => pluginFixerIds[name].includes(id));
+            console.log(`  ${status}  ${chalk.bold(id.padEnd(28))} ${names[index]}${plugin ? chalk.gray(` (plugin ${plugin})`) : ''}`);
+        });
+
+        if (selection.unknownNames.length > 0) {
+            console.log(chalk.yellow(`\nUnknown fixer names: ${selection.unknownNames.join(', ')}`));
+        }
+
+        const problems = processor.getFixerScheduleProblems();
+        if (problems.length > 0) {
+            console.log(chalk.yellow('\nFixer ordering problems:'));
+            problems.forEach(problem => console.log(chalk.yellow(`  • ${problem}`)));
+        }
+    });
+
+program
+    .command('routing')
+    .description('Show which fixer handles each ACE rule and EpubCheck message id, and flag ambiguous overlaps')
+    .option('-c, --config <path>', 'Path to configuration file')
+    .action((options) => {
+        const processor = new EpubAccessibilityProcessor(new Logger(false));
+        processor.loadPlugins(loadConfig(options.config));
+        const routing = processor.getRouting();
+
+        console.log(chalk.blue('Issue Routing (highest priority first):'));
+        let previousRule = '';
+        for (const route of routing.routes) {
+            const rule = route.rule === previousRule ? '' : route.rule;
+            previousRule = route.rule;
+            const details = [route.conditions, route.note].filter(part => part).join('; ');
+            const fixer = routing.unknownFixers.includes(route.fixer) ? chalk.red(`${route.fixer} (not registered)`) : chalk.bold(route.fixer);
+            console.log(`  ${rule.padEnd(32)} ${String(route.priority).padStart(3)}  ${fixer}${details ? chalk.gray(`  ${details}`) : ''}`);
+        }
+        console.log(chalk.gray('\nOther codes are offered to each fixer\'s canFix in fixer order.'));
+
+        if (routing.ambiguities.length > 0) {
+            console.log(chalk.yellow('\nAmbiguous routes (the fixer that runs first wins):'));
+            routing.ambiguities.forEach(ambiguity => {
+                console.log(chalk.yellow(`  • ${ambiguity.rule} at priority ${ambiguity.priority}: ${ambiguity.fixers.join(', ')}`));
+            });
+        }
+
+        if (routing.unroutedOverlaps.length > 0) {
+            console.log(chalk.yellow('\nUnrouted codes claimed by more than one fixer (the fixer that runs first wins):'));
+            routing.unroutedOverlaps.forEach(overlap => {
+                console.log(chalk.yellow(`  • ${overlap.code}: ${overlap.fixers.join(', ')}`));
+            });
+        }
+    });
+
+program
+    .command('plugins')
+    .description('List the plugins in the configuration and the fixers and rules they add')
+    .option('-c, --config <path>', 'Path to configuration file')
+    .option('-v, --verbose', 'Verbose output')
+    .action((options) => {
+        const processor = new EpubAccessibilityProcessor(new Logger(options.verbose || false));
+        const plugins = processor.loadPlugins(loadConfig(options.config));
+
+        if (plugins.length === 0) {
+            console.log(chalk.gray('No plugins configured. List npm modules or paths in "plugins" in the configuration file.'));
+            return;
+        }
+
+        console.log(chalk.blue('Plugins:'));
+        for (const plugin of plugins) {
+            const status = plugin.error ? chalk.red('✗') : chalk.green('✓');
+            console.log(`  ${status} ${chalk.bold(plugin.name)}${plugin.version ? ` ${plugin.version}` : ''} ${chalk.gray(`(${plugin.resolvedPath || plugin.source})`)}`);
+            if (plugin.error) {
+                console.log(chalk.red(`      ${plugin.error}`));
+            }
+            for (const registration of plugin.fixers) {
+                const placement = [
+                    registration.before?.length ? `before ${registration.before.join(', ')}` : '',
+                    registration.after?.length ? `after ${registration.after.join(', ')}` : ''
+                ].filter(part => part).join('; ');
+                console.log(`      fixer  ${registration.instance.getFixerId().padEnd(28)} ${registration.instance.getFixerName()}${placement ? chalk.gray(` (${placement})`) : ''}`);
+                console.log(chalk.gray(`             handles ${registration.instance.getHandledCodes().join(', ') || 'no codes'}`));
+            }
+            for (const rule of plugin.rules) {
+                console.log(`      rule   ${rule.id.padEnd(28)} ${rule.description}`);
+            }
+        }
+
+        if (plugins.some(plugin => plugin.error)) {
+            process.exit(1);
+        }
+    });
+
 // Handle uncaught errors
 process.on('uncaughtException', (error) => {
     console.error(chalk.red('\nUncaught Exception:'), error.message);
@@ -0,0 +1,132 @@
+import { BaseFixer } from '../../fixers/base-fixer';
+import { FixResult, ValidationIssue } from '../../types';
+import { Logger } from '../../utils/common';
+import { FixerOrchestrator } from '../fixer-orchestrator';
+
+class TestFixer extends BaseFixer {
+    private id: string;
+    private provides: string[];
+    private requires: string[];
+
+    constructor(logger: Logger, id: string, provides: string[] = [], requires: string[] = []) {
+        super(logger);
+        this.id = id;
+        this.provides = provides;
+        this.requires = requires;
+    }
+
+    getFixerName(): string {
+        return `Test fixer ${this.id}`;
+    }
+
+    getFixerId(): string {
+        return this.id;
+    }
+
+    getProvides(): string[] {
+        return this.provides;
+    }
+
+    getRequires(): string[] {
+        return this.requires;
+    }
+
+    getHandledCodes(): string[] {
+        return [];
+    }
+
+    canFix(): boolean {
+        return false;
+    }
+
+    async fix(issue: ValidationIssue): Promise<FixResult> {
+        return { success: false, message: `Not fixed: ${issue.code}` };
+    }
+}
+
+describe('FixerOrchestrator scheduling', () => {
+    let logger: Logger;
+    let orchestrator: FixerOrchestrator;
+
+    beforeEach(() => {
+        logger = new Logger(false, true);
+        orchestrator = new FixerOrchestrator(logger);
+    });
+
+    function ids(): string[] {
+        return orchestrator.getFixerIds();
+    }
+
+    function register(id: string, provides: string[] = [], requires: string[] = [], placement = {}): void {
+        orchestrator.registerFixer(new TestFixer(logger, id, provides, requires), placement, 'test-plugin');
+    }
+
+    it('runs the built-in fixers after the fixers they require, without problems', () => {
+        expect(orchestrator.getScheduleProblems()).toEqual([]);
+        expect(ids()[0]).toBe('validation-structure');
+        expect(ids().indexOf('language-attributes')).toBeLessThan(ids().indexOf('title'));
+        expect(ids().indexOf('metadata')).toBeLessThan(ids().indexOf('metadata-accessibility'));
+    });
+
+    it('keeps registration order for fixers without constraints', () => {
+        const builtIn = ids();
+        register('plugin-b');
+        register('plugin-a');
+        expect(ids()).toEqual([...builtIn, 'plugin-b', 'plugin-a']);
+    });
+
+    it('moves a fixer after the fixers providing what it requires', () => {
+        register('needs-early', [], ['early']);
+        register('provides-early', ['early']);
+        expect(ids().indexOf('provides-early')).toBeLessThan(ids().indexOf('needs-early'));
+        expect(orchestrator.getScheduleProblems()).toEqual([]);
+    });
+
+    it('places fixers before and after the fixers they name', () => {
+        register('first-plugin', [], [], { before: ['validation-structure'] });
+        register('before-title', [], [], { before: ['title'] });
+        register('after-plugins', [], [], { after: ['first-plugin'] });
+        expect(ids()[0]).toBe('first-plugin');
+        // Otherwise registration order holds: as late as the placement allows
+        expect(ids().indexOf('before-title')).toBe(ids().indexOf('title') - 1);
+        expect(ids()[ids().length - 1]).toBe('after-plugins');
+    });
+
+    it('reports requirements no fixer provides', () => {
+        register('lonely', [], ['nothing']);
+        expect(orchestrator.getScheduleProblems()).toEqual(['Fixer lonely requires "nothing" but no fixer provides it']);
+        expect(ids()).toContain('lonely');
+    });
+
+    it('reports placements naming unknown fixers', () => {
+        register('misplaced', [], [], { before: ['missing-before'], after: ['missing-after'] });
+        expect(orchestrator.getScheduleProblems()).toEqual([
+            'Fixer misplaced runs before missing-before: unknown fixer missing-before',
+            'Fixer misplaced runs after missing-after: unknown fixer missing-after'
+        ]);
+    });
+
+    it('reports a cycle and keeps its fixers in registration order', () => {
+        register('cycle-a', ['a'], ['c']);
+        register('cycle-b', ['b'], ['a']);
+        register('cycle-c', ['c'], ['b']);
+
+        const problems = orchestrator.getScheduleProblems();
+        expect(problems).toHaveLength(1);
+        expect(problems[0]).toMatch(/^Fixer dependency cycle \(each runs before the next\): /);
+        const cycle = problems[0].split(': ')[1].split(' -> ');
+        expect(cycle[0]).toBe(cycle[cycle.length - 1]);
+        expect(new Set(cycle)).toEqual(new Set(['cycle-a', 'cycle-b', 'cycle-c']));
+        // Each fixer in the reported cycle requires what the one before it provides
+        const requires: { [id: string]: string } = { 'cycle-a': 'cycle-c', 'cycle-b': 'cycle-a', 'cycle-c': 'cycle-b' };
+        cycle.slice(1).forEach((id, index) => expect(requires[id]).toBe(cycle[index]));
+
+        expect(ids().slice(-3)).toEqual(['cycle-a', 'cycle-b', 'cycle-c']);
+    });
+
+    it('logs each problem once across reschedules', () => {
+        register('lonely', [], ['nothing']);
+        register('plugin-b');
+        expect(logger.getLogs().filter(line => line.includes('requires "nothing"'))).toHaveLength(1);
+    });
+});
@@ -0,0 +1,99 @@
+import { AccessibilityIssue, ValidationIssue } from '../../types';
+import { Logger } from '../../utils/common';
+import { DEFAULT_ROUTES, IssueRouter, normalizeRuleId } from '../issue-routing';
+
+function issue(code: string, message: string = '', element?: string): ValidationIssue {
+    const base: ValidationIssue = { type: 'error', category: 'validation', severity: 'major', code, message, fixable: true };
+    return element ? { ...base, category: 'accessibility', element } as AccessibilityIssue : base;
+}
+
+function fixersFor(router: IssueRouter, routed: ValidationIssue): string[] {
+    return router.match(routed).map(route => route.fixer);
+}
+
+describe('normalizeRuleId', () => {
+    it('normalizes EpubCheck message ids and lower-cases other rule ids', () => {
+        expect(normalizeRuleId('HTM_061')).toBe('HTM-061');
+        expect(normalizeRuleId(' htm-061 ')).toBe('HTM-061');
+        expect(normalizeRuleId('Image-Alt')).toBe('image-alt');
+        expect(normalizeRuleId('')).toBe('');
+    });
+});
+
+describe('IssueRouter', () => {
+    const logger = new Logger(false, true);
+
+    it('matches rule ids however they are written', () => {
+        const router = new IssueRouter(logger);
+        expect(router.hasRoutes('rsc_007')).toBe(true);
+        expect(router.hasRoutes('not-a-rule')).toBe(false);
+        expect(fixersFor(router, issue('rsc_007'))).toEqual(['resource-references']);
+        expect(fixersFor(router, issue('IMAGE-ALT'))).toEqual(['alt-text']);
+    });
+
+    it('orders matching routes by priority, with fallbacks after the primary fixer', () => {
+        const router = new IssueRouter(logger);
+        expect(fixersFor(router, issue('metadata-accessmode'))).toEqual(['metadata', 'metadata-accessibility']);
+        expect(fixersFor(router, issue('link-name'))).toEqual(['link-accessibility', 'link-accessibility-enhanced']);
+    });
+
+    it('only uses routes whose element list includes the issue element', () => {
+        const router = new IssueRouter(logger);
+        expect(fixersFor(router, issue('color-contrast', '', 'A'))).toEqual(['color-contrast', 'link-accessibility']);
+        expect(fixersFor(router, issue('color-contrast', '', 'p'))).toEqual(['color-contrast']);
+        expect(fixersFor(router, issue('aria-label', '', 'a'))).toEqual(['link-accessibility', 'interactive-elements']);
+        expect(fixersFor(router, issue('aria-label', '', 'button'))).toEqual(['interactive-elements']);
+    });
+
+    it('only uses routes whose message pattern matches', () => {
+        const router = new IssueRouter(logger);
+        expect(fixersFor(router, issue('RSC-017', 'Warning: the "title" child element is missing')))
+            .toEqual(['title', 'validation-structure']);
+        expect(fixersFor(router, issue('RSC-017', 'The "doc-endnote" role is deprecated'))).toEqual(['validation-structure']);
+        expect(fixersFor(router, issue('RSC-005', 'attribute "xsi:type" not allowed here')))
+            .toEqual(['validation-structure', 'metadata']);
+    });
+
+    it('keeps earlier routes first on equal priorities', () => {
+        const router = new IssueRouter(logger, [
+            { rule: 'custom', fixer: 'first', priority: 10 },
+            { rule: 'custom', fixer: 'higher', priority: 20 },
+            { rule: 'custom', fixer: 'second', priority: 10 }
+        ]);
+        expect(fixersFor(router, issue('custom'))).toEqual(['higher', 'first', 'second']);
+    });
+
+    it('skips a route whose custom condition throws', () => {
+        const router = new IssueRouter(logger, [
+            { rule: 'custom', fixer: 'broken', priority: 20, when: () => { throw new Error('bad condition'); } },
+            { rule: 'custom', fixer: 'picky', priority: 15, when: routed => routed.message.includes('picky') },
+            { rule: 'custom', fixer: 'fallback', priority: 10 }
+        ]);
+        expect(fixersFor(router, issue('custom', 'plain'))).toEqual(['fallback']);
+        expect(fixersFor(router, issue('custom', 'picky'))).toEqual(['picky', 'fallback']);
+        expect(logger.getLogs().some(line => line.includes('custom -> broken failed'))).toBe(true);
+    });
+
+    it('finds fixers that share a priority for the same issues', () => {
+        const router = new IssueRouter(logger, [
+            { rule: 'overlap', fixer: 'a', priority: 10 },
+            { rule: 'overlap', fixer: 'b', priority: 10, elements: ['img'] },
+            { rule: 'separate', fixer: 'a', priority: 10, elements: ['a'] },
+            { rule: 'separate', fixer: 'b', priority: 10, elements: ['img'] },
+            { rule: 'ranked', fixer: 'a', priority: 20 },
+            { rule: 'ranked', fixer: 'b', priority: 10 }
+        ]);
+        expect(router.findAmbiguities()).toEqual([{ rule: 'overlap', priority: 10, fixers: ['a', 'b'] }]);
+    });
+
+    it('has no ambiguous default routes', () => {
+        expect(new IssueRouter(logger, DEFAULT_ROUTES).findAmbiguities()).toEqual([]);
+    });
+
+    it('describes route conditions', () => {
+        const router = new IssueRouter(logger);
+        expect(router.describeConditions({ rule: 'x', fixer: 'y', priority: 1, elements: ['a', 'area'], message: /link/i }))
+            .toBe('on <a>, <area>; message matches /link/i');
+        expect(router.describeConditions({ rule: 'x', fixer: 'y', priority: 1, when: () => true })).toBe('custom condition');
+    });
+});
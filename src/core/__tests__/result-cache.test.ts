@@ -0,0 +1,148 @@
+import fs = require('fs-extra');
+import * as os from 'os';
+import * as path from 'path';
+import { defaultConfig } from '../config';
+import { ResultCache, ResultCacheKey, hashCheckConfig } from '../result-cache';
+import { Logger } from '../../utils/common';
+
+const key: ResultCacheKey = { epubHash: 'a'.repeat(64), tool: 'epubcheck', toolVersion: '5.1.0 /opt/epubcheck.jar', configHash: 'c1' };
+
+describe('hashCheckConfig', () => {
+    it('ignores the fixer selection and other fix-only settings', () => {
+        const base = hashCheckConfig(defaultConfig);
+        const fixOnly = {
+            ...defaultConfig,
+            enabledFixers: ['alt-text'],
+            fixers: ['alt-text'],
+            fixerGroups: { images: ['alt-text'] },
+            accessibility: { ...defaultConfig.accessibility, improveColorContrast: false },
+            preserveFormatting: true,
+            toolTimeouts: { epubcheck: 1000 }
+        };
+        expect(hashCheckConfig(fixOnly)).toBe(base);
+    });
+
+    it('changes with settings that can change the checks', () => {
+        expect(hashCheckConfig({ ...defaultConfig, archiveLimits: { maxEntries: 10 } })).not.toBe(hashCheckConfig(defaultConfig));
+        expect(hashCheckConfig({ ...defaultConfig, plugins: ['./rules.js'] })).not.toBe(hashCheckConfig(defaultConfig));
+    });
+
+    it('does not depend on key order', () => {
+        expect(hashCheckConfig({ ...defaultConfig, archiveLimits: { maxEntries: 10, maxEntrySize: 20 } }))
+            .toBe(hashCheckConfig({ ...defaultConfig, archiveLimits: { maxEntrySize: 20, maxEntries: 10 } }));
+    });
+});
+
+describe('ResultCache', () => {
+    let dir: string;
+    let logger: Logger;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'result-cache-'));
+        logger = new Logger(false, true);
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await fs.remove(dir);
+    });
+
+    async function entryFiles(): Promise<string[]> {
+        return (await fs.readdir(dir)).filter(name => name.endsWith('.json'));
+    }
+
+    // Make the entries' last use a minute apart, oldest first
+    async function ageEntries(): Promise<void> {
+        const files = await entryFiles();
+        for (const [index, name] of files.entries()) {
+            const time = new Date(Date.now() - (files.length - index) * 60000);
+            await fs.utimes(path.join(dir, name), time, time);
+        }
+    }
+
+    it('returns what was stored under the same key only', async () => {
+        const cache = new ResultCache(logger, dir);
+        await cache.set(key, { issues: [1, 2] });
+
+        expect(await cache.get(key)).toEqual({ issues: [1, 2] });
+        expect(await cache.get({ ...key, epubHash: 'b'.repeat(64) })).toBeNull();
+        expect(await cache.get({ ...key, tool: 'ace' })).toBeNull();
+        expect(await cache.get({ ...key, toolVersion: '5.1.0 /usr/share/epubcheck.jar' })).toBeNull();
+        expect(await cache.get({ ...key, toolVersion: '5.2.0 /opt/epubcheck.jar' })).toBeNull();
+        expect(await cache.get({ ...key, configHash: 'c2' })).toBeNull();
+    });
+
+    it('ignores entries it cannot read or that have another format', async () => {
+        const cache = new ResultCache(logger, dir);
+        await cache.set(key, { ok: true });
+        const [name] = await entryFiles();
+
+        await fs.writeJson(path.join(dir, name), { format: 0, result: { ok: true } });
+        expect(await cache.get(key)).toBeNull();
+        await fs.writeFile(path.join(dir, name), '{ not json');
+        expect(await cache.get(key)).toBeNull();
+    });
+
+    it('writes through a temporary file and a rename', async () => {
+        const cache = new ResultCache(logger, dir);
+        const rename = jest.spyOn(fs, 'rename');
+        await cache.set(key, { ok: true });
+
+        expect(rename).toHaveBeenCalledTimes(1);
+        const [from, to] = rename.mock.calls[0] as unknown as [string, string];
+        expect(from).toMatch(/\.tmp$/);
+        expect(to).toBe(path.join(dir, (await entryFiles())[0]));
+        expect(await fs.readdir(dir)).toHaveLength(1);
+    });
+
+    it('leaves no partial entry when a write fails', async () => {
+        const cache = new ResultCache(logger, dir);
+        jest.spyOn(fs, 'rename').mockImplementationOnce(() => Promise.reject(new Error('disk full')));
+        await cache.set(key, { ok: true });
+
+        expect(await fs.readdir(dir)).toEqual([]);
+        expect(await cache.get(key)).toBeNull();
+        expect(logger.getLogs().some(line => line.includes('disk full'))).toBe(true);
+    });
+
+    it('removes the least recently used entries beyond the entry limit', async () => {
+        const cache = new ResultCache(logger, dir, { maxEntries: 2 });
+        await cache.set({ ...key, configHash: 'first' }, 1);
+        await cache.set({ ...key, configHash: 'second' }, 2);
+        await ageEntries();
+
+        // Reading an entry counts as using it
+        expect(await cache.get({ ...key, configHash: 'first' })).toBe(1);
+        await cache.set({ ...key, configHash: 'third' }, 3);
+
+        expect(await entryFiles()).toHaveLength(2);
+        expect(await cache.get({ ...key, configHash: 'first' })).toBe(1);
+        expect(await cache.get({ ...key, configHash: 'second' })).toBeNull();
+        expect(await cache.get({ ...key, configHash: 'third' })).toBe(3);
+    });
+
+    it('removes the least recently used entries beyond the size limit', async () => {
+        const large = 'x'.repeat(1000);
+        const cache = new ResultCache(logger, dir, { maxBytes: 2500 });
+        await cache.set({ ...key, configHash: 'first' }, large);
+        await cache.set({ ...key, configHash: 'second' }, large);
+        await ageEntries();
+        await cache.set({ ...key, configHash: 'third' }, large);
+
+        expect(await cache.get({ ...key, configHash: 'first' })).toBeNull();
+        expect(await cache.get({ ...key, configHash: 'second' })).toBe(large);
+        expect(await cache.get({ ...key, configHash: 'third' })).toBe(large);
+    });
+
+    it('clears only its own entries', async () => {
+        const cache = new ResultCache(logger, dir);
+        await cache.set(key, 1);
+        await cache.set({ ...key, tool: 'ace' }, 2);
+        await fs.writeFile(path.join(dir, 'notes.json'), '{}');
+        await fs.writeFile(path.join(dir, 'README'), 'keep');
+
+        expect(await cache.clear()).toBe(2);
+        expect((await fs.readdir(dir)).sort()).toEqual(['README', 'notes.json']);
+        expect(await new ResultCache(logger, path.join(dir, 'missing')).clear()).toBe(0);
+    });
+});
@@ -0,0 +1,63 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { Logger } from '../../utils/common';
+import { UnsafeArchiveError } from '../../utils/archive-safety';
+import { ExternalToolInstaller } from '../tool-installer';
+import { ChecksumMismatchError } from '../tool-manifest';
+
+describe('ExternalToolInstaller installing from local artifacts', () => {
+    let dir: string;
+    let installer: ExternalToolInstaller;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tool-installer-'));
+        installer = new ExternalToolInstaller(new Logger(false, true));
+        // Nothing here gets as far as installing
+        jest.spyOn(installer, 'initializeToolsDirectory').mockResolvedValue();
+    });
+
+    afterEach(async () => {
+        await fs.remove(dir);
+    });
+
+    // A bundle with an entry outside the extraction directory, so extracting it fails with an UnsafeArchiveError
+    async function writeUnsafeBundle(): Promise<{ archivePath: string; sha256: string }> {
+        const zip = new JSZip();
+        zip.file('../outside.txt', 'outside');
+        const data = await zip.generateAsync({ type: 'nodebuffer' });
+        const archivePath = path.join(dir, 'tools-bundle.zip');
+        await fs.writeFile(archivePath, data);
+        return { archivePath, sha256: crypto.createHash('sha256').update(data).digest('hex') };
+    }
+
+    async function writeManifest(bundleSha256: string): Promise<string> {
+        const manifestPath = path.join(dir, 'pinned-manifest.json');
+        await fs.writeJson(manifestPath, {
+            tools: [{ name: 'epubcheck', version: '5.1.0', file: 'epubcheck-5.1.0.zip', sha256: 'a'.repeat(64) }],
+            bundles: [{ file: 'tools-bundle.zip', sha256: bundleSha256 }]
+        });
+        return manifestPath;
+    }
+
+    it('needs a pinned manifest', async () => {
+        const { archivePath } = await writeUnsafeBundle();
+        await expect(installer.installAllTools({ from: archivePath })).rejects.toThrow(/needs a pinned manifest/);
+    });
+
+    it('checks the archive before extracting it', async () => {
+        const { archivePath } = await writeUnsafeBundle();
+        const manifest = await writeManifest('b'.repeat(64));
+
+        await expect(installer.installAllTools({ from: archivePath, manifest })).rejects.toBeInstanceOf(ChecksumMismatchError);
+    });
+
+    it('extracts an archive that matches the manifest', async () => {
+        const { archivePath, sha256 } = await writeUnsafeBundle();
+        const manifest = await writeManifest(sha256);
+
+        await expect(installer.installAllTools({ from: archivePath, manifest })).rejects.toBeInstanceOf(UnsafeArchiveError);
+    });
+});
@@ -0,0 +1,81 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ChecksumMismatchError, loadToolManifest, selectArtifact, verifyArtifact, verifyBundle } from '../tool-manifest';
+
+function sha256(data: string): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+describe('tool manifests', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tool-manifest-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(dir);
+    });
+
+    async function writeManifest(data: unknown): Promise<string> {
+        const manifestPath = path.join(dir, 'tools-manifest.json');
+        await fs.writeJson(manifestPath, data);
+        return manifestPath;
+    }
+
+    it('loads tools and bundles with lower-case checksums', async () => {
+        const manifest = await loadToolManifest(await writeManifest({
+            tools: [{ name: 'epubcheck', version: '5.1.0', file: 'epubcheck-5.1.0.zip', sha256: 'A'.repeat(64) }],
+            bundles: [{ file: 'tools-bundle.tgz', sha256: 'B'.repeat(64) }]
+        }));
+
+        expect(manifest.tools).toEqual([{ name: 'epubcheck', version: '5.1.0', file: 'epubcheck-5.1.0.zip', sha256: 'a'.repeat(64) }]);
+        expect(manifest.bundles).toEqual([{ file: 'tools-bundle.tgz', sha256: 'b'.repeat(64) }]);
+    });
+
+    it('rejects unknown tools, missing checksums and empty manifests', async () => {
+        const artifact = { name: 'epubcheck', version: '5.1.0', file: 'epubcheck.zip', sha256: 'a'.repeat(64) };
+        await expect(loadToolManifest(await writeManifest({ tools: [{ ...artifact, name: 'java' }] }))).rejects.toThrow(/Unknown tool "java"/);
+        await expect(loadToolManifest(await writeManifest({ tools: [{ ...artifact, sha256: 'abc' }] }))).rejects.toThrow(/invalid sha256/);
+        await expect(loadToolManifest(await writeManifest({ tools: [artifact], bundles: [{ file: 'bundle.zip' }] })))
+            .rejects.toThrow(/bundles\[0\]/);
+        await expect(loadToolManifest(await writeManifest({ tools: [] }))).rejects.toThrow(/No tools listed/);
+    });
+
+    it('selects the requested or newest version', async () => {
+        const manifest = await loadToolManifest(await writeManifest({
+            tools: ['5.0.1', '5.1.0', '4.2.6'].map(version => ({ name: 'epubcheck', version, file: `epubcheck-${version}.zip`, sha256: 'a'.repeat(64) }))
+        }));
+
+        expect(selectArtifact(manifest, 'epubcheck')?.version).toBe('5.1.0');
+        expect(selectArtifact(manifest, 'epubcheck', '5.0.1')?.version).toBe('5.0.1');
+        expect(selectArtifact(manifest, 'daisy-ace')).toBeNull();
+        expect(() => selectArtifact(manifest, 'epubcheck', '3.0')).toThrow(/not in/);
+    });
+
+    it('checks artifacts inside the root against their checksum', async () => {
+        await fs.writeFile(path.join(dir, 'epubcheck.zip'), 'release');
+        const artifact = { name: 'epubcheck' as const, version: '5.1.0', file: 'epubcheck.zip', sha256: sha256('release') };
+
+        expect(await verifyArtifact(artifact, dir)).toBe(path.join(dir, 'epubcheck.zip'));
+        await expect(verifyArtifact({ ...artifact, sha256: sha256('other') }, dir)).rejects.toBeInstanceOf(ChecksumMismatchError);
+        await expect(verifyArtifact({ ...artifact, file: '../epubcheck.zip' }, dir)).rejects.toThrow(/outside/);
+    });
+
+    it('checks an archive against the bundle with its file name', async () => {
+        const archivePath = path.join(dir, 'tools-bundle.zip');
+        await fs.writeFile(archivePath, 'bundle');
+        const tools = [{ name: 'epubcheck', version: '5.1.0', file: 'epubcheck.zip', sha256: 'a'.repeat(64) }];
+
+        const pinned = await loadToolManifest(await writeManifest({ tools, bundles: [{ file: 'dist/tools-bundle.zip', sha256: sha256('bundle') }] }));
+        await expect(verifyBundle(pinned, archivePath)).resolves.toBeUndefined();
+
+        const swapped = await loadToolManifest(await writeManifest({ tools, bundles: [{ file: 'tools-bundle.zip', sha256: sha256('original') }] }));
+        await expect(verifyBundle(swapped, archivePath)).rejects.toBeInstanceOf(ChecksumMismatchError);
+
+        const unlisted = await loadToolManifest(await writeManifest({ tools }));
+        await expect(verifyBundle(unlisted, archivePath)).rejects.toThrow(/lists no checksum for tools-bundle\.zip/);
+    });
+});
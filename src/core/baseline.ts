@@ -0,0 +1,149 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import { ValidationIssue } from '../types';
+import { Logger } from '../utils/common';
+
+export const BASELINE_VERSION = 2;
+const FIRST_VERSION_WITH_XPATHS = 2; // Earlier baselines were written before issues carried xpaths
+
+export interface BaselineEntry {
+    fingerprint: string;
+    code: string;
+    file?: string;
+    message: string;
+    count: number; // Number of identical issues accepted
+}
+
+export interface BaselineFile {
+    version: number;
+    createdAt: string;
+    epub?: string;
+    entries: BaselineEntry[];
+}
+
+/**
+ * Stable fingerprint of an issue: code, file, normalized xpath and message template.
+ * Numbers and quoted values are stripped from the message so that counts, ids and
+ * attribute values that change between runs don't change the fingerprint.
+ */
+export function fingerprintIssue(issue: ValidationIssue, baselineVersion: number = BASELINE_VERSION): string {
+    const parts = [
+        issue.code,
+        normalizeFile(issue.location?.file),
+        normalizeSelector(baselineVersion >= FIRST_VERSION_WITH_XPATHS ? issue.location?.xpath : undefined),
+        normalizeMessage(issue.message)
+    ];
+    return crypto.createHash('sha256').update(parts.join('\u0000')).digest('hex').substring(0, 32);
+}
+
+function normalizeFile(file?: string): string {
+    if (!file) {
+        return '';
+    }
+    let normalized = file.replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '');
+    try {
+        normalized = decodeURIComponent(normalized);
+    } catch (error) {
+        // Keep the raw path when it isn't valid percent-encoding
+    }
+    return normalized;
+}
+
+function normalizeSelector(selector?: string): string {
+    if (!selector) {
+        return '';
+    }
+    return selector
+        .replace(/\s+/g, '')
+        .replace(/\[1\]/g, '') // /html[1]/body[1] and /html/body are the same element
+        .replace(/\b[a-z]+:(?=[a-z])/gi, '') // Drop namespace prefixes such as xhtml:
+        .toLowerCase();
+}
+
+function normalizeMessage(message: string): string {
+    return message
+        .replace(/"[^"]*"|'[^']*'|“[^”]*”/g, '"…"')
+        .replace(/\d+(\.\d+)?/g, '#')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+export class BaselineManager {
+    private logger: Logger;
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+    }
+
+    createBaseline(issues: ValidationIssue[], epubPath?: string): BaselineFile {
+        const entries = new Map<string, BaselineEntry>();
+
+        for (const issue of issues) {
+            const fingerprint = fingerprintIssue(issue);
+            const entry = entries.get(fingerprint);
+            if (entry) {
+                entry.count++;
+            } else {
+                entries.set(fingerprint, {
+                    fingerprint,
+                    code: issue.code,
+                    file: issue.location?.file,
+                    message: issue.message,
+                    count: 1
+                });
+            }
+        }
+
+        return {
+            version: BASELINE_VERSION,
+            createdAt: new Date().toISOString(),
+            epub: epubPath,
+            entries: Array.from(entries.values()).sort((a, b) =>
+                a.code.localeCompare(b.code) || (a.file || '').localeCompare(b.file || '') || a.fingerprint.localeCompare(b.fingerprint))
+        };
+    }
+
+    async saveBaseline(baseline: BaselineFile, outputPath: string): Promise<void> {
+        await fs.writeFile(outputPath, JSON.stringify(baseline, null, 2), 'utf8');
+        this.logger.success(`Baseline with ${baseline.entries.length} entries written to ${outputPath}`);
+    }
+
+    async loadBaseline(baselinePath: string): Promise<BaselineFile> {
+        const baseline = JSON.parse(await fs.readFile(baselinePath, 'utf8'));
+        if (!baseline || !Array.isArray(baseline.entries)) {
+            throw new Error(`Invalid baseline file: ${baselinePath}`);
+        }
+        if (!(baseline.version >= 1 && baseline.version <= BASELINE_VERSION)) {
+            throw new Error(`Unsupported baseline version ${baseline.version} in ${baselinePath}`);
+        }
+        this.logger.info(`Loaded baseline with ${baseline.entries.length} entries from ${baselinePath}`);
+        return baseline;
+    }
+
+    /**
+     * Mark issues matching the baseline as suppressed. Each baseline entry suppresses at
+     * most `count` issues, so additional occurrences of an accepted issue still show up.
+     * Returns the number of suppressed issues.
+     */
+    applyBaseline(issues: ValidationIssue[], baseline: BaselineFile): number {
+        const remaining = new Map<string, number>();
+        for (const entry of baseline.entries) {
+            remaining.set(entry.fingerprint, (remaining.get(entry.fingerprint) || 0) + (entry.count || 1));
+        }
+
+        let suppressed = 0;
+        for (const issue of issues) {
+            issue.fingerprint = fingerprintIssue(issue);
+            const fingerprint = baseline.version === BASELINE_VERSION ? issue.fingerprint : fingerprintIssue(issue, baseline.version);
+            const count = remaining.get(fingerprint) || 0;
+            if (count > 0) {
+                remaining.set(fingerprint, count - 1);
+                issue.suppressed = true;
+                suppressed++;
+            }
+        }
+
+        this.logger.info(`Baseline suppressed ${suppressed} of ${issues.length} issues`);
+        return suppressed;
+    }
+}
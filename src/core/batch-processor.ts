@@ -0,0 +1,267 @@
+import { ChildProcess, fork } from 'child_process';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { BatchBookResult, CliOptions, FixerConfig } from '../types';
+import { Logger } from '../utils/common';
+import { EpubCheckRunner } from '../validators/epubcheck-daemon';
+import { ToolError } from '../utils/process-runner';
+
+export interface BatchOptions {
+    outputDir: string;
+    concurrency: number;
+    analyze?: boolean;
+    epubCheck?: EpubCheckRunner; // Runs the workers' EpubCheck checks in this process, e.g. an EpubCheckDaemon
+    // Per-book options passed through to processEpub (input, output and reportPath are set per book)
+    processing: Partial<CliOptions>;
+}
+
+/**
+ * Message sent to a batch worker process
+ */
+export interface BatchWorkerRequest {
+    options: CliOptions;
+    config: FixerConfig;
+    logPath: string;
+    sharedEpubCheck?: boolean; // Send EpubCheck runs to the parent as EpubCheckJob messages
+}
+
+/**
+ * Message sent back by a batch worker process
+ */
+export interface BatchWorkerResponse {
+    success: boolean;
+    result?: Omit<BatchBookResult, 'input' | 'outputPath' | 'reportPath' | 'logPath' | 'durationMs'>;
+    error?: string;
+}
+
+/**
+ * EpubCheck run a worker asks the parent for, when the parent shares an EpubCheck daemon
+ */
+export interface EpubCheckJob {
+    type: 'epubcheck';
+    id: number;
+    args: string[];
+    timeout?: number;
+}
+
+/**
+ * The parent's answer to an EpubCheckJob. error is set when the run failed; kind is a ToolError kind.
+ */
+export interface EpubCheckJobResult {
+    type: 'epubcheck-result';
+    id: number;
+    result?: { exitCode: number; stdout: string; stderr: string; truncated: boolean; duration: number };
+    error?: { message: string; kind?: string; exitCode?: number | null; timeout?: number };
+}
+
+export class BatchProcessor {
+    private logger: Logger;
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+    }
+
+    /**
+     * Resolve a batch source to a list of EPUB paths. The source is either a directory
+     * (scanned for .epub files) or a text file listing one EPUB path per line.
+     * Blank lines and lines starting with # are ignored; relative paths are relative to the list file.
+     */
+    async resolveInputs(source: string, recursive: boolean = false): Promise<string[]> {
+        const sourcePath = path.resolve(source);
+        const stats = await fs.stat(sourcePath);
+
+        if (stats.isDirectory()) {
+            return this.findEpubFiles(sourcePath, recursive);
+        }
+
+        const listDir = path.dirname(sourcePath);
+        const lines = (await fs.readFile(sourcePath, 'utf8')).split(/\r?\n/);
+        return lines
+            .map(line => line.trim())
+            .filter(line => line.length > 0 && !line.startsWith('#'))
+            .map(line => path.resolve(listDir, line));
+    }
+
+    /**
+     * Process all inputs with at most options.concurrency books in flight.
+     * Each book runs in its own child process so a crash only fails that book.
+     */
+    async processBatch(
+        inputs: string[],
+        config: FixerConfig,
+        options: BatchOptions,
+        onBookComplete?: (result: BatchBookResult, completed: number, total: number) => void
+    ): Promise<BatchBookResult[]> {
+        await fs.ensureDir(options.outputDir);
+
+        const results: BatchBookResult[] = new Array(inputs.length);
+        const outputNames = this.assignOutputNames(inputs);
+        const concurrency = Math.max(1, Math.min(options.concurrency, inputs.length));
+        let nextIndex = 0;
+        let completed = 0;
+
+        this.logger.info(`Processing ${inputs.length} EPUBs with ${concurrency} workers`);
+
+        const runWorker = async (): Promise<void> => {
+            while (nextIndex < inputs.length) {
+                const index = nextIndex++;
+                results[index] = await this.processBook(inputs[index], outputNames[index], config, options);
+                completed++;
+                if (onBookComplete) {
+                    onBookComplete(results[index], completed, inputs.length);
+                }
+            }
+        };
+
+        await Promise.all(Array.from({ length: concurrency }, () => runWorker()));
+        return results;
+    }
+
+    private async processBook(
+        input: string,
+        outputName: string,
+        config: FixerConfig,
+        options: BatchOptions
+    ): Promise<BatchBookResult> {
+        const startTime = Date.now();
+        const outputPath = options.analyze ? undefined : path.join(options.outputDir, `${outputName}_fixed.epub`);
+        const reportPath = path.join(options.outputDir, `${outputName}_report.html`);
+        const logPath = path.join(options.outputDir, `${outputName}.log`);
+
+        const failed = (error: string): BatchBookResult => ({
+            input,
+            status: 'failed',
+            logPath: fs.existsSync(logPath) ? logPath : undefined,
+            totalIssues: 0,
+            criticalIssues: 0,
+            fixableIssues: 0,
+            fixedIssues: 0,
+            validationErrors: 0,
+            durationMs: Date.now() - startTime,
+            error
+        });
+
+        if (!(await fs.pathExists(input))) {
+            this.logger.warn(`Skipping missing EPUB: ${input}`);
+            return failed('File not found');
+        }
+
+        const request: BatchWorkerRequest = {
+            options: {
+                ...options.processing,
+                input,
+                output: outputPath,
+                reportPath,
+                analyze: options.analyze || false
+            },
+            config,
+            logPath,
+            sharedEpubCheck: options.epubCheck !== undefined
+        };
+
+        this.logger.info(`Starting ${input}`);
+        const response = await this.runWorker(request, options.epubCheck);
+
+        if (!response.success || !response.result) {
+            this.logger.warn(`Failed ${input}: ${response.error}`);
+            return failed(response.error || 'Unknown error');
+        }
+
+        return {
+            ...response.result,
+            input,
+            outputPath,
+            reportPath: (await fs.pathExists(reportPath)) ? reportPath : undefined,
+            logPath,
+            durationMs: Date.now() - startTime
+        };
+    }
+
+    private runWorker(request: BatchWorkerRequest, epubCheck?: EpubCheckRunner): Promise<BatchWorkerResponse> {
+        return new Promise((resolve) => {
+            // Running from the TypeScript sources (npm run dev) needs ts-node in the child as well
+            const isTypeScript = __filename.endsWith('.ts');
+            const workerPath = path.join(__dirname, isTypeScript ? 'batch-worker.ts' : 'batch-worker.js');
+            const child = fork(workerPath, [], {
+                stdio: ['ignore', 'ignore', 'ignore', 'ipc'],
+                execArgv: isTypeScript ? ['-r', 'ts-node/register'] : []
+            });
+
+            let response: BatchWorkerResponse | null = null;
+
+            child.on('message', (message: BatchWorkerResponse | EpubCheckJob) => {
+                if ('type' in message && message.type === 'epubcheck') {
+                    this.runEpubCheckJob(message, epubCheck, child);
+                    return;
+                }
+                response = message as BatchWorkerResponse;
+            });
+
+            child.on('error', (error) => {
+                response = response || { success: false, error: `Worker failed to start: ${error.message}` };
+            });
+
+            child.on('exit', (code, signal) => {
+                resolve(response || {
+                    success: false,
+                    error: signal ? `Worker killed by ${signal}` : `Worker exited with code ${code}`
+                });
+            });
+
+            child.send(request);
+        });
+    }
+
+    private async runEpubCheckJob(job: EpubCheckJob, epubCheck: EpubCheckRunner | undefined, child: ChildProcess): Promise<void> {
+        let reply: EpubCheckJobResult;
+        try {
+            if (!epubCheck) {
+                throw new Error('No shared EpubCheck in this batch');
+            }
+            reply = { type: 'epubcheck-result', id: job.id, result: await epubCheck.run(job.args, { timeout: job.timeout }) };
+        } catch (error: any) {
+            reply = {
+                type: 'epubcheck-result',
+                id: job.id,
+                error: {
+                    message: error.message,
+                    kind: error instanceof ToolError ? error.kind : undefined,
+                    exitCode: error.exitCode,
+                    timeout: error.timeout
+                }
+            };
+        }
+        if (child.connected) {
+            child.send(reply);
+        }
+    }
+
+    /**
+     * Give every input a unique base name for its output files
+     */
+    private assignOutputNames(inputs: string[]): string[] {
+        const used = new Map<string, number>();
+        return inputs.map(input => {
+            const baseName = path.basename(input, path.extname(input));
+            const count = used.get(baseName) || 0;
+            used.set(baseName, count + 1);
+            return count === 0 ? baseName : `${baseName}_${count + 1}`;
+        });
+    }
+
+    private async findEpubFiles(dir: string, recursive: boolean): Promise<string[]> {
+        const files: string[] = [];
+        const entries = await fs.readdir(dir, { withFileTypes: true });
+
+        for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+            const entryPath = path.join(dir, entry.name);
+            if (entry.isDirectory() && recursive) {
+                files.push(...await this.findEpubFiles(entryPath, recursive));
+            } else if (entry.isFile() && path.extname(entry.name).toLowerCase() === '.epub') {
+                files.push(entryPath);
+            }
+        }
+
+        return files;
+    }
+}
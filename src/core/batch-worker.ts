@@ -0,0 +1,109 @@
+import { EpubAccessibilityProcessor } from './epub-processor';
+import { BatchWorkerRequest, BatchWorkerResponse, EpubCheckJob, EpubCheckJobResult } from './batch-processor';
+import { Logger } from '../utils/common';
+import { EpubCheckRunner } from '../validators/epubcheck-daemon';
+import { ToolCallOptions, ToolCancelled, ToolCrashed, ToolError, ToolNotFound, ToolRunResult, ToolTimeout } from '../utils/process-runner';
+
+/**
+ * Sends EpubCheck runs to the batch parent, which runs them in its shared daemon.
+ * Cancelling a run only stops waiting for it; the parent's timeout still applies.
+ */
+class ParentEpubCheck implements EpubCheckRunner {
+    private nextId = 1;
+    private pending: Map<number, { resolve: (result: ToolRunResult) => void; reject: (error: Error) => void }> = new Map();
+
+    constructor() {
+        process.on('message', (message: EpubCheckJobResult) => {
+            const job = message.type === 'epubcheck-result' ? this.pending.get(message.id) : undefined;
+            if (!job) {
+                return;
+            }
+            this.pending.delete(message.id);
+            if (message.result) {
+                job.resolve(message.result);
+            } else {
+                job.reject(restoreError(message.error!));
+            }
+        });
+    }
+
+    run(args: string[], options: ToolCallOptions = {}): Promise<ToolRunResult> {
+        return new Promise<ToolRunResult>((resolve, reject) => {
+            if (options.signal?.aborted) {
+                reject(new ToolCancelled('EpubCheck', 'java', args));
+                return;
+            }
+            const job: EpubCheckJob = { type: 'epubcheck', id: this.nextId++, args, timeout: options.timeout };
+            this.pending.set(job.id, { resolve, reject });
+            options.signal?.addEventListener('abort', () => {
+                if (this.pending.delete(job.id)) {
+                    reject(new ToolCancelled('EpubCheck', 'java', args));
+                }
+            });
+            process.send!(job);
+        });
+    }
+}
+
+// Errors cross the IPC channel as plain objects; the processor needs ToolErrors to report them as issues
+function restoreError(data: NonNullable<EpubCheckJobResult['error']>): Error {
+    let error: Error;
+    switch (data.kind) {
+        case 'timeout':
+            error = new ToolTimeout('EpubCheck', 'java', [], data.timeout || 0);
+            break;
+        case 'crashed':
+            error = new ToolCrashed('EpubCheck', 'java', [], data.exitCode === undefined ? null : data.exitCode, null);
+            break;
+        case 'not-found':
+            error = new ToolNotFound('EpubCheck', 'java', []);
+            break;
+        case 'cancelled':
+            error = new ToolCancelled('EpubCheck', 'java', []);
+            break;
+        default:
+            return new Error(data.message);
+    }
+    (error as ToolError).message = data.message;
+    return error;
+}
+
+/**
+ * Child process entry point for batch mode: processes one EPUB and reports a summary
+ * back to the parent over IPC. The full log is written to request.logPath.
+ */
+process.once('message', async (request: BatchWorkerRequest) => {
+    const logger = new Logger(false);
+    const processor = new EpubAccessibilityProcessor(logger);
+    if (request.sharedEpubCheck) {
+        processor.useEpubCheckRunner(new ParentEpubCheck());
+    }
+    let response: BatchWorkerResponse;
+
+    try {
+        const result = await processor.processEpub(request.options, request.config);
+        response = {
+            success: true,
+            result: {
+                status: request.options.analyze ? 'analyzed' : 'fixed',
+                title: result.epub.title,
+                totalIssues: result.summary.totalIssues,
+                criticalIssues: result.summary.criticalIssues,
+                fixableIssues: result.summary.fixableIssues,
+                fixedIssues: result.summary.fixedIssues,
+                validationErrors: result.validation.issues.filter(i => i.type === 'error' && !i.fixed).length,
+                accessibilityScore: result.accessibility.score
+            }
+        };
+    } catch (error: any) {
+        response = { success: false, error: error.message };
+    }
+
+    try {
+        await logger.saveLogs(request.logPath);
+    } catch (error) {
+        // The log file is best effort
+    }
+
+    process.send!(response, () => process.exit(0));
+});
@@ -1,3 +1,4 @@
+import * as path from 'path';
 import { FixerConfig } from '../types';
 
 export const defaultConfig: FixerConfig = {
@@ -10,7 +11,10 @@ export const defaultConfig: FixerConfig = {
         'skip-links',
         'missing-metadata',
         'broken-links',
-        'invalid-xhtml'
+        'invalid-xhtml',
+        'color-contrast',
+        'interactive-elements',
+        'scrollable-regions'
     ],
     accessibility: {
         addMissingAltText: true,
@@ -28,16 +32,127 @@ export const defaultConfig: FixerConfig = {
     }
 };
 
+/**
+ * Group names accepted in enabledFixers, --only and --skip, mapped to fixer ids.
+ * Fixer ids (see BaseFixer.getFixerId) are accepted directly as well.
+ */
+export const fixerGroups: { [group: string]: string[] } = {
+    'missing-alt-text': ['alt-text'],
+    'heading-structure': ['heading-structure'],
+    'landmarks': ['landmark-unique', 'epub-type-roles'],
+    'language-attributes': ['language-attributes'],
+    'table-headers': [], // No table header fixer yet
+    'skip-links': ['link-accessibility', 'link-accessibility-enhanced'],
+    'missing-metadata': ['metadata', 'metadata-accessibility', 'title'],
+    'broken-links': ['resource-references', 'non-linear-content'],
+    'invalid-xhtml': ['validation-structure', 'data-attributes'],
+    'color-contrast': ['color-contrast'],
+    'interactive-elements': ['interactive-elements'],
+    'scrollable-regions': ['scrollable-regions']
+};
+
+/**
+ * Boolean toggles in FixerConfig mapped to the fixers they switch off when set to false
+ */
+export const fixerToggles: { [toggle: string]: string[] } = {
+    'accessibility.addMissingAltText': ['alt-text'],
+    'accessibility.fixHeadingStructure': ['heading-structure'],
+    'accessibility.addLandmarks': ['landmark-unique', 'epub-type-roles'],
+    'accessibility.improveColorContrast': ['color-contrast'],
+    'accessibility.addLanguageAttributes': ['language-attributes'],
+    'accessibility.fixTableHeaders': [],
+    'accessibility.addSkipLinks': ['link-accessibility', 'link-accessibility-enhanced'],
+    'validation.fixMissingMetadata': ['metadata', 'metadata-accessibility', 'title'],
+    'validation.fixBrokenLinks': ['resource-references', 'non-linear-content'],
+    'validation.fixInvalidXhtml': ['validation-structure', 'data-attributes']
+};
+
+export interface FixerSelection {
+    enabled: string[];
+    disabled: string[];
+    unknownNames: string[];
+}
+
+/**
+ * Work out which fixers should run from the config and the --only/--skip CLI lists.
+ * --only replaces the configured selection, --skip is applied last.
+ * Plugin fixers are enabled by listing the plugin; plugin names work as groups.
+ */
+export function resolveFixerSelection(
+    config: FixerConfig,
+    fixerIds: string[],
+    only?: string[],
+    skip?: string[],
+    pluginFixerIds: { [plugin: string]: string[] } = {}
+): FixerSelection {
+    const unknownNames: string[] = [];
+    const groups = { ...fixerGroups, ...pluginFixerIds };
+    const expand = (names: string[]): string[] => {
+        const ids: string[] = [];
+        for (const name of names.map(n => n.trim()).filter(n => n.length > 0)) {
+            if (groups[name]) {
+                ids.push(...groups[name]);
+            } else if (fixerIds.includes(name)) {
+                ids.push(name);
+            } else if (!unknownNames.includes(name)) {
+                unknownNames.push(name);
+            }
+        }
+        return ids;
+    };
+
+    let enabled: Set<string>;
+    if (only && only.length > 0) {
+        enabled = new Set(expand(only));
+    } else {
+        enabled = new Set(Array.isArray(config.enabledFixers) ? expand(config.enabledFixers) : fixerIds);
+        Object.values(pluginFixerIds).forEach(ids => ids.forEach(id => enabled.add(id)));
+
+        for (const [toggle, ids] of Object.entries(fixerToggles)) {
+            const [section, key] = toggle.split('.');
+            const value = (config as any)[section]?.[key];
+            if (value === false) {
+                ids.forEach(id => enabled.delete(id));
+            }
+        }
+    }
+
+    if (skip && skip.length > 0) {
+        expand(skip).forEach(id => enabled.delete(id));
+    }
+
+    return {
+        enabled: fixerIds.filter(id => enabled.has(id)),
+        disabled: fixerIds.filter(id => !enabled.has(id)),
+        unknownNames
+    };
+}
+
 export function loadConfig(configPath?: string): FixerConfig {
     if (configPath) {
         try {
             const fs = require('fs');
             const userConfig = JSON.parse(fs.readFileSync(configPath, 'utf8'));
-            return { ...defaultConfig, ...userConfig };
+            const config: FixerConfig = {
+                ...defaultConfig,
+                ...userConfig,
+                accessibility: { ...defaultConfig.accessibility, ...userConfig.accessibility },
+                validation: { ...defaultConfig.validation, ...userConfig.validation }
+            };
+            // Plugin paths are relative to the configuration file
+            if (Array.isArray(userConfig.plugins)) {
+                config.plugins = userConfig.plugins.map((plugin: string) =>
+                    plugin.startsWith('.') ? path.resolve(path.dirname(configPath), plugin) : plugin);
+            }
+            // So is the cache directory
+            if (typeof userConfig.cacheDir === 'string') {
+                config.cacheDir = path.resolve(path.dirname(configPath), userConfig.cacheDir);
+            }
+            return config;
         } catch (error) {
             console.warn(`Could not load config from ${configPath}, using defaults`);
             return defaultConfig;
         }
     }
     return defaultConfig;
-}
\ No newline at end of file
+}
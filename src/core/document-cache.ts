@@ -0,0 +1,178 @@
+import * as cheerio from 'cheerio';
+import { EpubContent } from '../types';
+import { Logger } from '../utils/common';
+import { parseWithSource, serializeMinimal } from '../utils/minimal-serializer';
+
+type CheerioStatic = ReturnType<typeof cheerio.load>;
+
+interface CachedDocument {
+    $: CheerioStatic;
+    source: string | null; // Text the document was parsed from or last serialized to; null while it has unsaved changes
+    owner: EpubContent; // Entry whose text is stale while the document has unsaved changes
+}
+
+/**
+ * Write a parsed document back to text. OPF and XHTML files keep XML serialization and an XML declaration.
+ */
+export function serializeDocument($: CheerioStatic, content: EpubContent): string {
+    if (content.mediaType === 'application/oebps-package+xml' ||
+        content.path.endsWith('.opf') ||
+        content.mediaType === 'application/xhtml+xml' ||
+        content.path.endsWith('.xhtml')) {
+        const xml = $.xml();
+        return xml.startsWith('<?xml') ? xml : '<?xml version="1.0" encoding="UTF-8"?>\n' + xml;
+    }
+    return $.html();
+}
+
+/**
+ * One parsed document per content file, shared by the fixers for the whole fix phase.
+ *
+ * A fixer that saves a document marks it modified instead of serializing it. The entry's text is
+ * written when something reads it: the orchestrator comparing before/after text for a fix, string-based
+ * fixers, or repackaging. Writing the text directly drops the document, so the next load parses the new text.
+ */
+export class DocumentCache {
+    private logger: Logger;
+    private documents: Map<string, CachedDocument> = new Map();
+    private stats = { parsed: 0, reused: 0, serialized: 0 };
+    private preserveFormatting: boolean;
+    private touched: Set<string> | null = null;
+
+    /**
+     * With preserveFormatting, documents are written back as edits to the text they were parsed from
+     */
+    constructor(logger: Logger, options: { preserveFormatting?: boolean } = {}) {
+        this.logger = logger;
+        this.preserveFormatting = !!options.preserveFormatting;
+    }
+
+    load(content: EpubContent): CheerioStatic {
+        this.touched?.add(content.path);
+        const cached = this.documents.get(content.path);
+        if (cached && cached.source === null) {
+            if (cached.owner === content) {
+                this.stats.reused++;
+                return cached.$;
+            }
+            // Another entry for the same path replaced the owner; write the owner's text first
+            this.serialize(cached.owner);
+        }
+
+        const text = content.content as string;
+        if (cached && cached.source === text) {
+            this.stats.reused++;
+            return cached.$;
+        }
+
+        const $ = this.preserveFormatting ? parseWithSource(text) : cheerio.load(text, { xmlMode: true });
+        this.documents.set(content.path, { $, source: text, owner: content });
+        this.stats.parsed++;
+        return $;
+    }
+
+    /**
+     * Record that `$` holds the new state of `content`. Its text is serialized when it is next read.
+     */
+    markModified($: CheerioStatic, content: EpubContent): void {
+        this.touched?.add(content.path);
+        const cached = this.documents.get(content.path);
+        if (cached && cached.source === null && cached.owner !== content) {
+            this.serialize(cached.owner);
+        }
+        this.documents.set(content.path, { $, source: null, owner: content });
+
+        Object.defineProperty(content, 'content', {
+            configurable: true,
+            enumerable: true,
+            get: () => this.serialize(content),
+            set: (value: string | Buffer) => this.replace(content, value)
+        });
+    }
+
+    /**
+     * Start recording the paths of documents that are loaded or marked modified, for one fixer call
+     */
+    startTracking(): void {
+        this.touched = new Set();
+    }
+
+    /**
+     * Stop recording and return the paths recorded since startTracking
+     */
+    stopTracking(): string[] {
+        const paths = Array.from(this.touched || []);
+        this.touched = null;
+        return paths;
+    }
+
+    /**
+     * Drop the documents for these paths, so the next load parses the entry's text again. Used when a
+     * fixer's change is not kept: the fixer may have changed a document without saving it.
+     */
+    invalidate(paths: string[]): void {
+        for (const filePath of paths) {
+            const cached = this.documents.get(filePath);
+            if (!cached) {
+                continue;
+            }
+            if (cached.source === null) {
+                // The owner's text is still an accessor reading the document; give it its text first
+                this.serialize(cached.owner);
+            }
+            this.documents.delete(filePath);
+        }
+    }
+
+    /**
+     * Serialize every document with unsaved changes, returning how many were written
+     */
+    flush(): number {
+        let written = 0;
+        for (const cached of Array.from(this.documents.values())) {
+            if (cached.source === null) {
+                this.serialize(cached.owner);
+                written++;
+            }
+        }
+        return written;
+    }
+
+    /**
+     * Serialize pending changes and drop every document
+     */
+    clear(): void {
+        this.flush();
+        this.documents.clear();
+    }
+
+    getStats(): { parsed: number; reused: number; serialized: number; documents: number } {
+        return { ...this.stats, documents: this.documents.size };
+    }
+
+    // Only called for the owner of a document with unsaved changes, the one entry whose text is an accessor
+    private serialize(content: EpubContent): string {
+        const cached = this.documents.get(content.path)!;
+        // A document a fixer parsed itself has no source to edit and is serialized in full
+        const minimal = this.preserveFormatting ? serializeMinimal(cached.$) : null;
+        const text = minimal !== null ? minimal : serializeDocument(cached.$, content);
+        cached.source = text;
+        this.stats.serialized++;
+        return this.setText(content, text);
+    }
+
+    private replace(content: EpubContent, value: string | Buffer): void {
+        const cached = this.documents.get(content.path);
+        if (cached && cached.owner === content && cached.source === null) {
+            this.logger.info(`Text of ${content.path} replaced while its document had unsaved changes, dropping the document`);
+            this.documents.delete(content.path);
+        }
+        this.setText(content, value);
+    }
+
+    private setText<T extends string | Buffer>(content: EpubContent, value: T): T {
+        // Replaces the accessor installed by markModified with a plain property
+        Object.defineProperty(content, 'content', { configurable: true, enumerable: true, writable: true, value });
+        return value;
+    }
+}
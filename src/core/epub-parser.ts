@@ -9,9 +9,21 @@ import {
     SpineItem,
     AccessibilityMetadata,
     EpubContent,
-    ProcessingContext
+    ProcessingContext,
+    Rendition,
+    ValidationIssue
 } from '../types';
 import { Logger, generateTempDir } from '../utils/common';
+import {
+    ArchiveBudget,
+    ArchiveLimits,
+    UnsafeArchiveError,
+    ZipReader,
+    checkEntryName,
+    resolveEntryPath
+} from '../utils/archive-safety';
+import { EpubPathResolver } from './path-resolver';
+import { describeRendition, findMappingPath, parseRenditionMapping, parseRootfiles, Rootfile } from './renditions';
 
 export class EpubParser {
     private logger: Logger;
@@ -20,7 +32,12 @@ export class EpubParser {
         this.logger = logger;
     }
 
-    async extractEpub(epubPath: string): Promise<ProcessingContext> {
+    /**
+     * Extract an EPUB into a temporary directory and parse its renditions. Entries whose names would be
+     * written outside the directory are skipped and reported as issues in context.archiveIssues; an archive
+     * over the size, entry count or compression ratio limits throws UnsafeArchiveError.
+     */
+    async extractEpub(epubPath: string, limits: Partial<ArchiveLimits> = {}): Promise<ProcessingContext> {
         this.logger.info(`Extracting EPUB: ${epubPath}`);
 
         const tempDir = generateTempDir();
@@ -29,27 +46,36 @@ export class EpubParser {
         try {
             // Read and extract EPUB file
             const epubBuffer = await fs.readFile(epubPath);
-            const zip = await JSZip.loadAsync(epubBuffer);
+            const zip = await ZipReader.open(epubBuffer, new ArchiveBudget(limits));
 
             // Extract all files
             const contents = new Map<string, EpubContent>();
+            const archiveIssues: ValidationIssue[] = [];
+
+            for (const entry of zip.entries) {
+                const problem = checkEntryName(entry.name);
+                if (problem) {
+                    this.logger.warn(`Skipping unsafe archive entry "${entry.name}": it ${problem}`);
+                    archiveIssues.push(this.createArchiveIssue(entry.name, problem));
+                    continue;
+                }
 
-            for (const [filePath, file] of Object.entries(zip.files)) {
-                if (!file.dir) {
+                if (!entry.dir) {
+                    const filePath = entry.name;
                     const mediaType = this.getMediaType(filePath);
-                    const fullPath = path.join(tempDir, filePath);
+                    const fullPath = resolveEntryPath(tempDir, filePath);
                     await fs.ensureDir(path.dirname(fullPath));
 
                     // Handle binary vs text files properly
+                    const buffer = await zip.read(entry);
                     let content: string | Buffer;
                     if (this.isBinaryFile(mediaType)) {
-                        // For binary files, get buffer and save as buffer
-                        const buffer = await file.async('nodebuffer');
+                        // For binary files, save the buffer as is
                         await fs.writeFile(fullPath, buffer);
                         content = buffer;
                     } else {
-                        // For text files, get as string
-                        content = await file.async('string');
+                        // For text files, decode as UTF-8
+                        content = buffer.toString('utf8');
                         await fs.writeFile(fullPath, content, 'utf8');
                     }
 
@@ -68,45 +94,96 @@ export class EpubParser {
                 throw new Error('Invalid EPUB: Missing META-INF/container.xml');
             }
 
-            const opfPath = await this.parseContainer(contents.get(containerPath)!.content as string);
+            const rootfiles = this.parseContainer(contents.get(containerPath)!.content as string);
+            const opfPath = rootfiles[0].fullPath;
             if (!contents.has(opfPath)) {
                 throw new Error(`Invalid EPUB: Missing OPF file at ${opfPath}`);
             }
 
-            // Parse OPF file for metadata and manifest
-            const opfContent = contents.get(opfPath)!.content as string;
-            const { metadata, manifest } = await this.parseOpf(opfContent);
+            // Parse each rendition's OPF file for metadata and manifest
+            const renditions: Rendition[] = [];
+            for (const [index, rootfile] of rootfiles.entries()) {
+                const opfContent = contents.get(rootfile.fullPath);
+                if (!opfContent) {
+                    this.logger.warn(`Skipping rendition ${index + 1}: missing OPF file at ${rootfile.fullPath}`);
+                    continue;
+                }
+                try {
+                    const { metadata, manifest } = await this.parseOpf(opfContent.content as string);
+                    renditions.push({
+                        id: rootfile.fullPath,
+                        index: renditions.length,
+                        label: describeRendition(rootfile.selection, renditions.length),
+                        packagePath: rootfile.fullPath,
+                        manifest,
+                        metadata,
+                        selection: rootfile.selection
+                    });
+                } catch (error) {
+                    // The default rendition has to parse; other renditions are only skipped
+                    if (index === 0) {
+                        throw error;
+                    }
+                    this.logger.warn(`Skipping rendition ${index + 1} (${rootfile.fullPath}): ${error}`);
+                }
+            }
 
             const context: ProcessingContext = {
                 epubPath,
                 tempDir,
-                manifest,
-                metadata,
+                manifest: renditions[0].manifest,
+                metadata: renditions[0].metadata,
                 contents,
+                packagePath: opfPath,
+                renditions,
+                archiveIssues,
                 issues: [],
                 fixes: [],
                 config: {} as any // Will be set by caller
             };
 
+            const mappingPath = findMappingPath(contents.get(containerPath)!.content as string);
+            if (mappingPath && renditions.length > 1) {
+                context.renditionMapping = parseRenditionMapping(context, mappingPath) || undefined;
+                if (!context.renditionMapping) {
+                    this.logger.warn(`Rendition mapping document not found: ${mappingPath}`);
+                }
+            }
+            if (renditions.length > 1) {
+                this.logger.info(`Found ${renditions.length} renditions: ${renditions.map(rendition => rendition.label).join(', ')}`);
+            }
+
             this.logger.success(`Successfully extracted EPUB to ${tempDir}`);
             return context;
 
         } catch (error) {
             await fs.remove(tempDir);
+            if (error instanceof UnsafeArchiveError) {
+                throw error;
+            }
             throw new Error(`Failed to extract EPUB: ${error}`);
         }
     }
 
-    private async parseContainer(containerXml: string): Promise<string> {
-        const parser = new xml2js.Parser();
-        const result = await parser.parseStringPromise(containerXml);
+    private createArchiveIssue(entryName: string, problem: string): ValidationIssue {
+        return {
+            type: 'error',
+            category: 'validation',
+            severity: 'critical',
+            code: 'unsafe-archive-entry',
+            message: `Archive entry "${entryName}" ${problem}, so it was not extracted`,
+            fixable: false,
+            details: 'The entry is left out of the fixed EPUB. Check where the file came from before using the original.'
+        };
+    }
 
-        const rootFiles = result.container?.rootfiles?.[0]?.rootfile;
-        if (!rootFiles || rootFiles.length === 0) {
+    private parseContainer(containerXml: string): Rootfile[] {
+        const rootfiles = parseRootfiles(containerXml);
+        if (rootfiles.length === 0) {
             throw new Error('Invalid container.xml: No rootfile found');
         }
 
-        return rootFiles[0].$['full-path'];
+        return rootfiles;
     }
 
     private async parseOpf(opfXml: string): Promise<{ metadata: EpubMetadata; manifest: EpubManifest }> {
@@ -295,10 +372,11 @@ export class EpubParser {
 
     async getContentFiles(context: ProcessingContext): Promise<EpubContent[]> {
         const contentFiles: EpubContent[] = [];
+        const paths = new EpubPathResolver(this.logger);
 
         for (const item of context.manifest.items) {
             if (item.mediaType === 'application/xhtml+xml' || item.mediaType === 'text/html') {
-                const content = context.contents.get(item.href);
+                const content = paths.findManifestContent(context, item.href);
                 if (content && typeof content.content === 'string') {
                     contentFiles.push(content);
                 }
@@ -310,6 +388,8 @@ export class EpubParser {
 
     async repackageEpub(context: ProcessingContext, outputPath: string): Promise<void> {
         this.logger.info(`Repackaging EPUB to ${outputPath}`);
+        // Write out documents the fixers changed but nothing has read since
+        context.documents?.flush();
 
         const zip = new JSZip();
 
@@ -1,16 +1,33 @@
 import * as path from 'path';
 import * as fs from 'fs-extra';
 
-import { AnalysisResult, ProcessingContext, FixerConfig, CliOptions, AccessibilityIssue } from '../types';
-import { Logger, cleanupTemp } from '../utils/common';
+import {
+    AnalysisResult, ProcessingContext, FixerConfig, CliOptions, AccessibilityIssue, ValidationIssue, IterationSummary, ToolProgress, ToolProgressListener
+} from '../types';
+import { Logger, cleanupTemp, sha256File } from '../utils/common';
 import { EpubParser } from './epub-parser';
 import { ExternalToolInstaller, ToolInfo } from './tool-installer';
-import { ValidationRunner } from '../validators/epub-validator';
-import { AccessibilityAnalyzer } from '../validators/accessibility-analyzer';
+import { ValidationRunner, EpubCheckResult } from '../validators/epub-validator';
+import { EpubCheckDaemon, EpubCheckRunner } from '../validators/epubcheck-daemon';
+import { AccessibilityAnalyzer, AccessibilityResult } from '../validators/accessibility-analyzer';
 import { IssueCategorizer } from './issue-categorizer';
 import { FixerOrchestrator } from './fixer-orchestrator';
+import { RoutingReport } from './issue-routing';
+import { DocumentCache } from './document-cache';
+import { CachedTool, ResultCache, ResultCacheKey, hashCheckConfig } from './result-cache';
+import { SourceLocator } from './source-locator';
+import { EpubPathResolver, PathOrigin } from './path-resolver';
+import { attributeIssues, renditionContext, summarizeRenditions } from './renditions';
 import { HtmlReportGenerator } from '../reporters/html-reporter';
+import { ReportWriter } from '../reporters/report-writer';
+import { BaselineManager, BaselineFile } from './baseline';
+import { PatchGenerator } from '../reporters/patch-generator';
+import { TerminalFixReviewer } from './fix-reviewer';
+import { PluginLoader, LoadedPlugin } from './plugin-loader';
 import { EpubVersionDetector } from '../utils/epub-version-detector';
+import { CfiLocation, EpubCfi } from '../utils/epub-cfi';
+import { getLineIndex, locateNode, parseWithPositions } from '../utils/source-locations';
+import { ToolCancelled, ToolError, ToolName, getToolTimeout } from '../utils/process-runner';
 
 export class EpubAccessibilityProcessor {
     private logger: Logger;
@@ -21,11 +38,21 @@ export class EpubAccessibilityProcessor {
     private issueCategorizer: IssueCategorizer;
     private fixerOrchestrator: FixerOrchestrator;
     private reportGenerator: HtmlReportGenerator;
+    private reportWriter: ReportWriter;
+    private baselineManager: BaselineManager;
+    private patchGenerator: PatchGenerator;
     private versionDetector: EpubVersionDetector;
+    private pluginLoader: PluginLoader;
+    private sourceLocator: SourceLocator;
+    private pathResolver: EpubPathResolver;
+    private plugins: LoadedPlugin[] = [];
 
     private toolsInitialized = false;
     private epubCheckTool?: ToolInfo;
     private daisyAceTool?: ToolInfo;
+    private epubCheckRunner?: EpubCheckRunner; // Set when checks don't run one JVM each
+    private ownDaemon?: EpubCheckDaemon; // Started by processEpub for --epubcheck-daemon
+    private toolProgressListener: ToolProgressListener | null = null;
 
     constructor(logger: Logger) {
         this.logger = logger;
@@ -36,7 +63,13 @@ export class EpubAccessibilityProcessor {
         this.issueCategorizer = new IssueCategorizer(logger);
         this.fixerOrchestrator = new FixerOrchestrator(logger);
         this.reportGenerator = new HtmlReportGenerator(logger);
+        this.reportWriter = new ReportWriter(logger);
+        this.baselineManager = new BaselineManager(logger);
+        this.patchGenerator = new PatchGenerator(logger);
         this.versionDetector = new EpubVersionDetector(logger);
+        this.pluginLoader = new PluginLoader(logger);
+        this.sourceLocator = new SourceLocator(logger);
+        this.pathResolver = new EpubPathResolver(logger);
     }
 
     async initializeTools(): Promise<void> {
@@ -79,12 +112,57 @@ export class EpubAccessibilityProcessor {
         this.logger.success('External tools initialized successfully');
     }
 
-    async processEpub(options: CliOptions, config: FixerConfig): Promise<AnalysisResult> {
+    /**
+     * Long-lived EpubCheck processes for the installed EpubCheck, or null if EpubCheck isn't installed.
+     * jvms is the number of checks they run side by side, one per JVM.
+     */
+    async createEpubCheckDaemon(jvms: number = 1): Promise<EpubCheckDaemon | null> {
+        await this.initializeTools();
+        return this.epubCheckTool?.installed && this.epubCheckTool.path ?
+            new EpubCheckDaemon(this.logger, this.epubCheckTool.path, jvms) : null;
+    }
+
+    /**
+     * Send EpubCheck runs to this runner, such as a daemon shared by batch workers
+     */
+    useEpubCheckRunner(runner: EpubCheckRunner): void {
+        this.epubCheckRunner = runner;
+        this.validationRunner.useEpubCheckRunner(runner);
+    }
+
+    /**
+     * Stop the EpubCheck daemon processEpub started for --epubcheck-daemon, if any.
+     * A runner passed to useEpubCheckRunner is left to whoever created it.
+     */
+    async stopEpubCheckDaemon(): Promise<void> {
+        const daemon = this.ownDaemon;
+        if (!daemon) {
+            return;
+        }
+        this.ownDaemon = undefined;
+        this.epubCheckRunner = undefined;
+        this.validationRunner.useEpubCheckRunner(null);
+        await daemon.stop();
+    }
+
+    /**
+     * Called whenever EpubCheck or the accessibility check starts or finishes, with the state of both
+     */
+    setToolProgressListener(listener: ToolProgressListener | null): void {
+        this.toolProgressListener = listener;
+    }
+
+    /**
+     * Check, fix and report on an EPUB. Aborting the signal stops any external tool that is running,
+     * and processing rejects with a ToolCancelled error.
+     */
+    async processEpub(options: CliOptions, config: FixerConfig, signal?: AbortSignal): Promise<AnalysisResult> {
         const startTime = new Date();
         this.logger.info(`Processing EPUB: ${options.input}`);
+        this.loadPlugins(config);
 
         // Check EPUB version first - reject EPUB 2.0
-        const versionInfo = await this.versionDetector.detectVersion(options.input);
+        const versionInfo = await this.versionDetector.detectVersion(options.input, config.archiveLimits);
         if (versionInfo.isEpub2) {
             throw new Error(
                 `EPUB 2.0 detected. This tool only supports EPUB 3.0+ validation and fixing. ` +
@@ -95,52 +173,68 @@ export class EpubAccessibilityProcessor {
         this.logger.info(`EPUB version ${versionInfo.version} confirmed - proceeding with processing`);
 
         let context: ProcessingContext | null = null;
+        let iterations: IterationSummary[] | undefined;
 
         try {
             // Ensure tools are initialized
             await this.initializeTools();
+            if ((options.epubcheckDaemon || config.epubcheckDaemon) && !this.epubCheckRunner) {
+                // Kept for later calls on this processor until stopEpubCheckDaemon; re-checks in --iterate and --verify reuse it
+                const daemon = await this.createEpubCheckDaemon();
+                if (daemon) {
+                    this.useEpubCheckRunner(daemon);
+                    this.ownDaemon = daemon;
+                }
+            }
 
             // Extract and parse EPUB
             this.logger.info('Extracting EPUB...');
-            context = await this.epubParser.extractEpub(options.input);
+            context = await this.epubParser.extractEpub(options.input, config.archiveLimits);
             context.config = config;
             context.options = options;
+            context.signal = signal;
 
-            // Run validation if not skipped
-            let validationResult: any = null;
-            if (!options.skipValidation) {
-                this.logger.info('Running EPUB validation...');
-                validationResult = await this.validationRunner.validateEpub(context.epubPath, options.keepOutput || false);
-                context.issues.push(...validationResult.issues);
-            }
+            const baseline = options.baseline ? await this.baselineManager.loadBaseline(options.baseline) : null;
 
-            // Run accessibility analysis if not skipped
-            let accessibilityResult: any = null;
-            if (!options.skipAccessibility) {
-                if (this.daisyAceTool?.installed) {
-                    this.logger.info('Running accessibility analysis with DAISY ACE...');
-                    accessibilityResult = await this.accessibilityAnalyzer.analyzeAccessibility(context.epubPath, options.keepOutput || false);
-                    this.logger.info(`DAISY ACE returned ${accessibilityResult.issues.length} issues`);
-                    context.issues.push(...accessibilityResult.issues);
-                    this.logger.info(`Total issues in context after adding accessibility: ${context.issues.length}`);
-                } else {
-                    this.logger.info('Running quick accessibility check...');
-                    const quickIssues = await this.accessibilityAnalyzer.performQuickAccessibilityCheck(context);
-                    context.issues.push(...quickIssues);
-                }
-            }
+            // Run validation and accessibility analysis
+            const { validationResult, accessibilityResult, issues } =
+                await this.collectIssues(context.epubPath, context, options, baseline);
+            context.issues.push(...issues);
 
             // Categorize issues
             this.logger.info('Categorizing issues...');
             this.logger.info(`Issues before categorization: ${context.issues.length}`);
             this.logger.info(`  - Accessibility: ${context.issues.filter(i => i.category === 'accessibility').length}`);
             this.logger.info(`  - Validation: ${context.issues.filter(i => i.category === 'validation').length}`);
-            const categorizedIssues = this.issueCategorizer.categorizeIssues(context.issues);
+            const categorizedIssues = this.issueCategorizer.categorizeIssues(context.issues.filter(i => !i.suppressed));
 
             // Apply fixes if not in analyze-only mode
             if (!options.analyze && !options.dryRun) {
                 this.logger.info('Applying fixes...');
-                const fixResults = await this.fixerOrchestrator.fixAllIssues(context);
+                const reviewer = options.interactive ? new TerminalFixReviewer(this.logger) : null;
+                this.fixerOrchestrator.setReviewer(reviewer);
+                context.documents = new DocumentCache(this.logger, {
+                    preserveFormatting: options.preserveFormatting || config.preserveFormatting
+                });
+                try {
+                    await this.fixerOrchestrator.fixAllIssues(context);
+                    this.markFixedInIteration(context, 1);
+
+                    if (options.iterate) {
+                        iterations = await this.runFixIterations(context, options, baseline);
+                    }
+                } finally {
+                    this.fixerOrchestrator.setReviewer(null);
+                    reviewer?.close();
+                }
+
+                const documentStats = context.documents.getStats();
+                this.logger.info(`Documents: ${documentStats.parsed} parsed, ${documentStats.reused} reused, ${documentStats.serialized} serialized`);
+
+                if (reviewer) {
+                    const stats = reviewer.getStats();
+                    this.logger.info(`Review: ${stats.accepted} changes accepted (${stats.edited} edited), ${stats.rejected} rejected`);
+                }
 
                 // Validate fixes
                 const validation = await this.fixerOrchestrator.validateFixes(context);
@@ -148,6 +242,11 @@ export class EpubAccessibilityProcessor {
                     this.logger.error(`Fix validation errors: ${validation.errors.join(', ')}`);
                 }
 
+                if (options.diff) {
+                    this.logger.info('Writing patch of content changes...');
+                    await this.patchGenerator.generatePatch(context, options.diff);
+                }
+
                 // Create output EPUB
                 if (options.output) {
                     this.logger.info('Creating fixed EPUB...');
@@ -171,33 +270,43 @@ export class EpubAccessibilityProcessor {
                 );
             }
 
-            // Create analysis result
+            // Create analysis result (issues suppressed by the baseline are reported separately)
+            const activeIssues = context.issues.filter(i => !i.suppressed);
             const result: AnalysisResult = {
                 epub: {
                     path: options.input,
                     title: context.metadata.title,
                     metadata: context.metadata,
-                    structure: context.manifest
+                    structure: context.manifest,
+                    renditions: summarizeRenditions(context, activeIssues)
                 },
                 validation: {
-                    valid: !context.issues.some(i => i.category === 'validation' && i.type === 'error'),
-                    issues: context.issues.filter(i => i.category === 'validation')
+                    valid: !activeIssues.some(i => i.category === 'validation' && i.type === 'error'),
+                    issues: activeIssues.filter(i => i.category === 'validation')
                 },
                 accessibility: {
-                    issues: context.issues.filter(i => i.category === 'accessibility') as AccessibilityIssue[],
-                    score: this.calculateAccessibilityScore(context.issues.filter(i => i.category === 'accessibility'))
+                    issues: activeIssues.filter(i => i.category === 'accessibility') as AccessibilityIssue[],
+                    score: this.calculateAccessibilityScore(activeIssues.filter(i => i.category === 'accessibility'))
                 },
                 summary: {
-                    totalIssues: context.issues.length,
-                    criticalIssues: context.issues.filter(i => i.severity === 'critical').length,
+                    totalIssues: activeIssues.length,
+                    criticalIssues: activeIssues.filter(i => i.severity === 'critical').length,
                     // Calculate fixable issues as the maximum of initially fixable or actually fixed
                     // This accounts for fixes that resolve issues not initially marked as fixable
                     fixableIssues: Math.max(
-                        context.issues.filter(i => i.fixable).length,
-                        context.issues.filter(i => i.fixed === true).length
+                        activeIssues.filter(i => i.fixable).length,
+                        activeIssues.filter(i => i.fixed === true).length
                     ),
-                    fixedIssues: context.issues.filter(i => i.fixed === true).length
+                    fixedIssues: activeIssues.filter(i => i.fixed === true).length,
+                    remainingIssues: {
+                        critical: activeIssues.filter(i => !i.fixed && i.severity === 'critical').length,
+                        major: activeIssues.filter(i => !i.fixed && i.severity === 'major').length,
+                        minor: activeIssues.filter(i => !i.fixed && i.severity === 'minor').length
+                    },
+                    remainingValidationErrors: activeIssues.filter(i => i.category === 'validation' && i.type === 'error' && !i.fixed).length
                 },
+                suppressedIssues: context.issues.filter(i => i.suppressed),
+                iterations,
                 outputFiles: options.keepOutput ? {
                     epubCheck: validationResult?.outputFile,
                     epubCheckText: validationResult?.outputTextFile, // Add text file output
@@ -205,6 +314,17 @@ export class EpubAccessibilityProcessor {
                 } : undefined
             };
 
+            if (options.formats && options.formats.length > 0) {
+                const reportBase = options.reportPath ?
+                    options.reportPath.replace(/\.html?$/i, '') :
+                    options.input.replace(/\.epub$/i, '') + '_report';
+                result.reports = await this.reportWriter.writeReports(
+                    options.formats,
+                    { result, categorizedIssues, fixes: context.fixes, startTime },
+                    reportBase
+                );
+            }
+
             const duration = Date.now() - startTime.getTime();
             this.logger.success(`Processing completed in ${Math.round(duration / 1000)}s`);
 
@@ -221,6 +341,335 @@ export class EpubAccessibilityProcessor {
         }
     }
 
+    /**
+     * Run EpubCheck and DAISY ACE (or the built-in rules) against an EPUB file. The two checks run side by side;
+     * a check that fails becomes an issue without affecting the other. Issues are merged in a fixed order
+     * (extraction, validation, accessibility), whichever check finishes first.
+     * The built-in rules work on the context contents, which always mirror the file being checked.
+     */
+    private async collectIssues(
+        epubPath: string,
+        context: ProcessingContext,
+        options: CliOptions,
+        baseline: BaselineFile | null = null
+    ): Promise<{ validationResult: EpubCheckResult | null; accessibilityResult: AccessibilityResult | null; issues: ValidationIssue[] }> {
+        // Entries skipped at extraction are only in the original EPUB, not in repackaged ones
+        const issues: ValidationIssue[] = epubPath === context.epubPath ? [...(context.archiveIssues || [])] : [];
+        // Hashed once for both tools' cache entries, and only if a tool is about to run
+        let epubHashPromise: Promise<string> | null = null;
+        const epubHash = () => epubHashPromise || (epubHashPromise = sha256File(epubPath));
+
+        const progress = new CheckProgress(this.toolProgressListener);
+        const runValidation = !options.skipValidation && this.epubCheckTool?.installed;
+        if (runValidation) {
+            progress.add('validation', 'EpubCheck');
+        }
+        if (!options.skipAccessibility) {
+            progress.add('accessibility', this.daisyAceTool?.installed ? 'DAISY ACE' : 'Built-in rules');
+        }
+
+        // Both settle before anything is rethrown, so a cancelled check doesn't leave the other running unobserved
+        const [validation, accessibility] = await Promise.all([
+            settle(runValidation ? this.runValidationCheck(epubPath, context, options, epubHash, progress) : null),
+            settle(!options.skipAccessibility ? this.runAccessibilityCheck(epubPath, context, options, epubHash, progress) : null)
+        ]);
+        const failure = [validation, accessibility].find(outcome => outcome.failed);
+        if (failure) {
+            throw failure.error;
+        }
+
+        const validationResult = validation.value?.result || null;
+        const accessibilityResult = accessibility.value?.result || null;
+        issues.push(...(validation.value?.issues || []), ...(accessibility.value?.issues || []));
+
+        // The issues were found in the current contents; the xpaths are part of baseline fingerprints
+        attributeIssues(issues, context);
+        this.sourceLocator.locateIssues(issues, context);
+
+        if (baseline) {
+            this.baselineManager.applyBaseline(issues, baseline);
+        }
+
+        this.logger.info(`Collected ${issues.length} issues from ${epubPath}`);
+        return { validationResult, accessibilityResult, issues };
+    }
+
+    private async runValidationCheck(
+        epubPath: string,
+        context: ProcessingContext,
+        options: CliOptions,
+        epubHash: () => Promise<string>,
+        progress: CheckProgress
+    ): Promise<{ result: EpubCheckResult | null; issues: ValidationIssue[] }> {
+        this.logger.info('Running EPUB validation...');
+        progress.update('validation', 'running');
+        try {
+            const { result, cached } = await this.runCached('epubcheck', this.epubCheckTool, epubHash, context, options,
+                () => this.validationRunner.validateEpub(epubPath, options.keepOutput || false, this.toolCallOptions(context, 'epubcheck')));
+            this.normalizeIssuePaths(result.issues, context, 'epubcheck');
+            progress.update('validation', cached ? 'cached' : 'done', result.issues.length);
+            return { result, issues: result.issues };
+        } catch (error) {
+            progress.update('validation', 'failed');
+            return { result: null, issues: [this.toolFailureIssue(error, 'validation', 'EpubCheck')] };
+        }
+    }
+
+    private async runAccessibilityCheck(
+        epubPath: string,
+        context: ProcessingContext,
+        options: CliOptions,
+        epubHash: () => Promise<string>,
+        progress: CheckProgress
+    ): Promise<{ result: AccessibilityResult | null; issues: ValidationIssue[] }> {
+        const issues: ValidationIssue[] = [];
+        let result: AccessibilityResult | null = null;
+        let cached = false;
+        let failed = false;
+        progress.update('accessibility', 'running');
+
+        try {
+            if (this.daisyAceTool?.installed) {
+                this.logger.info('Running accessibility analysis with DAISY ACE...');
+                try {
+                    ({ result, cached } = await this.runCached('ace', this.daisyAceTool, epubHash, context, options,
+                        () => this.accessibilityAnalyzer.analyzeAccessibility(epubPath, options.keepOutput || false, this.toolCallOptions(context, 'ace'))));
+                } catch (error) {
+                    failed = true;
+                    issues.push(this.toolFailureIssue(error, 'accessibility', 'DAISY ACE'));
+                }
+            }
+            if (result) {
+                this.logger.info(`DAISY ACE returned ${result.issues.length} issues`);
+                this.normalizeIssuePaths(result.issues, context, 'ace');
+                issues.push(...result.issues);
+                // ACE only checks the default rendition
+                for (const rendition of (context.renditions || []).slice(1)) {
+                    this.logger.info(`Running built-in accessibility rules on ${rendition.label}...`);
+                    issues.push(...await this.accessibilityAnalyzer.performQuickAccessibilityCheck(renditionContext(context, rendition)));
+                }
+            } else {
+                this.logger.info(`DAISY ACE not ${this.daisyAceTool?.installed ? 'usable' : 'available'} - running built-in accessibility rules...`);
+                const quickIssues = await this.accessibilityAnalyzer.performQuickAccessibilityCheck(context);
+                issues.push(...quickIssues);
+            }
+            issues.push(...this.accessibilityAnalyzer.runPluginRules(context));
+        } catch (error) {
+            failed = true;
+            issues.push(this.toolFailureIssue(error, 'accessibility', result || !this.daisyAceTool?.installed ? 'Accessibility rules' : 'DAISY ACE'));
+        } finally {
+            progress.update('accessibility', failed ? 'failed' : cached ? 'cached' : 'done', issues.length);
+        }
+
+        return { result, issues };
+    }
+
+    /**
+     * A tool's result from the result cache, or from running the tool and caching what it returns.
+     * Tool errors are not cached. --keep-output always runs the tools, since it asks for their output files.
+     */
+    private async runCached<T>(
+        tool: CachedTool,
+        toolInfo: ToolInfo,
+        epubHash: () => Promise<string>,
+        context: ProcessingContext,
+        options: CliOptions,
+        run: () => Promise<T>
+    ): Promise<{ result: T; cached: boolean }> {
+        if (options.noCache) {
+            return { result: await run(), cached: false };
+        }
+
+        const cache = new ResultCache(this.logger, context.config?.cacheDir);
+        const key: ResultCacheKey = {
+            epubHash: await epubHash(),
+            tool,
+            toolVersion: `${toolInfo.version} ${toolInfo.path}`,
+            configHash: hashCheckConfig(context.config)
+        };
+
+        if (!options.keepOutput) {
+            const cached = await cache.get<T>(key);
+            if (cached) {
+                this.logger.info(`Using cached ${tool === 'ace' ? 'DAISY ACE' : 'EpubCheck'} result from ${cache.getDir()}`);
+                return { result: cached, cached: true };
+            }
+        }
+
+        const result = await run();
+        await cache.set(key, result);
+        return { result, cached: false };
+    }
+
+    private toolCallOptions(context: ProcessingContext, tool: ToolName): { timeout: number; signal?: AbortSignal } {
+        return { timeout: getToolTimeout(tool, context.config?.toolTimeouts), signal: context.signal };
+    }
+
+    /**
+     * A check that failed is reported as an issue, so the rest of the run goes ahead and the report
+     * shows which checks are missing: an external tool that timed out, crashed or couldn't be started,
+     * or any other error while running it or reading its results. Cancellation is rethrown.
+     */
+    private toolFailureIssue(error: unknown, category: 'validation' | 'accessibility', tool: string): ValidationIssue {
+        if (error instanceof ToolCancelled) {
+            throw error;
+        }
+
+        if (!(error instanceof ToolError)) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger.error(`${tool} failed: ${message}`);
+            return {
+                type: 'error',
+                category,
+                severity: 'critical',
+                code: 'tool-error',
+                message: `${tool} failed: ${message}; its checks are missing from this report`,
+                fixable: false,
+                details: error instanceof Error && error.stack ? error.stack.split('\n').slice(0, 5).join('\n') : undefined
+            };
+        }
+
+        this.logger.error(error.message);
+        const output = (error.stderr || error.stdout).trim();
+        return {
+            type: 'error',
+            category,
+            severity: 'critical',
+            code: `tool-${error.kind}`,
+            message: `${error.message}; its checks are missing from this report`,
+            fixable: false,
+            details: output ? output.split('\n').slice(-5).join('\n') : undefined
+        };
+    }
+
+    // EpubCheck and ACE report paths from different bases; fixers and reports expect context.contents keys
+    private normalizeIssuePaths(issues: ValidationIssue[], context: ProcessingContext, origin: PathOrigin): void {
+        const ambiguous = this.pathResolver.normalizeIssuePaths(issues, context, origin);
+        if (ambiguous.length > 0) {
+            this.logger.warn(`${ambiguous.length} ${origin === 'ace' ? 'ACE' : 'EpubCheck'} issue paths match more than one file and were left as reported`);
+        }
+    }
+
+    /**
+     * Repackage the fixed content, re-run the checks and feed newly found issues back
+     * into the fixers until the issue count stops falling or maxIterations is reached.
+     */
+    private async runFixIterations(
+        context: ProcessingContext,
+        options: CliOptions,
+        baseline: BaselineFile | null
+    ): Promise<IterationSummary[]> {
+        const maxIterations = Math.max(1, options.maxIterations || 3);
+        const summaries: IterationSummary[] = [];
+        let previousCount = context.issues.length;
+
+        for (let iteration = 1; ; iteration++) {
+            if (iteration > 1) {
+                this.logger.info(`Applying fixes (iteration ${iteration})...`);
+                await this.fixerOrchestrator.fixAllIssues(context);
+                this.markFixedInIteration(context, iteration);
+            }
+
+            const verifyPath = path.join(context.tempDir, `iteration-${iteration}.epub`);
+            await this.epubParser.repackageEpub(context, verifyPath);
+
+            this.logger.info(`Re-verifying fixes from iteration ${iteration}...`);
+            // Not cached: the intermediate EPUB is deleted, and is never checked again
+            const { issues: found } = await this.collectIssues(verifyPath, context, { ...options, keepOutput: false, noCache: true }, baseline);
+            await fs.remove(verifyPath);
+
+            const summary = this.reconcileIssues(context, found, iteration);
+            summaries.push(summary);
+            this.logger.info(
+                `Iteration ${iteration}: ${summary.issuesFound} issues remain ` +
+                `(${summary.newIssues} new, ${summary.reopenedIssues} reopened)`
+            );
+
+            if (found.length >= previousCount) {
+                this.logger.info(`Issue count stopped falling (${previousCount} -> ${found.length}), stopping`);
+                break;
+            }
+            if (iteration >= maxIterations) {
+                this.logger.info(`Reached maximum of ${maxIterations} iterations`);
+                break;
+            }
+            if (!context.issues.some(issue => issue.fixable && !issue.fixed)) {
+                this.logger.info('No fixable issues remain, stopping');
+                break;
+            }
+
+            previousCount = found.length;
+        }
+
+        return summaries;
+    }
+
+    /**
+     * Merge the issues found by a re-verification pass into context.issues:
+     * fixed issues that are still reported are reopened, issues no longer reported
+     * count as fixed by the iteration just verified, and unseen issues are added as new.
+     */
+    private reconcileIssues(context: ProcessingContext, found: ValidationIssue[], iteration: number): IterationSummary {
+        const issueKey = (issue: ValidationIssue) => `${issue.code}|${issue.location?.file || ''}|${issue.message}`;
+        const remaining = new Map<string, number>();
+        for (const issue of found) {
+            remaining.set(issueKey(issue), (remaining.get(issueKey(issue)) || 0) + 1);
+        }
+
+        // Entries skipped at extraction are never in the repackaged EPUBs, so their absence there doesn't mean they were fixed
+        const archiveIssues = new Set(context.archiveIssues || []);
+
+        let reopenedIssues = 0;
+        for (const issue of context.issues) {
+            if (archiveIssues.has(issue)) {
+                continue;
+            }
+            const key = issueKey(issue);
+            const count = remaining.get(key) || 0;
+            if (count > 0) {
+                remaining.set(key, count - 1);
+                if (issue.fixed) {
+                    issue.fixed = false;
+                    issue.details = `Reported again after the fixes from iteration ${issue.fixedInIteration || iteration} were verified.`;
+                    issue.fixedInIteration = undefined;
+                    reopenedIssues++;
+                }
+            } else if (!issue.fixed) {
+                issue.fixed = true;
+                issue.fixedInIteration = iteration;
+            }
+        }
+
+        let newIssues = 0;
+        for (const issue of found) {
+            const key = issueKey(issue);
+            const count = remaining.get(key) || 0;
+            if (count > 0) {
+                remaining.set(key, count - 1);
+                issue.introducedInIteration = iteration;
+                issue.details = issue.details || `First reported after the fixes from iteration ${iteration}.`;
+                context.issues.push(issue);
+                newIssues++;
+            }
+        }
+
+        return {
+            iteration,
+            issuesFound: found.length,
+            issuesFixed: context.issues.filter(i => i.fixedInIteration === iteration).length,
+            newIssues,
+            reopenedIssues
+        };
+    }
+
+    private markFixedInIteration(context: ProcessingContext, iteration: number): void {
+        for (const issue of context.issues) {
+            if (issue.fixed && issue.fixedInIteration === undefined) {
+                issue.fixedInIteration = iteration;
+            }
+        }
+    }
+
     private calculateAccessibilityScore(accessibilityIssues: any[]): number | undefined {
         // Filter out fixed issues
         const unfixedIssues = accessibilityIssues.filter(issue => !issue.fixed);
@@ -286,6 +735,76 @@ export class EpubAccessibilityProcessor {
         };
     }
 
+    /**
+     * Find the element an EPUB CFI points to. Returns null if the CFI doesn't resolve in this EPUB.
+     */
+    async locateCfi(epubPath: string, cfi: string): Promise<CfiLocation | null> {
+        const context = await this.epubParser.extractEpub(epubPath);
+
+        try {
+            const generator = EpubCfi.forContext(context);
+            const target = generator?.resolve(cfi, filePath => {
+                const content = context.contents.get(filePath);
+                return content && typeof content.content === 'string' ? parseWithPositions(content.content) : null;
+            });
+            if (!generator || !target) {
+                return null;
+            }
+
+            const source = target.node ? locateNode(target.node) : null;
+            const text = target.node ? getLineIndex(target.node)?.text : undefined;
+            const startTag = source && text ? text.substring(source.offset).match(/^<(?:"[^"]*"|'[^']*'|[^'">])*>/)?.[0] : undefined;
+            return {
+                cfi: generator.generate(target.filePath, target.node || undefined) || cfi,
+                filePath: target.filePath,
+                spineIndex: target.spineIndex,
+                offset: target.offset,
+                startTag,
+                source: source || undefined
+            };
+        } finally {
+            await cleanupTemp(context.tempDir);
+        }
+    }
+
+    /**
+     * Load the plugins listed in the configuration and register their fixers and rules.
+     * Plugins already loaded are skipped. A plugin that fails to load is logged and left out.
+     */
+    loadPlugins(config: FixerConfig): LoadedPlugin[] {
+        for (const source of config.plugins || []) {
+            if (this.plugins.some(plugin => plugin.source === source)) {
+                continue;
+            }
+
+            const plugin = this.pluginLoader.load(source);
+            for (const registration of plugin.fixers) {
+                try {
+                    this.fixerOrchestrator.registerFixer(registration.instance, registration, plugin.name);
+                } catch (error) {
+                    plugin.error = `${error instanceof Error ? error.message : error}`;
+                    this.logger.warn(`Plugin ${plugin.name}: ${plugin.error}`);
+                }
+            }
+            plugin.rules.forEach(rule => this.accessibilityAnalyzer.addPluginRule(rule));
+            this.plugins.push(plugin);
+        }
+
+        return [...this.plugins];
+    }
+
+    getFixerScheduleProblems(): string[] {
+        return this.fixerOrchestrator.getScheduleProblems();
+    }
+
+    getRouting(): RoutingReport {
+        return this.fixerOrchestrator.getRouting();
+    }
+
+    getPluginFixerIds(): { [plugin: string]: string[] } {
+        return this.fixerOrchestrator.getPluginFixerIds();
+    }
+
     getToolStatus(): { epubcheck: boolean; daisyAce: boolean } {
         return {
             epubcheck: this.epubCheckTool?.installed || false,
@@ -297,7 +816,51 @@ export class EpubAccessibilityProcessor {
         return this.fixerOrchestrator.getAvailableFixers();
     }
 
+    getReportFormats(): string[] {
+        return this.reportWriter.getFormats();
+    }
+
+    getFixerIds(): string[] {
+        return this.fixerOrchestrator.getFixerIds();
+    }
+
     getSupportedIssueCodes(): string[] {
         return this.fixerOrchestrator.getHandledCodes();
     }
-}
\ No newline at end of file
+}
+
+// Tracks the checks of one collectIssues call and tells the listener about every change
+class CheckProgress {
+    private listener: ToolProgressListener | null;
+    private checks: ToolProgress[] = [];
+
+    constructor(listener: ToolProgressListener | null) {
+        this.listener = listener;
+    }
+
+    add(check: ToolProgress['check'], label: string): void {
+        this.checks.push({ check, label, state: 'waiting' });
+    }
+
+    update(check: ToolProgress['check'], state: ToolProgress['state'], issues?: number): void {
+        const progress = this.checks.find(item => item.check === check);
+        if (!progress) {
+            return;
+        }
+        progress.state = state;
+        if (state === 'running') {
+            progress.startedAt = Date.now();
+        } else {
+            progress.duration = Date.now() - (progress.startedAt || Date.now());
+            progress.issues = issues;
+        }
+        this.listener?.(this.checks.map(item => ({ ...item })));
+    }
+}
+
+// A promise's value or error, without rejecting
+function settle<T>(promise: Promise<T> | null): Promise<{ value: T | null; failed: boolean; error?: unknown }> {
+    return promise ?
+        promise.then(value => ({ value, failed: false }), error => ({ value: null, failed: true, error })) :
+        Promise.resolve({ value: null, failed: false });
+}
@@ -0,0 +1,307 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+import { spawnSync } from 'child_process';
+import chalk from 'chalk';
+import { ContentChange, ProposedFix } from '../types';
+import { Logger } from '../utils/common';
+import { buildHunks, diffLines, splitLines } from '../utils/text-diff';
+
+export type ReviewDecision = 'accept' | 'reject';
+
+/**
+ * Decides whether a computed change is committed. Set on the FixerOrchestrator with setReviewer.
+ */
+export interface FixReviewer {
+    review(proposal: ProposedFix): Promise<ReviewDecision>;
+}
+
+const EDITOR_EXTENSIONS = ['.xhtml', '.html', '.opf', '.ncx', '.css', '.xml', '.svg'];
+
+// Extension for the temporary file of an edited change: the content file's, if it is a known one
+function editorExtension(filePath: string): string {
+    const extension = path.extname(filePath).toLowerCase();
+    return EDITOR_EXTENSIONS.includes(extension) ? extension : '.txt';
+}
+
+/**
+ * Split a command line such as $EDITOR into the program and its arguments. Whitespace separates
+ * words; single and double quotes group them and backslashes escape the next character.
+ */
+export function splitCommand(command: string): string[] {
+    const words: string[] = [];
+    let word = '';
+    let inWord = false;
+    let quote: '"' | "'" | null = null;
+
+    for (let index = 0; index < command.length; index++) {
+        const char = command[index];
+        if (quote) {
+            if (char === quote) {
+                quote = null;
+            } else if (char === '\\' && quote === '"' && index + 1 < command.length) {
+                word += command[++index];
+            } else {
+                word += char;
+            }
+        } else if (char === '"' || char === "'") {
+            quote = char;
+            inWord = true;
+        } else if (char === '\\' && index + 1 < command.length) {
+            word += command[++index];
+            inWord = true;
+        } else if (/\s/.test(char)) {
+            if (inWord) {
+                words.push(word);
+                word = '';
+                inWord = false;
+            }
+        } else {
+            word += char;
+            inWord = true;
+        }
+    }
+    if (inWord) {
+        words.push(word);
+    }
+    return words;
+}
+
+// Limits for the before/after snippets so large rewrites don't flood the terminal
+const MAX_HUNKS_SHOWN = 5;
+const MAX_LINE_LENGTH = 200;
+
+/**
+ * Shows each proposed change in the terminal and asks whether to accept it,
+ * reject it, edit it first, or accept every change for the same rule.
+ */
+export class TerminalFixReviewer implements FixReviewer {
+    private logger: Logger;
+    private acceptedRules: Set<string> = new Set();
+    private stats = { accepted: 0, rejected: 0, edited: 0 };
+    private inputClosed = false;
+    private rl: readline.Interface | null = null;
+    private pendingLines: string[] = [];
+    private waiting: ((answer: string | null) => void) | null = null;
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+    }
+
+    async review(proposal: ProposedFix): Promise<ReviewDecision> {
+        if (this.acceptedRules.has(proposal.issue.code)) {
+            this.stats.accepted++;
+            return 'accept';
+        }
+
+        this.showProposal(proposal);
+
+        for (;;) {
+            const answer = await this.ask(`Apply this change? [${chalk.bold('a')}]ccept, [${chalk.bold('r')}]eject, [${chalk.bold('e')}]dit, [${chalk.bold('A')}]ccept all for ${proposal.issue.code}: `);
+
+            // Without a terminal to answer from, nothing else gets applied
+            if (answer === null) {
+                this.logger.warn('Input closed, rejecting the remaining changes');
+                this.stats.rejected++;
+                return 'reject';
+            }
+
+            switch (answer.trim()) {
+                case 'a':
+                case 'accept':
+                    this.stats.accepted++;
+                    return 'accept';
+                case 'r':
+                case 'reject':
+                    this.stats.rejected++;
+                    return 'reject';
+                case 'A':
+                case 'all':
+                    this.acceptedRules.add(proposal.issue.code);
+                    this.stats.accepted++;
+                    return 'accept';
+                case 'e':
+                case 'edit':
+                    if (await this.editChanges(proposal)) {
+                        this.stats.edited++;
+                        this.stats.accepted++;
+                        return 'accept';
+                    }
+                    break;
+                default:
+                    console.log('Please answer a, r, e or A.');
+            }
+        }
+    }
+
+    getStats(): { accepted: number; rejected: number; edited: number } {
+        return { ...this.stats };
+    }
+
+    private showProposal(proposal: ProposedFix): void {
+        const issue = proposal.issue;
+        console.log('');
+        console.log(chalk.bold(`${proposal.fixerName} → ${issue.code}`));
+        console.log(`  ${issue.message}`);
+        if (issue.location?.file) {
+            console.log(chalk.gray(`  ${issue.location.file}${issue.location.line ? `:${issue.location.line}` : ''}`));
+        }
+
+        for (const detail of proposal.result.fixDetails || []) {
+            console.log(chalk.cyan(`  • ${detail.explanation}`));
+        }
+
+        for (const change of proposal.changes) {
+            console.log(chalk.bold(`  ${change.filePath}`));
+            const hunks = buildHunks(diffLines(splitLines(change.before), splitLines(change.after)), 1);
+            for (const hunk of hunks.slice(0, MAX_HUNKS_SHOWN)) {
+                console.log(chalk.gray(`  @@ line ${hunk.oldStart} @@`));
+                for (const op of hunk.ops) {
+                    const line = this.truncate(op.line.replace(/\r?\n$/, ''));
+                    if (op.type === 'delete') {
+                        console.log(chalk.red(`  - ${line}`));
+                    } else if (op.type === 'insert') {
+                        console.log(chalk.green(`  + ${line}`));
+                    } else {
+                        console.log(`    ${line}`);
+                    }
+                }
+            }
+            if (hunks.length > MAX_HUNKS_SHOWN) {
+                console.log(chalk.gray(`  ... ${hunks.length - MAX_HUNKS_SHOWN} more changed sections`));
+            }
+        }
+    }
+
+    /**
+     * Open the changed part of each file in $EDITOR and splice the edited text back into the change.
+     * Returns false if the edit was abandoned.
+     */
+    private async editChanges(proposal: ProposedFix): Promise<boolean> {
+        // $EDITOR may carry arguments, such as "code --wait"; it is run without a shell
+        const [editor, ...editorArgs] = splitCommand(process.env.VISUAL || process.env.EDITOR || 'vi');
+        if (!editor) {
+            this.logger.warn('No editor set in $VISUAL or $EDITOR, change not edited');
+            return false;
+        }
+        // The editor needs the terminal to itself
+        this.close();
+
+        for (const change of proposal.changes) {
+            const region = this.getChangedRegion(change);
+            // The file name comes from the EPUB, so only a known extension is reused, for the editor's highlighting
+            const tempFile = path.join(os.tmpdir(), `epub-fix-${process.pid}-${Date.now()}${editorExtension(change.filePath)}`);
+
+            try {
+                await fs.writeFile(tempFile, region.text, 'utf8');
+                const result = spawnSync(editor, [...editorArgs, tempFile], { stdio: 'inherit' });
+                if (result.error) {
+                    this.logger.warn(`Could not start editor ${editor}: ${result.error.message}`);
+                    return false;
+                }
+                if (result.status !== 0) {
+                    this.logger.warn(`Editor exited with status ${result.status}, change not edited`);
+                    return false;
+                }
+
+                const edited = await fs.readFile(tempFile, 'utf8');
+                change.after = change.after.substring(0, region.start) + edited + change.after.substring(region.end);
+            } catch (error) {
+                this.logger.error(`Failed to edit change: ${error}`);
+                return false;
+            } finally {
+                await fs.remove(tempFile).catch(() => undefined);
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Character range of `after` covering the changed lines, so the editor shows only that part
+     */
+    private getChangedRegion(change: ContentChange): { start: number; end: number; text: string } {
+        const ops = diffLines(splitLines(change.before), splitLines(change.after));
+        const lines = splitLines(change.after);
+        let first = -1;
+        let last = -1;
+
+        for (const op of ops) {
+            if (op.type === 'insert') {
+                first = first < 0 ? op.newIndex : first;
+                last = op.newIndex;
+            } else if (op.type === 'delete') {
+                // A pure deletion has no new lines; show the line after it
+                first = first < 0 ? op.newIndex : first;
+                last = Math.max(last, Math.min(op.newIndex, lines.length - 1));
+            }
+        }
+
+        if (first < 0) {
+            return { start: 0, end: change.after.length, text: change.after };
+        }
+
+        const start = lines.slice(0, first).join('').length;
+        const end = lines.slice(0, last + 1).join('').length;
+        return { start, end, text: change.after.substring(start, end) };
+    }
+
+    private truncate(line: string): string {
+        return line.length > MAX_LINE_LENGTH ? `${line.substring(0, MAX_LINE_LENGTH)}…` : line;
+    }
+
+    /**
+     * Stop reading from stdin. The next question opens it again.
+     */
+    close(): void {
+        if (this.rl) {
+            const rl = this.rl;
+            this.rl = null;
+            rl.close();
+        }
+    }
+
+    /**
+     * Resolves with null once stdin has ended
+     */
+    private ask(question: string): Promise<string | null> {
+        process.stdout.write(question);
+        if (this.pendingLines.length > 0) {
+            return Promise.resolve(this.pendingLines.shift());
+        }
+        if (this.inputClosed) {
+            return Promise.resolve(null);
+        }
+
+        // One interface for the whole review so piped answers aren't lost between questions
+        if (!this.rl) {
+            const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+            rl.on('line', line => {
+                const waiting = this.waiting;
+                this.waiting = null;
+                if (waiting) {
+                    waiting(line);
+                } else {
+                    this.pendingLines.push(line);
+                }
+            });
+            rl.on('close', () => {
+                if (this.rl === rl) {
+                    this.rl = null;
+                    this.inputClosed = true;
+                }
+                const waiting = this.waiting;
+                this.waiting = null;
+                if (waiting) {
+                    waiting(null);
+                }
+            });
+            this.rl = rl;
+        }
+
+        return new Promise(resolve => {
+            this.waiting = resolve;
+        });
+    }
+}
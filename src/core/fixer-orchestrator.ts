@@ -1,5 +1,12 @@
-import { ValidationIssue, FixResult, ProcessingContext } from '../types';
+import { ValidationIssue, FixResult, ProcessingContext, EpubContent, ContentChange, ProposedFix } from '../types';
 import { Logger } from '../utils/common';
+import { resolveFixerSelection } from './config';
+import { FixReviewer } from './fix-reviewer';
+import { MarkupValidator } from '../validators/markup-validator';
+import { FixerPlacement } from './plugin-loader';
+import { IssueRouter, RoutingReport, normalizeRuleId } from './issue-routing';
+import { SourceLocator } from './source-locator';
+import { contextForIssue } from './renditions';
 import { BaseFixer } from '../fixers/base-fixer';
 import { ValidationStructureFixer } from '../fixers/validation-structure-fixer'; // Add this import
 import { MetadataAccessibilityFixer } from '../fixers/metadata-accessibility-fixer'; // Add this import
@@ -22,11 +29,23 @@ import { DataAttributeFixer } from '../fixers/data-attribute-fixer'; // Add this
 export class FixerOrchestrator {
     private logger: Logger;
     private fixers: BaseFixer[] = [];
+    private enabledFixerIds: Set<string> | null = null; // null means every fixer is enabled
+    private reviewer: FixReviewer | null = null;
+    private markupValidator: MarkupValidator;
+    private router: IssueRouter;
+    private sourceLocator: SourceLocator;
+    private pluginFixerIds: { [plugin: string]: string[] } = {};
+    private placements: Map<string, FixerPlacement> = new Map();
+    private scheduleProblems: string[] = [];
+    private registrationOrder: string[] = [];
     private maxRetries: number = 3; // Maximum number of retries for persistent issues
 
     constructor(logger: Logger, maxRetries: number = 3) {
         this.logger = logger;
         this.maxRetries = maxRetries;
+        this.markupValidator = new MarkupValidator(logger);
+        this.sourceLocator = new SourceLocator(logger);
+        this.router = new IssueRouter(logger);
         this.initializeFixers();
     }
 
@@ -51,15 +70,180 @@ export class FixerOrchestrator {
             new DataAttributeFixer(this.logger),     // Fix data attribute issues
             // Add more fixers here as they're implemented
         ];
+        // The order above is kept where getProvides/getRequires don't say otherwise
+        this.registrationOrder = this.fixers.map(fixer => fixer.getFixerId());
+        this.scheduleFixers();
 
         this.logger.info(`Initialized ${this.fixers.length} fixers`);
         this.fixers.forEach((fixer, index) => {
-            this.logger.info(`Fixer ${index + 1}: ${fixer.getFixerName()}`);
+            this.logger.info(`Fixer ${index + 1}: ${fixer.getFixerName()} (${fixer.getFixerId()})`);
         });
     }
 
+    /**
+     * Add a plugin fixer and reschedule. Without requirements or a placement it runs after the built-in fixers.
+     */
+    registerFixer(fixer: BaseFixer, placement: FixerPlacement = {}, pluginName?: string): void {
+        const id = fixer.getFixerId();
+        if (this.fixers.some(existing => existing.getFixerId() === id)) {
+            throw new Error(`A fixer with id "${id}" is already registered`);
+        }
+
+        this.fixers.push(fixer);
+        this.registrationOrder.push(id);
+        this.placements.set(id, placement);
+        if (pluginName) {
+            this.pluginFixerIds[pluginName] = [...(this.pluginFixerIds[pluginName] || []), id];
+        }
+        // Plugin fixers are routed their handled codes; canFix still narrows them down
+        for (const code of new Set(fixer.getHandledCodes().map(normalizeRuleId))) {
+            this.router.addRoute({ rule: code, fixer: id, priority: 100, when: issue => fixer.canFix(issue), note: pluginName ? `plugin ${pluginName}` : undefined });
+        }
+        this.logger.info(`Registered fixer ${fixer.getFixerName()} (${id})`);
+        this.scheduleFixers();
+    }
+
+    /**
+     * Sort the fixers so that every fixer runs after the fixers providing what it requires,
+     * and after/before the fixers named in its placement. Ties keep registration order.
+     * Cycles and unmet requirements are logged; fixers in a cycle keep registration order.
+     */
+    private scheduleFixers(): void {
+        const ids = this.registrationOrder;
+        const edges = new Map<string, Set<string>>(ids.map(id => [id, new Set<string>()])); // id -> fixers that must run after it
+        const problems: string[] = [];
+
+        const addEdge = (from: string, to: string, reason: string) => {
+            if (!edges.has(from) || !edges.has(to)) {
+                problems.push(`${reason}: unknown fixer ${edges.has(from) ? to : from}`);
+            } else if (from !== to) {
+                edges.get(from)!.add(to);
+            }
+        };
+
+        for (const fixer of this.fixers) {
+            const id = fixer.getFixerId();
+            for (const capability of fixer.getRequires()) {
+                const providers = this.fixers.filter(other => other !== fixer && other.getProvides().includes(capability));
+                if (providers.length === 0) {
+                    problems.push(`Fixer ${id} requires "${capability}" but no fixer provides it`);
+                }
+                providers.forEach(provider => addEdge(provider.getFixerId(), id, `Fixer ${id} requires "${capability}"`));
+            }
+
+            const placement = this.placements.get(id) || {};
+            (placement.before || []).forEach(other => addEdge(id, other, `Fixer ${id} runs before ${other}`));
+            (placement.after || []).forEach(other => addEdge(other, id, `Fixer ${id} runs after ${other}`));
+        }
+
+        // Kahn's algorithm, always taking the earliest registered fixer that is ready
+        const incoming = new Map<string, number>(ids.map(id => [id, 0]));
+        edges.forEach(targets => targets.forEach(target => incoming.set(target, incoming.get(target)! + 1)));
+
+        const order: string[] = [];
+        const remaining = new Set(ids);
+        for (;;) {
+            const next = ids.find(id => remaining.has(id) && incoming.get(id) === 0);
+            if (!next) {
+                break;
+            }
+            order.push(next);
+            remaining.delete(next);
+            edges.get(next)!.forEach(target => incoming.set(target, incoming.get(target)! - 1));
+        }
+
+        if (remaining.size > 0) {
+            problems.push(`Fixer dependency cycle (each runs before the next): ${this.findCycle(Array.from(remaining), edges).join(' -> ')}`);
+            order.push(...ids.filter(id => remaining.has(id)));
+        }
+
+        this.fixers.sort((a, b) => order.indexOf(a.getFixerId()) - order.indexOf(b.getFixerId()));
+        // Rescheduling after each plugin fixer would repeat the same warnings
+        problems.filter(problem => !this.scheduleProblems.includes(problem)).forEach(problem => this.logger.warn(problem));
+        this.scheduleProblems = problems;
+    }
+
+    private findCycle(ids: string[], edges: Map<string, Set<string>>): string[] {
+        // Every fixer left after the sort still waits on another one left, so walking back through them must loop
+        const path: string[] = [ids[0]];
+        for (;;) {
+            const current = path[path.length - 1];
+            const previous = ids.find(id => edges.get(id)!.has(current))!;
+            const seen = path.indexOf(previous);
+            if (seen >= 0) {
+                return [...path.slice(seen), previous].reverse();
+            }
+            path.push(previous);
+        }
+    }
+
+    /**
+     * Cycles and unmet requirements found when the fixers were last scheduled
+     */
+    getScheduleProblems(): string[] {
+        return [...this.scheduleProblems];
+    }
+
+    /**
+     * Order issues by the fixer that will handle them, in fixer order. Issues no fixer can handle come last.
+     * This only sets the order: each issue is still fixed, checked and committed on its own, so a bad fix
+     * is rolled back alone, --interactive reviews one change at a time, and an issue a related fix already
+     * covered is skipped instead of being fixed twice.
+     */
+    private orderIssuesByFixer(issues: ValidationIssue[]): { fixer: BaseFixer | null; issues: ValidationIssue[] }[] {
+        const groups = new Map<BaseFixer | null, ValidationIssue[]>();
+        for (const issue of issues) {
+            const fixer = this.findFixerForIssue(issue);
+            groups.set(fixer, [...(groups.get(fixer) || []), issue]);
+        }
+
+        return [...this.fixers, null]
+            .filter(fixer => groups.has(fixer))
+            .map(fixer => ({ fixer, issues: groups.get(fixer)! }));
+    }
+
+    /**
+     * Fixer ids registered by each plugin, usable as groups in the configuration
+     */
+    getPluginFixerIds(): { [plugin: string]: string[] } {
+        return { ...this.pluginFixerIds };
+    }
+
+    /**
+     * Restrict the fixers used for this context according to its config and --only/--skip options
+     */
+    applyConfiguration(context: ProcessingContext): void {
+        if (!context.config || Object.keys(context.config).length === 0) {
+            this.enabledFixerIds = null;
+            return;
+        }
+
+        const selection = resolveFixerSelection(
+            context.config,
+            this.fixers.map(fixer => fixer.getFixerId()),
+            context.options?.onlyFixers,
+            context.options?.skipFixers,
+            this.pluginFixerIds
+        );
+
+        for (const name of selection.unknownNames) {
+            this.logger.warn(`Unknown fixer or fixer group in configuration: ${name}`);
+        }
+
+        this.enabledFixerIds = new Set(selection.enabled);
+        this.logger.info(`Enabled fixers: ${selection.enabled.join(', ') || 'none'}`);
+        if (selection.disabled.length > 0) {
+            this.logger.info(`Disabled fixers: ${selection.disabled.join(', ')}`);
+        }
+    }
+
+    isFixerEnabled(fixer: BaseFixer): boolean {
+        return this.enabledFixerIds === null || this.enabledFixerIds.has(fixer.getFixerId());
+    }
+
     async fixAllIssues(context: ProcessingContext): Promise<FixResult[]> {
         this.logger.info(`Starting to fix ${context.issues.length} issues`);
+        this.applyConfiguration(context);
 
         const results: FixResult[] = [];
         const fixableIssues = context.issues.filter(issue => issue.fixable && !issue.fixed);
@@ -78,48 +262,57 @@ export class FixerOrchestrator {
 
         this.logger.info(`Processing ${fixableIssues.length} fixable issues...`);
         let processedCount = 0;
-        for (const issue of fixableIssues) {
-            processedCount++;
-            this.logger.info(`Processing issue ${processedCount}/${fixableIssues.length}: code="${issue.code}", message="${issue.message}", fixed=${issue.fixed}`);
-            // Skip if already marked as fixed by duplicate detection
-            if (issue.fixed) {
-                this.logger.info(`Skipping already fixed issue: ${issue.code} - ${issue.message}`);
-                // Add details to indicate this issue was already fixed
-                if (!issue.details) {
-                    issue.details = "This issue was already fixed as part of a related fix.";
+        // A fixer's issues are fixed one after another, and fixers take their turn in dependency order
+        for (const group of this.orderIssuesByFixer(fixableIssues)) {
+            this.logger.info(`Running ${group.fixer ? group.fixer.getFixerName() : 'no fixer'} on ${group.issues.length} issues, one at a time`);
+            for (const issue of group.issues) {
+                processedCount++;
+                this.logger.info(`Processing issue ${processedCount}/${fixableIssues.length}: code="${issue.code}", message="${issue.message}", fixed=${issue.fixed}`);
+                // Skip if already marked as fixed by duplicate detection
+                if (issue.fixed) {
+                    this.logger.info(`Skipping already fixed issue: ${issue.code} - ${issue.message}`);
+                    // Add details to indicate this issue was already fixed
+                    if (!issue.details) {
+                        issue.details = "This issue was already fixed as part of a related fix.";
+                    }
+                    continue;
                 }
-                continue;
-            }
 
-            try {
-                const result = await this.fixIssueWithRetry(issue, context);
-                results.push(result);
+                try {
+                    const result = await this.fixIssueWithRetry(issue, context);
+                    results.push(result);
 
-                if (result.success) {
-                    issue.fixed = true;
-                    context.fixes.push(result);
+                    if (result.success) {
+                        issue.fixed = true;
+                        context.fixes.push(result);
 
-                    // Mark similar issues as fixed to avoid duplicate processing
-                    this.markSimilarIssuesFixed(issue, context);
-                } else {
-                    this.logger.warn(`Failed to fix issue: ${issue.code} - ${result.message}`);
-                    // Don't mark as fixed if the fix failed
-                    // Add details to indicate the fix failed
+                        // Mark similar issues as fixed to avoid duplicate processing; other renditions have their own files
+                        this.markSimilarIssuesFixed(issue, issue.rendition ?
+                            { ...context, issues: context.issues.filter(other => other.rendition === issue.rendition) } : context);
+                    } else {
+                        this.logger.warn(`Failed to fix issue: ${issue.code} - ${result.message}`);
+                        // Keep rollbacks in the report so the parser error is visible
+                        if (result.details?.rolledBack) {
+                            context.fixes.push(result);
+                        }
+                        // Don't mark as fixed if the fix failed
+                        // Add details to indicate the fix failed
+                        if (!issue.details) {
+                            issue.details = `Sorry, I couldn't fix this issue: ${result.message}`;
+                        }
+                    }
+                } catch (error) {
+                    this.logger.error(`Failed to fix issue ${issue.code}: ${error}`);
+                    // Add details to indicate the fix failed with an error
                     if (!issue.details) {
-                        issue.details = `Sorry, I couldn't fix this issue: ${result.message}`;
+                        issue.details = `Sorry, I couldn't fix this issue due to an error: ${error}`;
                     }
+                    results.push({
+                        success: false,
+                        message: `Failed to fix ${issue.code}: ${error}`,
+                        details: { issueCode: issue.code, error: String(error) }
+                    });
                 }
-            } catch (error) {
-                this.logger.error(`Failed to fix issue ${issue.code}: ${error}`);
-                // Add details to indicate the fix failed with an error
-                if (!issue.details) {
-                    issue.details = `Sorry, I couldn't fix this issue due to an error: ${error}`;
-                }
-                results.push({
-                    success: false,
-                    message: `Failed to fix ${issue.code}: ${error}`,
-                    details: { issueCode: issue.code, error: String(error) }
-                });
             }
         }
 
@@ -148,6 +341,11 @@ export class FixerOrchestrator {
             
             try {
                 result = await this.fixIssue(issue, context);
+
+                // A rejected or rolled-back change would come out the same on every attempt
+                if (result.details?.rejected || result.details?.rolledBack) {
+                    return result;
+                }
                 
                 if (result.success) {
                     this.logger.success(`Successfully fixed issue on attempt ${attempts}: ${issue.code} - ${issue.message}`);
@@ -194,6 +392,17 @@ export class FixerOrchestrator {
         const fixer = this.findFixerForIssue(issue);
 
         if (!fixer) {
+            const disabledFixer = this.getCandidateFixers(issue).find(f => !this.isFixerEnabled(f));
+            if (disabledFixer) {
+                this.logger.info(`${disabledFixer.getFixerName()} is disabled by configuration, not fixing: ${issue.code}`);
+                issue.details = `This issue was not fixed because ${disabledFixer.getFixerName()} (${disabledFixer.getFixerId()}) is disabled in the configuration.`;
+                return {
+                    success: false,
+                    message: `Fixer ${disabledFixer.getFixerId()} is disabled for issue: ${issue.code}`,
+                    details: { issueCode: issue.code, fixer: disabledFixer.getFixerName(), disabled: true }
+                };
+            }
+
             this.logger.info(`No fixer found for issue: ${issue.code}`);
             // Add details to the issue indicating no fixer was found
             issue.details = "Sorry, I couldn't find a fixer for this issue.";
@@ -206,8 +415,41 @@ export class FixerOrchestrator {
 
         this.logger.info(`Using ${fixer.getFixerName()} to fix: ${issue.code}`);
 
+        let proposal: ProposedFix | null = null;
+        let kept = false;
         try {
-            const result = await fixer.fix(issue, context);
+            proposal = await this.computeFix(fixer, issue, context);
+            const result = proposal.result;
+
+            let problems = this.checkMarkup(proposal, context);
+            if (problems.length === 0 && this.reviewer && proposal.changes.length > 0) {
+                const decision = await this.reviewer.review(proposal);
+                if (decision === 'reject') {
+                    this.logger.info(`Change from ${fixer.getFixerName()} rejected during review: ${issue.code}`);
+                    issue.details = 'The proposed change was rejected during interactive review.';
+                    return {
+                        success: false,
+                        message: `Change rejected during review for issue: ${issue.code}`,
+                        details: { issueCode: issue.code, fixer: fixer.getFixerName(), rejected: true }
+                    };
+                }
+                // The reviewer may have edited the change
+                problems = this.checkMarkup(proposal, context);
+            }
+
+            if (problems.length > 0) {
+                this.logger.warn(`Rolled back ${fixer.getFixerName()} changes for ${issue.code}: ${problems.join('; ')}`);
+                issue.details = `Sorry, I couldn't fix this issue: the fix produced invalid markup (${problems[0]})`;
+                return {
+                    success: false,
+                    message: `Rolled back ${fixer.getFixerName()} changes: ${problems[0]}`,
+                    changedFiles: [],
+                    details: { issueCode: issue.code, fixer: fixer.getFixerName(), rolledBack: true, errors: problems }
+                };
+            }
+
+            this.commitFix(proposal, context);
+            kept = result.success;
 
             if (result.success) {
                 this.logger.success(`Successfully fixed: ${issue.message}`);
@@ -227,6 +469,142 @@ export class FixerOrchestrator {
                 message: `Fixer error: ${error}`,
                 details: { fixer: fixer.getFixerName(), error: String(error) }
             };
+        } finally {
+            // Changes that were rejected, rolled back or reported as failed must not reach later fixers
+            // through the shared documents
+            if (proposal && !kept) {
+                context.documents?.invalidate(proposal.documentPaths);
+            }
+        }
+    }
+
+    /**
+     * Use an interactive reviewer to accept or reject each change before it is committed
+     */
+    setReviewer(reviewer: FixReviewer | null): void {
+        this.reviewer = reviewer;
+    }
+
+    /**
+     * Run a fixer and capture the content it changed without keeping the change:
+     * the contents are restored afterwards, and commitFix applies the proposal.
+     * Only context.contents is captured; other context state the fixer touches stays as it left it.
+     */
+    async computeFix(fixer: BaseFixer, issue: ValidationIssue, context: ProcessingContext): Promise<ProposedFix> {
+        const snapshot = new Map<string, { entry: EpubContent; content: string | Buffer; modified: boolean }>();
+        for (const [filePath, entry] of context.contents) {
+            snapshot.set(filePath, { entry, content: entry.content, modified: entry.modified });
+        }
+
+        let result: FixResult;
+        const changes: ContentChange[] = [];
+        const updatedContents = new Map<string, EpubContent>();
+        let documentPaths: string[] = [];
+        let completed = false;
+
+        try {
+            context.documents?.startTracking();
+            fixer.setDocumentCache(context.documents || null);
+            result = await fixer.fix(issue, contextForIssue(context, issue));
+            if (issue.rendition) {
+                result.rendition = issue.rendition;
+            }
+
+            for (const [filePath, entry] of context.contents) {
+                const saved = snapshot.get(filePath);
+                if (saved && saved.entry === entry && saved.content === entry.content) {
+                    continue;
+                }
+
+                updatedContents.set(filePath, { ...entry, modified: true });
+                if (typeof entry.content === 'string' && (!saved || typeof saved.content === 'string')) {
+                    changes.push({
+                        fixerId: fixer.getFixerId(),
+                        fixerName: fixer.getFixerName(),
+                        issueCode: issue.code,
+                        filePath,
+                        before: saved ? saved.content as string : '',
+                        after: entry.content,
+                        fixDetails: (result.fixDetails || []).filter(detail =>
+                            !detail.filePath || detail.filePath === filePath || filePath.endsWith(detail.filePath))
+                    });
+                }
+            }
+            completed = true;
+        } finally {
+            fixer.setDocumentCache(null);
+            documentPaths = context.documents?.stopTracking() || [];
+            // Put the contents back the way they were before the fixer ran
+            for (const filePath of Array.from(context.contents.keys())) {
+                if (!snapshot.has(filePath)) {
+                    context.contents.delete(filePath);
+                }
+            }
+            for (const [filePath, saved] of snapshot) {
+                saved.entry.content = saved.content;
+                saved.entry.modified = saved.modified;
+                context.contents.set(filePath, saved.entry);
+            }
+            // A fixer that threw may have left half-changed documents behind
+            if (!completed) {
+                context.documents?.invalidate(documentPaths);
+            }
+        }
+
+        return {
+            issue,
+            fixerId: fixer.getFixerId(),
+            fixerName: fixer.getFixerName(),
+            result,
+            changes,
+            updatedContents,
+            documentPaths
+        };
+    }
+
+    /**
+     * Markup problems the proposed text changes introduce, prefixed with the file path
+     */
+    private checkMarkup(proposal: ProposedFix, context: ProcessingContext): string[] {
+        const problems: string[] = [];
+
+        for (const change of proposal.changes) {
+            const mediaType = (proposal.updatedContents.get(change.filePath) || context.contents.get(change.filePath))?.mediaType || '';
+            const original = context.contents.has(change.filePath) ? change.before : null;
+            for (const problem of this.markupValidator.findIntroducedProblems(original, change.after, mediaType)) {
+                problems.push(`${change.filePath}: ${problem}`);
+            }
+        }
+
+        return problems;
+    }
+
+    /**
+     * Apply a computed change to the context. Text changes use the (possibly edited) `after` text,
+     * which is also where the fix details are located.
+     */
+    commitFix(proposal: ProposedFix, context: ProcessingContext): void {
+        for (const [filePath, updated] of proposal.updatedContents) {
+            const change = proposal.changes.find(c => c.filePath === filePath);
+            const content = change ? change.after : updated.content;
+            if (change) {
+                this.sourceLocator.locateFixDetails(change.fixDetails || [], filePath, change.before, change.after, context);
+            }
+            const existing = context.contents.get(filePath);
+            if (existing) {
+                existing.content = content;
+                existing.modified = true;
+            } else {
+                context.contents.set(filePath, { ...updated, content });
+            }
+        }
+
+        // Keep the text changes for --diff
+        if (context.options?.diff && proposal.changes.length > 0) {
+            if (!context.changes) {
+                context.changes = [];
+            }
+            context.changes.push(...proposal.changes);
         }
     }
 
@@ -562,21 +940,72 @@ export class FixerOrchestrator {
 
     private findFixerForIssue(issue: ValidationIssue): BaseFixer | null {
         this.logger.info(`Finding fixer for issue: code="${issue.code}", message="${issue.message}"`);
+        const fixer = this.getCandidateFixers(issue).find(candidate => this.isFixerEnabled(candidate)) || null;
+        if (fixer) {
+            this.logger.info(`Found fixer ${fixer.getFixerName()} for issue: ${issue.code} - ${issue.message}`);
+        } else {
+            this.logger.info(`No fixer found for issue: ${issue.code} - ${issue.message}`);
+        }
+        return fixer;
+    }
+
+    /**
+     * Fixers that could handle the issue, preferred first, enabled or not. Routed rule ids use the
+     * routing table; other codes (such as ACE output parsed from text) fall back to each fixer's canFix.
+     */
+    private getCandidateFixers(issue: ValidationIssue): BaseFixer[] {
+        if (!this.router.hasRoutes(issue.code)) {
+            this.logger.info(`No route for ${issue.code}, asking each fixer`);
+            return this.fixers.filter(fixer => fixer.canFix(issue));
+        }
+
+        const candidates: { fixer: BaseFixer; priority: number }[] = [];
+        for (const route of this.router.match(issue)) {
+            const fixer = this.fixers.find(f => f.getFixerId() === route.fixer);
+            if (fixer && !candidates.some(candidate => candidate.fixer === fixer)) {
+                candidates.push({ fixer, priority: route.priority });
+            }
+        }
+
+        // Equal priorities go to the fixer that runs first
+        return candidates
+            .sort((a, b) => b.priority - a.priority || this.fixers.indexOf(a.fixer) - this.fixers.indexOf(b.fixer))
+            .map(candidate => candidate.fixer);
+    }
+
+    /**
+     * The routing table, with routes to fixers that aren't registered, ambiguous overlaps,
+     * and unrouted codes that more than one fixer claims in getHandledCodes
+     */
+    getRouting(): RoutingReport {
+        const ids = this.fixers.map(fixer => fixer.getFixerId());
+        const routes = this.router.getRoutes().map(route => ({ ...route, conditions: this.router.describeConditions(route) }));
+
+        const claims = new Map<string, string[]>();
         for (const fixer of this.fixers) {
-            this.logger.info(`Checking fixer ${fixer.getFixerName()} for issue: ${issue.code} - ${issue.message}`);
-            if (fixer.canFix(issue)) {
-                this.logger.info(`Found fixer ${fixer.getFixerName()} for issue: ${issue.code} - ${issue.message}`);
-                return fixer;
+            for (const code of fixer.getHandledCodes().filter(code => !this.router.hasRoutes(code))) {
+                claims.set(code, Array.from(new Set([...(claims.get(code) || []), fixer.getFixerId()])));
             }
         }
-        this.logger.info(`No fixer found for issue: ${issue.code} - ${issue.message}`);
-        return null;
+
+        return {
+            routes,
+            unknownFixers: Array.from(new Set(routes.map(route => route.fixer).filter(id => !ids.includes(id)))),
+            ambiguities: this.router.findAmbiguities(),
+            unroutedOverlaps: Array.from(claims.keys()).sort()
+                .filter(code => claims.get(code)!.length > 1)
+                .map(code => ({ code, fixers: claims.get(code)! }))
+        };
     }
 
     getAvailableFixers(): string[] {
         return this.fixers.map(fixer => fixer.getFixerName());
     }
 
+    getFixerIds(): string[] {
+        return this.fixers.map(fixer => fixer.getFixerId());
+    }
+
     getHandledCodes(): string[] {
         const codes: string[] = [];
         for (const fixer of this.fixers) {
@@ -594,6 +1023,8 @@ export class FixerOrchestrator {
         const unfixableIssues: ValidationIssue[] = [];
         const fixerAssignments: { [code: string]: string } = {};
 
+        this.applyConfiguration(context);
+
         for (const issue of context.issues) {
             const fixer = this.findFixerForIssue(issue);
 
@@ -621,19 +1052,15 @@ export class FixerOrchestrator {
         const validatedFiles: string[] = [];
         const errors: string[] = [];
 
-        // Basic validation of modified content
+        // Well-formedness of modified content; each fix was already checked when it was committed
         for (const [path, content] of context.contents) {
-            if (content.modified) {
-                try {
-                    // Basic XML/HTML validation
-                    if (content.mediaType === 'application/xhtml+xml' || content.mediaType === 'text/html') {
-                        const cheerio = require('cheerio');
-                        cheerio.load(content.content, { xmlMode: true });
-                        validatedFiles.push(path);
-                    }
-                } catch (error) {
+            if (content.modified && typeof content.content === 'string' && this.markupValidator.canCheck(content.mediaType)) {
+                const error = this.markupValidator.checkWellFormed(content.content, content.mediaType);
+                if (error) {
                     errors.push(`Validation error in ${path}: ${error}`);
                     this.logger.error(`Validation error in ${path}: ${error}`);
+                } else {
+                    validatedFiles.push(path);
                 }
             }
         }
@@ -0,0 +1,194 @@
+import { AccessibilityIssue, ValidationIssue } from '../types';
+import { Logger } from '../utils/common';
+
+/**
+ * Sends issues with one rule id to one fixer. Among the routes whose conditions hold,
+ * the highest priority with an enabled fixer wins; equal priorities go to the fixer that runs first.
+ */
+export interface IssueRoute {
+    rule: string; // ACE/axe rule id or EpubCheck message id
+    fixer: string;
+    priority: number;
+    elements?: string[]; // Only issues reported on one of these elements
+    message?: RegExp; // Only issues whose message matches, for message ids that cover unrelated problems
+    when?: (issue: ValidationIssue) => boolean;
+    note?: string;
+}
+
+export interface RouteAmbiguity {
+    rule: string;
+    priority: number;
+    fixers: string[];
+}
+
+export interface RoutingReport {
+    routes: (IssueRoute & { conditions: string })[];
+    unknownFixers: string[]; // Routed to but not registered
+    ambiguities: RouteAmbiguity[];
+    unroutedOverlaps: { code: string; fixers: string[] }[]; // Left to canFix and claimed by more than one fixer
+}
+
+const PRIMARY = 100;
+const FALLBACK = 50; // Used when the primary fixer is disabled
+
+export const DEFAULT_ROUTES: IssueRoute[] = [
+    // EpubCheck message ids
+    { rule: 'RSC-005', fixer: 'validation-structure', priority: PRIMARY },
+    { rule: 'RSC-005', fixer: 'metadata', priority: FALLBACK, message: /xsi:type|dcterms:rfc4646|(dc:|dublin core).*not allowed|not allowed.*(dc:|dublin core)|missing.*language/i, note: 'EPUB 2 metadata attributes, missing language' },
+    { rule: 'RSC-017', fixer: 'title', priority: PRIMARY + 10, message: /"title" child element|\btitle\b.*\b(missing|required|not found)\b/i, note: 'missing <title>' },
+    { rule: 'RSC-017', fixer: 'validation-structure', priority: PRIMARY, note: 'deprecated roles and other warnings' },
+    { rule: 'OPF-014', fixer: 'validation-structure', priority: PRIMARY },
+    { rule: 'OPF-073', fixer: 'validation-structure', priority: PRIMARY },
+    { rule: 'OPF-025', fixer: 'language-attributes', priority: PRIMARY },
+    { rule: 'HTM-011', fixer: 'language-attributes', priority: PRIMARY },
+    { rule: 'HTM-061', fixer: 'data-attributes', priority: PRIMARY },
+    { rule: 'OPF-096', fixer: 'non-linear-content', priority: PRIMARY },
+    { rule: 'RSC-007', fixer: 'resource-references', priority: PRIMARY },
+    { rule: 'PKG-009', fixer: 'resource-references', priority: PRIMARY },
+    { rule: 'ACC-002', fixer: 'alt-text', priority: PRIMARY },
+    { rule: 'ACC-003', fixer: 'heading-structure', priority: PRIMARY },
+
+    // ACE rule ids
+    { rule: 'image-alt', fixer: 'alt-text', priority: PRIMARY },
+    { rule: 'heading-order', fixer: 'heading-structure', priority: PRIMARY },
+    { rule: 'page-has-heading-one', fixer: 'heading-structure', priority: PRIMARY },
+    { rule: 'empty-heading', fixer: 'heading-structure', priority: PRIMARY },
+    { rule: 'html-has-lang', fixer: 'language-attributes', priority: PRIMARY },
+    { rule: 'document-title', fixer: 'title', priority: PRIMARY },
+    ...['epub-lang', 'metadata-accessmode', 'metadata-accessmodesufficient', 'metadata-accessibilityfeature',
+        'metadata-accessibilityhazard', 'metadata-accessibilitysummary'].reduce<IssueRoute[]>((routes, rule) => routes.concat(
+        { rule, fixer: 'metadata', priority: PRIMARY },
+        { rule, fixer: 'metadata-accessibility', priority: FALLBACK }
+    ), []),
+    { rule: 'color-contrast', fixer: 'color-contrast', priority: PRIMARY },
+    { rule: 'color-contrast', fixer: 'link-accessibility', priority: FALLBACK, elements: ['a'] },
+    { rule: 'color-contrast-enhanced', fixer: 'color-contrast', priority: PRIMARY },
+    { rule: 'color-contrast-enhanced', fixer: 'link-accessibility', priority: FALLBACK, elements: ['a'] },
+    { rule: 'link-name', fixer: 'link-accessibility', priority: PRIMARY },
+    { rule: 'link-name', fixer: 'link-accessibility-enhanced', priority: FALLBACK },
+    { rule: 'link-in-text-block', fixer: 'link-accessibility', priority: PRIMARY },
+    { rule: 'link-in-text-block', fixer: 'link-accessibility-enhanced', priority: FALLBACK },
+    { rule: 'bypass', fixer: 'link-accessibility', priority: PRIMARY },
+    { rule: 'focus-order-semantics', fixer: 'link-accessibility', priority: PRIMARY },
+    { rule: 'label', fixer: 'interactive-elements', priority: PRIMARY },
+    // Accessible-name codes: links go to the link fixer, everything else to the interactive element fixer
+    ...['accessible-name', 'aria-label', 'aria-labelledby', 'missing-title', 'screen-reader-text', 'input-label'].reduce<IssueRoute[]>((routes, rule) => routes.concat(
+        { rule, fixer: 'link-accessibility', priority: PRIMARY + 10, elements: ['a'] },
+        { rule, fixer: 'interactive-elements', priority: PRIMARY }
+    ), []),
+    { rule: 'button-name', fixer: 'interactive-elements', priority: PRIMARY },
+    { rule: 'form-field-multiple-labels', fixer: 'interactive-elements', priority: PRIMARY },
+    { rule: 'landmark-unique', fixer: 'landmark-unique', priority: PRIMARY },
+    { rule: 'landmark-no-duplicate-banner', fixer: 'landmark-unique', priority: PRIMARY },
+    { rule: 'aria-roles', fixer: 'epub-type-roles', priority: PRIMARY },
+    { rule: 'epub-type-has-matching-role', fixer: 'epub-type-roles', priority: PRIMARY },
+    { rule: 'aria-deprecated-role', fixer: 'validation-structure', priority: PRIMARY },
+    { rule: 'scrollable-region-focusable', fixer: 'scrollable-regions', priority: PRIMARY }
+];
+
+/**
+ * EpubCheck ids are upper case with a hyphen (HTM_061 and htm-061 become HTM-061); other rule ids are lower case
+ */
+export function normalizeRuleId(code: string): string {
+    const trimmed = (code || '').trim();
+    const epubCheckId = trimmed.match(/^([A-Za-z]{3})[-_](\d{3})$/);
+    return epubCheckId ? `${epubCheckId[1].toUpperCase()}-${epubCheckId[2]}` : trimmed.toLowerCase();
+}
+
+/**
+ * Routing table from rule ids to fixers, replacing message matching in each fixer's canFix
+ */
+export class IssueRouter {
+    private logger: Logger;
+    private routes: Map<string, IssueRoute[]> = new Map();
+
+    constructor(logger: Logger, routes: IssueRoute[] = DEFAULT_ROUTES) {
+        this.logger = logger;
+        routes.forEach(route => this.addRoute(route));
+    }
+
+    addRoute(route: IssueRoute): void {
+        const rule = normalizeRuleId(route.rule);
+        const existing = this.routes.get(rule) || [];
+        // Keep the routes of a rule sorted by priority, earlier routes first on ties
+        this.routes.set(rule, [...existing, { ...route, rule }].sort((a, b) => b.priority - a.priority));
+    }
+
+    getRoutes(): IssueRoute[] {
+        return Array.from(this.routes.keys()).sort().reduce<IssueRoute[]>((all, rule) => all.concat(this.routes.get(rule)!), []);
+    }
+
+    hasRoutes(code: string): boolean {
+        return this.routes.has(normalizeRuleId(code));
+    }
+
+    /**
+     * Routes for the issue's rule whose conditions hold, highest priority first
+     */
+    match(issue: ValidationIssue): IssueRoute[] {
+        const routes = this.routes.get(normalizeRuleId(issue.code)) || [];
+        const element = ((issue as AccessibilityIssue).element || '').toLowerCase();
+
+        return routes.filter(route => {
+            if (route.elements && !route.elements.includes(element)) {
+                return false;
+            }
+            if (route.message && !route.message.test(issue.message || '')) {
+                return false;
+            }
+            if (route.when) {
+                try {
+                    return route.when(issue);
+                } catch (error) {
+                    this.logger.warn(`Route condition for ${route.rule} -> ${route.fixer} failed: ${error}`);
+                    return false;
+                }
+            }
+            return true;
+        });
+    }
+
+    /**
+     * Rules where different fixers share a priority and their conditions could hold for the same issue.
+     * Those issues go to whichever fixer runs first.
+     */
+    findAmbiguities(): RouteAmbiguity[] {
+        const ambiguities: RouteAmbiguity[] = [];
+
+        for (const rule of Array.from(this.routes.keys()).sort()) {
+            const routes = this.routes.get(rule)!;
+            for (const priority of Array.from(new Set(routes.map(route => route.priority)))) {
+                const samePriority = routes.filter(route => route.priority === priority);
+                const fixers = new Set<string>();
+                samePriority.forEach((route, index) => samePriority.slice(index + 1)
+                    .filter(other => other.fixer !== route.fixer && this.canOverlap(route, other))
+                    .forEach(other => fixers.add(route.fixer).add(other.fixer)));
+
+                if (fixers.size > 0) {
+                    ambiguities.push({ rule, priority, fixers: Array.from(fixers) });
+                }
+            }
+        }
+
+        return ambiguities;
+    }
+
+    describeConditions(route: IssueRoute): string {
+        const conditions: string[] = [];
+        if (route.elements) {
+            conditions.push(`on ${route.elements.map(element => `<${element}>`).join(', ')}`);
+        }
+        if (route.message) {
+            conditions.push(`message matches ${route.message}`);
+        }
+        if (route.when) {
+            conditions.push('custom condition');
+        }
+        return conditions.join('; ');
+    }
+
+    // Only element lists can be compared; message patterns and custom conditions are assumed to overlap
+    private canOverlap(a: IssueRoute, b: IssueRoute): boolean {
+        return !a.elements || !b.elements || a.elements.some(element => b.elements!.includes(element));
+    }
+}
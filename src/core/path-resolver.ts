@@ -0,0 +1,163 @@
+import * as path from 'path';
+import { EpubContent, ProcessingContext } from '../types';
+import { Logger } from '../utils/common';
+
+/**
+ * Who reported a path, which decides the base it is relative to first.
+ * EpubCheck reports paths from the container root, ACE from the package document's directory.
+ */
+export type PathOrigin = 'container' | 'epubcheck' | 'ace' | 'package';
+
+export interface PathResolution {
+    path: string | null; // Key in context.contents
+    base?: 'container' | 'package' | 'suffix'; // How it was found; suffix means the reported path was a unique tail of it
+    candidates: string[]; // Every matching file when the path is ambiguous
+}
+
+/**
+ * Resolve an href against the file that contains it: drops the fragment and query, decodes percent-encoding
+ * and resolves `..`. Returns null for URLs with a scheme, and for paths that leave the container.
+ */
+export function resolveHref(href: string, referencingFile: string): string | null {
+    const target = href.trim().split('#')[0].split('?')[0];
+    if (/^[a-z][a-z0-9+.-]*:/i.test(target)) {
+        return null;
+    }
+    if (!target) {
+        return referencingFile;
+    }
+
+    const resolved = target.startsWith('/') ?
+        path.posix.normalize(decodePath(target).substring(1)) :
+        path.posix.normalize(path.posix.join(path.posix.dirname(referencingFile), decodePath(target)));
+    return resolved.startsWith('../') || resolved === '..' ? null : resolved;
+}
+
+function decodePath(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value; // Keep the raw value when it is not valid percent-encoding
+    }
+}
+
+/**
+ * Maps hrefs and tool-reported paths to context.contents keys, using the package document location
+ * from container.xml instead of guessing by file name
+ */
+export class EpubPathResolver {
+    private logger: Logger;
+    private reportedAmbiguities: Set<string> = new Set();
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+    }
+
+    /**
+     * Container path of a manifest item href, which is relative to the package document
+     */
+    resolveManifestHref(context: ProcessingContext, href: string): string | null {
+        return resolveHref(href, this.getPackagePath(context) || '');
+    }
+
+    /**
+     * Content for a manifest item href, or undefined when the item's file is missing
+     */
+    findManifestContent(context: ProcessingContext, href: string): EpubContent | undefined {
+        const filePath = this.resolveManifestHref(context, href);
+        return filePath ? context.contents.get(filePath) : undefined;
+    }
+
+    /**
+     * Find the file a tool or issue location names. The reported path is tried against the container root and
+     * the package directory, in the order the origin uses; failing that, a file whose path ends with all of the
+     * reported path's segments is used if it is the only one. Ambiguous paths resolve to null and are logged.
+     */
+    resolveReportedPath(context: ProcessingContext, reported: string, origin: PathOrigin = 'container'): PathResolution {
+        const relative = this.normalizeReportedPath(reported);
+        if (!relative) {
+            return { path: null, candidates: [] };
+        }
+
+        const packageDir = path.posix.dirname(this.getPackagePath(context) || '');
+        const bases: ['container' | 'package', string][] = origin === 'ace' || origin === 'package' ?
+            [['package', packageDir], ['container', '.']] :
+            [['container', '.'], ['package', packageDir]];
+
+        for (const [base, dir] of bases) {
+            const candidate = resolveHref(relative, path.posix.join(dir, '_'));
+            if (candidate && context.contents.has(candidate)) {
+                return { path: candidate, base, candidates: [candidate] };
+            }
+        }
+
+        const suffix = '/' + path.posix.normalize(decodePath(relative)).replace(/^(\.\.\/)+/, '');
+        const candidates = Array.from(context.contents.keys()).filter(filePath => ('/' + filePath).endsWith(suffix)).sort();
+        if (candidates.length === 1) {
+            return { path: candidates[0], base: 'suffix', candidates };
+        }
+        if (candidates.length > 1 && !this.reportedAmbiguities.has(reported)) {
+            this.reportedAmbiguities.add(reported);
+            this.logger.warn(`Ambiguous path ${reported}: matches ${candidates.join(', ')}`);
+        }
+        return { path: null, candidates };
+    }
+
+    /**
+     * Content named by a reported path, or undefined if it is missing or ambiguous
+     */
+    findContent(context: ProcessingContext, reported: string, origin: PathOrigin = 'container'): EpubContent | undefined {
+        const resolution = this.resolveReportedPath(context, reported, origin);
+        return resolution.path ? context.contents.get(resolution.path) : undefined;
+    }
+
+    /**
+     * Rewrite issue file paths to context.contents keys. Paths that can't be resolved are left as reported.
+     * Returns the paths that were ambiguous.
+     */
+    normalizeIssuePaths(issues: { location?: { file?: string } }[], context: ProcessingContext, origin: PathOrigin): string[] {
+        const ambiguous = new Set<string>();
+        const resolved = new Map<string, PathResolution>();
+
+        for (const issue of issues) {
+            const file = issue.location?.file;
+            if (!file || context.contents.has(file)) {
+                continue;
+            }
+            if (!resolved.has(file)) {
+                resolved.set(file, this.resolveReportedPath(context, file, origin));
+            }
+            const resolution = resolved.get(file)!;
+            if (resolution.path) {
+                issue.location = { ...issue.location, file: resolution.path };
+            } else if (resolution.candidates.length > 1) {
+                ambiguous.add(file);
+            }
+        }
+
+        return Array.from(ambiguous);
+    }
+
+    getPackagePath(context: ProcessingContext): string | undefined {
+        if (context.packagePath && context.contents.has(context.packagePath)) {
+            return context.packagePath;
+        }
+        const container = context.contents.get('META-INF/container.xml');
+        const match = container && typeof container.content === 'string' ?
+            container.content.match(/full-path\s*=\s*["']([^"']+)["']/) : null;
+        if (match && context.contents.has(match[1])) {
+            return match[1];
+        }
+        return Array.from(context.contents.keys()).find(filePath => filePath.endsWith('.opf'));
+    }
+
+    // Tool paths may be file URLs, absolute paths into the EPUB (book.epub/OEBPS/...) or Windows paths
+    private normalizeReportedPath(reported: string): string {
+        let normalized = reported.trim().replace(/\\/g, '/').replace(/^file:\/\//i, '');
+        const inEpub = normalized.match(/\.epub\/(.+)$/i);
+        if (inEpub) {
+            normalized = inEpub[1];
+        }
+        return normalized.replace(/^(\.\/|\/)+/, '');
+    }
+}
@@ -0,0 +1,124 @@
+import * as path from 'path';
+import { BaseFixer } from '../fixers/base-fixer';
+import { BuiltinRule } from '../validators/builtin-rule-engine';
+import { Logger } from '../utils/common';
+
+export type FixerConstructor = new (logger: Logger) => BaseFixer;
+
+/**
+ * Where a plugin fixer goes in the fixer order. The first fixer that can fix an
+ * issue handles it, so running before a built-in fixer takes over its issues.
+ */
+export interface FixerPlacement {
+    before?: string[]; // Fixer ids this fixer must run before
+    after?: string[]; // Fixer ids this fixer must run after
+}
+
+export interface PluginFixer extends FixerPlacement {
+    fixer: FixerConstructor;
+}
+
+/**
+ * What a plugin module exports, either as module.exports or as its default export.
+ * A module may also export a single BaseFixer subclass instead.
+ */
+export interface EpubFixerPlugin {
+    name: string;
+    version?: string;
+    fixers?: (PluginFixer | FixerConstructor)[];
+    rules?: BuiltinRule[]; // Checked in addition to EpubCheck and ACE
+}
+
+export interface LoadedPlugin {
+    name: string;
+    version?: string;
+    source: string; // The entry in the configuration
+    resolvedPath?: string;
+    fixers: (PluginFixer & { instance: BaseFixer })[];
+    rules: BuiltinRule[];
+    error?: string;
+}
+
+/**
+ * Loads plugins listed in the configuration from npm modules or local paths
+ */
+export class PluginLoader {
+    private logger: Logger;
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+    }
+
+    load(source: string): LoadedPlugin {
+        const loaded: LoadedPlugin = { name: source, source, fixers: [], rules: [] };
+
+        try {
+            loaded.resolvedPath = this.resolve(source);
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            const exported = require(loaded.resolvedPath);
+            const plugin = this.normalize(exported && exported.__esModule && exported.default ? exported.default : exported, source);
+
+            loaded.name = plugin.name;
+            loaded.version = plugin.version;
+
+            for (const entry of plugin.fixers || []) {
+                const registration: PluginFixer = typeof entry === 'function' ? { fixer: entry } : entry;
+                if (!this.isFixerClass(registration.fixer)) {
+                    throw new Error('fixers must be BaseFixer subclasses');
+                }
+                loaded.fixers.push({ ...registration, instance: new registration.fixer(this.logger) });
+            }
+
+            for (const rule of plugin.rules || []) {
+                if (!rule || !rule.id || (!rule.checkDocument && !rule.checkPublication)) {
+                    throw new Error('rules need an id and a checkDocument or checkPublication function');
+                }
+                loaded.rules.push(rule);
+            }
+
+            this.logger.info(`Loaded plugin ${loaded.name} with ${loaded.fixers.length} fixers and ${loaded.rules.length} rules`);
+        } catch (error) {
+            loaded.fixers = [];
+            loaded.rules = [];
+            // Node appends the require stack to the message; the first line says enough
+            loaded.error = (error instanceof Error ? error.message : String(error)).split('\n')[0];
+            this.logger.warn(`Could not load plugin ${source}: ${loaded.error}`);
+        }
+
+        return loaded;
+    }
+
+    /**
+     * Paths are used as they are; module names are looked up from the working directory first
+     */
+    private resolve(source: string): string {
+        if (path.isAbsolute(source) || source.startsWith('.')) {
+            return require.resolve(path.resolve(source));
+        }
+        try {
+            return require.resolve(source, { paths: [process.cwd()] });
+        } catch (error) {
+            return require.resolve(source);
+        }
+    }
+
+    private normalize(exported: any, source: string): EpubFixerPlugin {
+        // Unnamed plugins loaded from a path are named after the file
+        const defaultName = path.isAbsolute(source) || source.startsWith('.') ? path.basename(source, path.extname(source)) : source;
+
+        if (this.isFixerClass(exported)) {
+            return { name: defaultName, fixers: [exported] };
+        }
+        if (!exported || typeof exported !== 'object' || (!exported.fixers && !exported.rules)) {
+            throw new Error('module does not export a plugin (an object with fixers or rules) or a BaseFixer subclass');
+        }
+        return { ...exported, name: exported.name || defaultName };
+    }
+
+    // Plugins may bring their own copy of this package, so check the shape rather than instanceof
+    private isFixerClass(value: any): value is FixerConstructor {
+        const prototype = value && value.prototype;
+        return typeof value === 'function' && !!prototype &&
+            ['getFixerId', 'getFixerName', 'getHandledCodes', 'canFix', 'fix'].every(method => typeof prototype[method] === 'function');
+    }
+}
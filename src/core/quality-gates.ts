@@ -0,0 +1,111 @@
+import { AnalysisResult, CliOptions } from '../types';
+
+/**
+ * Process exit codes of the main command. When several thresholds fail,
+ * the code of the first failing check in this order is used.
+ */
+export const ExitCode = {
+    SUCCESS: 0,
+    PROCESSING_ERROR: 1,
+    SEVERITY_THRESHOLD: 2,
+    ACCESSIBILITY_SCORE: 3,
+    VALIDATION_ERRORS: 4
+} as const;
+
+export type Severity = 'critical' | 'major' | 'minor';
+
+const SEVERITY_ORDER: Severity[] = ['critical', 'major', 'minor'];
+
+export interface QualityGateFailure {
+    gate: 'fail-on' | 'min-accessibility-score' | 'max-validation-errors' | 'verify';
+    exitCode: number;
+    message: string;
+}
+
+export interface QualityGateResult {
+    passed: boolean;
+    exitCode: number;
+    failures: QualityGateFailure[];
+}
+
+export function isSeverity(value: string): value is Severity {
+    return (SEVERITY_ORDER as string[]).includes(value);
+}
+
+/**
+ * Check a processed EPUB against the --fail-on, --min-accessibility-score and
+ * --max-validation-errors thresholds. Only issues that are still unfixed count.
+ *
+ * verification is the result of the --verify re-check of the fixed EPUB, or null if that re-check failed.
+ * What it finds is checked against the same thresholds, since it is what the fixed EPUB really contains.
+ */
+export function evaluateQualityGates(
+    result: AnalysisResult,
+    options: CliOptions,
+    verification?: AnalysisResult | null
+): QualityGateResult {
+    const failures = checkThresholds(result, options, '');
+    if (verification === null) {
+        failures.push({
+            gate: 'verify',
+            exitCode: ExitCode.PROCESSING_ERROR,
+            message: 'Verification of the fixed EPUB failed'
+        });
+    } else if (verification) {
+        failures.push(...checkThresholds(verification, options, 'After verification: '));
+    }
+    // The lowest code wins; sort is stable, so failures with the same code keep their order
+    failures.sort((a, b) => a.exitCode - b.exitCode);
+
+    return {
+        passed: failures.length === 0,
+        exitCode: failures.length > 0 ? failures[0].exitCode : ExitCode.SUCCESS,
+        failures
+    };
+}
+
+function checkThresholds(result: AnalysisResult, options: CliOptions, prefix: string): QualityGateFailure[] {
+    const failures: QualityGateFailure[] = [];
+    const remaining = result.summary.remainingIssues;
+
+    if (options.failOn) {
+        const severities = SEVERITY_ORDER.slice(0, SEVERITY_ORDER.indexOf(options.failOn) + 1);
+        const count = severities.reduce((sum, severity) => sum + remaining[severity], 0);
+        if (count > 0) {
+            failures.push({
+                gate: 'fail-on',
+                exitCode: ExitCode.SEVERITY_THRESHOLD,
+                message: `${prefix}${count} unfixed ${severities.join('/')} issue(s) remain`
+            });
+        }
+    }
+
+    if (options.minAccessibilityScore !== undefined) {
+        const score = result.accessibility.score;
+        if (score === undefined && options.skipAccessibility) {
+            failures.push({
+                gate: 'min-accessibility-score',
+                exitCode: ExitCode.ACCESSIBILITY_SCORE,
+                message: `${prefix}Accessibility score not available because accessibility analysis was skipped`
+            });
+        } else if (score !== undefined && score < options.minAccessibilityScore) {
+            failures.push({
+                gate: 'min-accessibility-score',
+                exitCode: ExitCode.ACCESSIBILITY_SCORE,
+                message: `${prefix}Accessibility score ${score} is below the minimum of ${options.minAccessibilityScore}`
+            });
+        }
+    }
+
+    if (options.maxValidationErrors !== undefined &&
+        result.summary.remainingValidationErrors > options.maxValidationErrors) {
+        failures.push({
+            gate: 'max-validation-errors',
+            exitCode: ExitCode.VALIDATION_ERRORS,
+            message: `${prefix}${result.summary.remainingValidationErrors} validation error(s) remain, ` +
+                `more than the maximum of ${options.maxValidationErrors}`
+        });
+    }
+
+    return failures;
+}
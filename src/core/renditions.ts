@@ -0,0 +1,226 @@
+import * as cheerio from 'cheerio';
+import { MappedLocation, ProcessingContext, Rendition, RenditionMapping, RenditionSelection, RenditionSummary, ValidationIssue } from '../types';
+import { resolveHref } from './path-resolver';
+
+export const PACKAGE_MEDIA_TYPE = 'application/oebps-package+xml';
+
+/**
+ * A rootfile entry of container.xml
+ */
+export interface Rootfile {
+    fullPath: string;
+    mediaType: string;
+    selection: RenditionSelection;
+}
+
+/**
+ * Every package document rootfile in container.xml, in document order. Rootfiles with another media type,
+ * such as a PDF alternative, are left out.
+ */
+export function parseRootfiles(containerXml: string): Rootfile[] {
+    const $ = cheerio.load(containerXml, { xmlMode: true });
+    return $('rootfiles > rootfile').toArray()
+        .map(element => {
+            const attribs = (element as any).attribs || {};
+            return {
+                fullPath: attribs['full-path'] || '',
+                mediaType: attribs['media-type'] || PACKAGE_MEDIA_TYPE,
+                selection: {
+                    media: attribs['rendition:media'],
+                    layout: attribs['rendition:layout'],
+                    language: attribs['rendition:language'],
+                    accessMode: attribs['rendition:accessMode'],
+                    label: attribs['rendition:label']
+                }
+            };
+        })
+        .filter(rootfile => rootfile.fullPath && rootfile.mediaType === PACKAGE_MEDIA_TYPE);
+}
+
+/**
+ * Path of the rendition mapping document linked from container.xml, if there is one
+ */
+export function findMappingPath(containerXml: string): string | null {
+    const $ = cheerio.load(containerXml, { xmlMode: true });
+    const link = $('links > link').toArray().find(element => ((element as any).attribs.rel || '').split(/\s+/).includes('mapping'));
+    // Container links are relative to the root of the container, not to META-INF
+    return link ? resolveHref((link as any).attribs.href || '', '') : null;
+}
+
+export function describeRendition(selection: RenditionSelection, index: number): string {
+    if (selection.label) {
+        return selection.label;
+    }
+    const layout = selection.layout === 'pre-paginated' ? 'fixed layout' : selection.layout;
+    const details = [layout, selection.media, selection.language, selection.accessMode].filter(Boolean).join(', ');
+    return `Rendition ${index + 1}${details ? ` (${details})` : ''}`;
+}
+
+// Container paths of the files each rendition's manifest lists, with its package document
+const renditionFiles = new WeakMap<Rendition, Set<string>>();
+
+function getRenditionFiles(rendition: Rendition): Set<string> {
+    let files = renditionFiles.get(rendition);
+    if (!files) {
+        files = new Set([rendition.packagePath]);
+        for (const item of rendition.manifest.items) {
+            const filePath = resolveHref(item.href, rendition.packagePath);
+            if (filePath) {
+                files.add(filePath);
+            }
+        }
+        renditionFiles.set(rendition, files);
+    }
+    return files;
+}
+
+/**
+ * The first rendition whose manifest lists the file. Files shared by several renditions, such as
+ * images or style sheets, belong to the first.
+ */
+export function findRendition(context: ProcessingContext, filePath: string): Rendition | undefined {
+    return (context.renditions || []).find(rendition => getRenditionFiles(rendition).has(filePath));
+}
+
+/**
+ * Whether checks and fixes for a rendition cover the file. Files no manifest lists, other than the
+ * rendition mapping document, are covered by the default rendition.
+ */
+export function isInRendition(context: ProcessingContext, rendition: Rendition, filePath: string): boolean {
+    const owner = findRendition(context, filePath);
+    if (owner) {
+        return owner === rendition;
+    }
+    return rendition.index === 0 && filePath !== context.renditionMapping?.path;
+}
+
+/**
+ * A context whose manifest, metadata and package document are the rendition's. Contents, issues
+ * and fixes are shared with the publication's context.
+ */
+export function renditionContext(context: ProcessingContext, rendition: Rendition): ProcessingContext {
+    // Fixers add to this list, so it has to exist before it is shared
+    if (!context.aiImageAnalyses) {
+        context.aiImageAnalyses = [];
+    }
+    return {
+        ...context,
+        manifest: rendition.manifest,
+        metadata: rendition.metadata,
+        packagePath: rendition.packagePath,
+        rendition
+    };
+}
+
+/**
+ * Context for working on a file: the context of the rendition it belongs to in multi-rendition EPUBs
+ */
+export function contextForFile(context: ProcessingContext, filePath?: string): ProcessingContext {
+    if (context.rendition || !context.renditions || context.renditions.length < 2 || !filePath) {
+        return context;
+    }
+    const rendition = findRendition(context, filePath);
+    return rendition ? renditionContext(context, rendition) : context;
+}
+
+/**
+ * Context for fixing an issue: the context of the rendition it was attributed to
+ */
+export function contextForIssue(context: ProcessingContext, issue: ValidationIssue): ProcessingContext {
+    const rendition = issue.rendition && !context.rendition ?
+        (context.renditions || []).find(candidate => candidate.id === issue.rendition) : undefined;
+    return rendition ? renditionContext(context, rendition) : context;
+}
+
+/**
+ * Read the resource map of a rendition mapping document: each list in it is one set of equivalent
+ * locations. Links to files that aren't in any rendition are skipped.
+ */
+export function parseRenditionMapping(context: ProcessingContext, mappingPath: string): RenditionMapping | null {
+    const content = context.contents.get(mappingPath);
+    if (!content || typeof content.content !== 'string') {
+        return null;
+    }
+
+    const $ = cheerio.load(content.content, { xmlMode: true });
+    const locations: MappedLocation[][] = [];
+    $('nav').filter((_, nav) => ($(nav).attr('epub:type') || '').split(/\s+/).includes('resource-map')).find('ul').each((_, list) => {
+        const set: MappedLocation[] = [];
+        $(list).children('li').children('a[href]').each((_, link) => {
+            const href = $(link).attr('href') || '';
+            const file = resolveHref(href, mappingPath);
+            const rendition = file ? findRendition(context, file) : undefined;
+            if (file && rendition) {
+                set.push({ rendition: rendition.id, file, fragment: href.split('#')[1] || undefined });
+            }
+        });
+        if (set.length > 1) {
+            locations.push(set);
+        }
+    });
+
+    return { path: mappingPath, locations };
+}
+
+/**
+ * Set the rendition of each issue, and where the mapping document has them, the equivalent locations
+ * in the other renditions. Does nothing for single-rendition EPUBs.
+ */
+export function attributeIssues(issues: ValidationIssue[], context: ProcessingContext): void {
+    const renditions = context.renditions || [];
+    if (renditions.length < 2) {
+        return;
+    }
+
+    for (const issue of issues) {
+        const file = issue.location?.file;
+        const rendition = file ? renditions.find(candidate => isInRendition(context, candidate, file)) : undefined;
+        if (!file || !rendition) {
+            continue;
+        }
+        issue.rendition = rendition.id;
+
+        const equivalents = findEquivalentLocations(context, rendition.id, file, issue.location?.selector);
+        if (equivalents.length > 0) {
+            issue.equivalentLocations = equivalents;
+        }
+    }
+}
+
+/**
+ * Issue counts per rendition for reports, or undefined for single-rendition EPUBs
+ */
+export function summarizeRenditions(context: ProcessingContext, issues: ValidationIssue[]): RenditionSummary[] | undefined {
+    if (!context.renditions || context.renditions.length < 2) {
+        return undefined;
+    }
+    return context.renditions.map(rendition => {
+        const renditionIssues = issues.filter(issue => issue.rendition === rendition.id);
+        return {
+            id: rendition.id,
+            label: rendition.label,
+            packagePath: rendition.packagePath,
+            title: rendition.metadata.title,
+            issues: renditionIssues.length,
+            fixedIssues: renditionIssues.filter(issue => issue.fixed === true).length
+        };
+    });
+}
+
+// A selector that starts at an id narrows the match to mapping entries for that fragment
+function findEquivalentLocations(context: ProcessingContext, renditionId: string, file: string, selector?: string): MappedLocation[] {
+    const sets = (context.renditionMapping?.locations || []).filter(set => set.some(location =>
+        location.rendition === renditionId && location.file === file));
+    const id = selector?.match(/^#([\w-]+)/)?.[1];
+    const narrowed = id ? sets.filter(set => set.some(location => location.file === file && location.fragment === id)) : [];
+
+    const equivalents = new Map<string, MappedLocation>();
+    for (const set of narrowed.length > 0 ? narrowed : sets) {
+        for (const location of set) {
+            if (location.rendition !== renditionId) {
+                equivalents.set(`${location.file}#${location.fragment || ''}`, location);
+            }
+        }
+    }
+    return Array.from(equivalents.values());
+}
@@ -0,0 +1,197 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { Logger } from '../utils/common';
+import { FixerConfig } from '../types';
+
+// Part of every key, so entries written in an older format are not read
+const CACHE_FORMAT = 1;
+
+// Settings that change what the fixers do, but not what EpubCheck and ACE report. The fixer selection
+// (enabledFixers, fixers and fixerGroups, and the accessibility and validation toggles) is among them.
+const FIX_ONLY_CONFIG_KEYS = [
+    'enabledFixers', 'fixers', 'fixerGroups', 'accessibility', 'validation', 'preserveFormatting', 'epubcheckDaemon',
+    'toolTimeouts', 'cacheDir'
+];
+
+const ENTRY_NAME = /^[0-9a-f]{64}\.json$/;
+
+const DEFAULT_MAX_ENTRIES = 2000;
+const DEFAULT_MAX_BYTES = 256 * 1024 * 1024;
+
+export type CachedTool = 'epubcheck' | 'ace';
+
+/**
+ * What a cached tool result depends on
+ */
+export interface ResultCacheKey {
+    epubHash: string; // SHA-256 of the checked EPUB file
+    tool: CachedTool;
+    toolVersion: string;
+    configHash: string;
+}
+
+/**
+ * How much the cache keeps. The least recently used entries are removed beyond either limit.
+ */
+export interface ResultCacheLimits {
+    maxEntries: number;
+    maxBytes: number;
+}
+
+/**
+ * ~/.cache/epub-fix, or epub-fix in XDG_CACHE_HOME
+ */
+export function defaultCacheDir(): string {
+    return path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'epub-fix');
+}
+
+/**
+ * Hash of the configuration settings that can change the checks. Fixer settings are left out,
+ * so trying out fixer settings on the same book reuses the checks.
+ */
+export function hashCheckConfig(config: FixerConfig | undefined): string {
+    const relevant: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(config || {})) {
+        if (!FIX_ONLY_CONFIG_KEYS.includes(key)) {
+            relevant[key] = value;
+        }
+    }
+    return crypto.createHash('sha256').update(stableStringify(relevant)).digest('hex');
+}
+
+/**
+ * Parsed EpubCheck and ACE results stored on disk, one JSON file per key, so re-running on an unchanged
+ * EPUB doesn't run the tools again. Writes go through a temporary file and a rename, so processes
+ * sharing the directory, like batch workers, never read a partly written entry.
+ *
+ * An entry's modification time is when it was last written or read. After each write, the least
+ * recently used entries beyond the limits are removed.
+ */
+export class ResultCache {
+    private logger: Logger;
+    private dir: string;
+    private limits: ResultCacheLimits;
+
+    constructor(logger: Logger, dir: string = defaultCacheDir(), limits: Partial<ResultCacheLimits> = {}) {
+        this.logger = logger;
+        this.dir = dir;
+        this.limits = { maxEntries: DEFAULT_MAX_ENTRIES, maxBytes: DEFAULT_MAX_BYTES, ...limits };
+    }
+
+    getDir(): string {
+        return this.dir;
+    }
+
+    async get<T>(key: ResultCacheKey): Promise<T | null> {
+        const entryPath = this.entryPath(key);
+        try {
+            if (!(await fs.pathExists(entryPath))) {
+                return null;
+            }
+            const entry = await fs.readJson(entryPath);
+            if (entry?.format !== CACHE_FORMAT) {
+                return null;
+            }
+            const now = new Date();
+            await fs.utimes(entryPath, now, now).catch(() => undefined);
+            return entry.result as T;
+        } catch (error) {
+            this.logger.warn(`Ignoring unreadable cache entry ${entryPath}: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Store a result. Failing to write the cache is logged and otherwise ignored.
+     */
+    async set<T>(key: ResultCacheKey, result: T): Promise<void> {
+        const entryPath = this.entryPath(key);
+        const tempPath = `${entryPath}.${process.pid}.${Math.random().toString(36).substring(2, 8)}.tmp`;
+        try {
+            await fs.ensureDir(this.dir);
+            await fs.writeJson(tempPath, { format: CACHE_FORMAT, ...key, createdAt: new Date().toISOString(), result });
+            await fs.rename(tempPath, entryPath);
+        } catch (error) {
+            this.logger.warn(`Could not write cache entry ${entryPath}: ${error}`);
+            await fs.remove(tempPath).catch(() => undefined);
+            return;
+        }
+        await this.prune();
+    }
+
+    /**
+     * Remove the least recently used entries beyond the limits and return how many were removed.
+     * Entries another process removes at the same time are skipped.
+     */
+    async prune(): Promise<number> {
+        let names: string[];
+        try {
+            names = (await fs.readdir(this.dir)).filter(name => ENTRY_NAME.test(name));
+        } catch {
+            return 0;
+        }
+
+        const entries: Array<{ name: string; size: number; used: number }> = [];
+        for (const name of names) {
+            try {
+                const stats = await fs.stat(path.join(this.dir, name));
+                entries.push({ name, size: stats.size, used: stats.mtimeMs });
+            } catch {
+                // Removed by another process
+            }
+        }
+
+        entries.sort((a, b) => b.used - a.used);
+        let kept = 0;
+        let bytes = 0;
+        let removed = 0;
+        for (const entry of entries) {
+            if (kept < this.limits.maxEntries && bytes + entry.size <= this.limits.maxBytes) {
+                kept++;
+                bytes += entry.size;
+                continue;
+            }
+            await fs.remove(path.join(this.dir, entry.name)).catch(() => undefined);
+            removed++;
+        }
+        if (removed > 0) {
+            this.logger.info(`Removed ${removed} least recently used cache entries from ${this.dir}`);
+        }
+        return removed;
+    }
+
+    /**
+     * Remove all cache entries and return how many there were. Other files in the directory are left alone.
+     */
+    async clear(): Promise<number> {
+        if (!(await fs.pathExists(this.dir))) {
+            return 0;
+        }
+        const entries = (await fs.readdir(this.dir)).filter(name => ENTRY_NAME.test(name));
+        for (const name of entries) {
+            await fs.remove(path.join(this.dir, name));
+        }
+        return entries.length;
+    }
+
+    private entryPath(key: ResultCacheKey): string {
+        const parts = [CACHE_FORMAT, key.epubHash, key.tool, key.toolVersion, key.configHash];
+        return path.join(this.dir, `${crypto.createHash('sha256').update(parts.join('\u0000')).digest('hex')}.json`);
+    }
+}
+
+// JSON with object keys sorted, so the same settings always hash the same
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value).sort()
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
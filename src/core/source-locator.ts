@@ -0,0 +1,208 @@
+import * as cheerio from 'cheerio';
+import { FixDetail, ProcessingContext, ValidationIssue } from '../types';
+import { Logger } from '../utils/common';
+import { EpubCfi } from '../utils/epub-cfi';
+import { EpubPathResolver } from './path-resolver';
+import { contextForFile } from './renditions';
+import { elementAtOffset, getLineIndex, LineIndex, locateNode, parseWithPositions } from '../utils/source-locations';
+
+type CheerioStatic = ReturnType<typeof cheerio.load>;
+type Node = any;
+
+const MARKUP_FILE = /\.(x?html?|opf|ncx|xml|svg|smil)$/i;
+
+/**
+ * Fills in line, column, xpath, selector, CFI and excerpt for issues reported by external tools and for fix details.
+ * Built-in rules locate their issues themselves.
+ */
+export class SourceLocator {
+    private logger: Logger;
+    private paths: EpubPathResolver;
+    private cfi: Map<string, { packageText?: string | Buffer; manifest: ProcessingContext['manifest']; generator: EpubCfi | null }> = new Map();
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+        this.paths = new EpubPathResolver(logger);
+    }
+
+    /**
+     * Complete the locations of issues from the text they were found in. EpubCheck reports line and column,
+     * which gain the element's xpath and selector; ACE reports a selector, which gains line and column.
+     * Issues in spine documents that can't be narrowed to an element get the document's CFI.
+     * Returns the number of issues located.
+     */
+    locateIssues(issues: ValidationIssue[], context: ProcessingContext): number {
+        const contents = context.contents;
+        const documents = new Map<string, CheerioStatic | null>();
+        let located = 0;
+
+        for (const issue of issues) {
+            const location = issue.location;
+            const filePath = location?.file ? this.paths.resolveReportedPath(context, location.file).path : null;
+            if (!location || !filePath) {
+                continue;
+            }
+            const cfi = this.getCfi(contextForFile(context, filePath));
+            if (location.xpath || !(location.selector || (location.line && location.line > 0))) {
+                const documentCfi = location.cfi ? null : cfi?.generate(filePath);
+                if (documentCfi) {
+                    issue.location = { ...location, cfi: documentCfi };
+                }
+                continue;
+            }
+            if (!documents.has(filePath)) {
+                documents.set(filePath, this.parse(filePath, contents.get(filePath)!.content));
+            }
+            const $ = documents.get(filePath);
+            if (!$) {
+                continue;
+            }
+
+            let node: Node | null = null;
+            if (location.line && location.line > 0) {
+                node = this.elementAtPosition($, location.line, location.column);
+            } else {
+                node = this.select($, location.selector!)[0] || null;
+            }
+
+            const found = node && locateNode(node);
+            if (found) {
+                issue.location = {
+                    ...location,
+                    line: location.line && location.line > 0 ? location.line : found.line,
+                    column: location.line && location.line > 0 ? location.column : found.column,
+                    xpath: found.xpath,
+                    selector: location.selector || found.selector
+                };
+                issue.excerpt = found.excerpt;
+                located++;
+            }
+            const elementCfi = cfi?.generate(filePath, node || undefined);
+            if (elementCfi) {
+                issue.location = { ...issue.location, cfi: elementCfi };
+            }
+        }
+
+        if (located > 0) {
+            this.logger.info(`Located ${located} issues in their source files`);
+        }
+        return located;
+    }
+
+    /**
+     * Locate the details of a fix in the text right after the fix. Each detail is matched to the element
+     * its selector or element/attribute/value describes, preferring elements inside the changed text,
+     * and otherwise to the element around the first change.
+     */
+    locateFixDetails(details: FixDetail[], filePath: string, before: string, after: string, context: ProcessingContext): void {
+        const pending = details.filter(detail => detail.line === undefined);
+        if (pending.length === 0) {
+            return;
+        }
+        const cfi = this.getCfi(contextForFile(context, filePath));
+
+        // The changed part of `after`, from the first to the last character that differs from `before`
+        let start = 0;
+        while (start < before.length && start < after.length && before[start] === after[start]) {
+            start++;
+        }
+        let suffix = 0;
+        while (suffix < after.length - start && suffix < before.length - start &&
+            after[after.length - 1 - suffix] === before[before.length - 1 - suffix]) {
+            suffix++;
+        }
+        const end = after.length - suffix;
+
+        const $ = this.parse(filePath, after);
+        if (!$) {
+            // Not markup: the position of the change is all there is
+            const index = new LineIndex(after);
+            const position = index.position(start);
+            pending.forEach(detail => Object.assign(detail, position, { excerpt: index.excerpt(position), cfi: cfi?.generate(filePath) || undefined }));
+            return;
+        }
+
+        for (const detail of pending) {
+            const candidates = this.findCandidates($, detail);
+            const node = candidates.find(candidate => candidate.startIndex <= end && start <= candidate.endIndex) ||
+                (candidates.length === 1 ? candidates[0] : null) ||
+                elementAtOffset($, start);
+
+            const found = node && locateNode(node);
+            if (found) {
+                detail.line = found.line;
+                detail.column = found.column;
+                detail.xpath = found.xpath;
+                detail.selector = detail.selector || found.selector;
+                detail.cfi = cfi?.generate(filePath, node) || undefined;
+                detail.excerpt = found.excerpt;
+            }
+        }
+    }
+
+    // One generator per rendition, rebuilt only when its manifest or package document changes
+    private getCfi(context: ProcessingContext): EpubCfi | null {
+        const key = context.packagePath || '';
+        const packageText = context.packagePath ? context.contents.get(context.packagePath)?.content : undefined;
+        const cached = this.cfi.get(key);
+        if (cached && cached.manifest === context.manifest && cached.packageText === packageText) {
+            return cached.generator;
+        }
+        const generator = EpubCfi.forContext(context);
+        this.cfi.set(key, { packageText, manifest: context.manifest, generator });
+        return generator;
+    }
+
+    private findCandidates($: CheerioStatic, detail: FixDetail): Node[] {
+        if (detail.selector) {
+            const selected = this.select($, detail.selector);
+            if (selected.length > 0) {
+                return selected;
+            }
+        }
+
+        // Fixers name the element and the attribute they set, e.g. img/alt or html/lang
+        if (!detail.element || !/^[A-Za-z][\w:-]*$/.test(detail.element)) {
+            return [];
+        }
+        const elements = this.select($, detail.element.replace(/:/g, '\\:'));
+        if (detail.attribute && detail.newValue !== undefined) {
+            const withValue = elements.filter(element => element.attribs?.[detail.attribute!] === detail.newValue);
+            if (withValue.length > 0) {
+                return withValue;
+            }
+        }
+        return elements;
+    }
+
+    private elementAtPosition($: CheerioStatic, line: number, column?: number): Node | null {
+        const index = getLineIndex($.root()[0])!;
+        let offset = index.offset(line, column || 1);
+        // EpubCheck columns point just past the end of the start tag
+        if (offset > 0 && index.text[offset - 1] === '>') {
+            offset--;
+        }
+        return elementAtOffset($, offset);
+    }
+
+    private select($: CheerioStatic, selector: string): Node[] {
+        try {
+            return $(selector).toArray();
+        } catch {
+            // Fixer selectors aren't always valid CSS
+            return [];
+        }
+    }
+
+    private parse(filePath: string, content: string | Buffer): CheerioStatic | null {
+        if (typeof content !== 'string' || !MARKUP_FILE.test(filePath)) {
+            return null;
+        }
+        try {
+            return parseWithPositions(content);
+        } catch (error) {
+            this.logger.warn(`Could not parse ${filePath} to locate issues: ${error}`);
+            return null;
+        }
+    }
+}
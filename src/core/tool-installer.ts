@@ -6,7 +6,9 @@ import * as tar from 'tar';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { Logger } from '../utils/common';
-import * as yauzl from 'yauzl';
+import { ArchiveBudget, ArchiveLimits, UnsafeArchiveError, extractZip, resolveEntryPath } from '../utils/archive-safety';
+import { runTool } from '../utils/process-runner';
+import { InstallableTool, ToolArtifact, loadToolManifest, selectArtifact, verifyArtifact, verifyBundle } from './tool-manifest';
 
 const execAsync = promisify(exec);
 
@@ -19,6 +21,60 @@ export interface ToolInfo {
     path?: string;
 }
 
+export const DEFAULT_EPUBCHECK_VERSION = '5.1.0';
+
+/**
+ * Options for install-tools
+ */
+export interface ToolInstallOptions {
+    from?: string; // Directory or archive of artifacts, for installs without network
+    manifest?: string; // Manifest pinning the artifacts in from, and the archive itself; required with from
+    versions?: { epubcheck?: string; ace?: string };
+    force?: boolean; // Reinstall tools that are already installed
+}
+
+/**
+ * Written to installed.json in a tool's directory, so later runs use the same version and path
+ */
+export interface InstallRecord {
+    name: InstallableTool;
+    version: string;
+    path: string;
+    source: 'download' | 'npm' | 'local';
+    sha256?: string; // Of the local artifact
+    installedAt: string;
+}
+
+/**
+ * What the tools status command reports for a tool
+ */
+export interface ToolStatus {
+    name: InstallableTool;
+    installed: boolean;
+    path?: string;
+    pinnedVersion?: string; // The version that was installed, or that the manifest lists
+    detectedVersion?: string; // The version the tool reports
+    source?: InstallRecord['source'] | 'global';
+    warnings: string[];
+}
+
+/**
+ * What the tools status command reports
+ */
+export interface ToolsStatusReport {
+    java: { available: boolean; version?: string; warnings: string[] };
+    tools: ToolStatus[];
+}
+
+const INSTALL_RECORD_FILE = 'installed.json';
+
+// Tool bundles, such as DAISY ACE with its node_modules, are much bigger than EPUBs
+const TOOL_ARCHIVE_LIMITS: Partial<ArchiveLimits> = {
+    maxEntries: 200000,
+    maxTotalSize: 4 * 1024 * 1024 * 1024,
+    maxEntrySize: 1024 * 1024 * 1024
+};
+
 export class ExternalToolInstaller {
     private logger: Logger;
     private toolsDir: string;
@@ -32,9 +88,12 @@ export class ExternalToolInstaller {
         await fs.ensureDir(this.toolsDir);
     }
 
-    async getEpubCheckInfo(): Promise<ToolInfo> {
+    /**
+     * The requested version, else the installed one, else DEFAULT_EPUBCHECK_VERSION
+     */
+    async getEpubCheckInfo(requestedVersion?: string): Promise<ToolInfo> {
         const platform = os.platform();
-        const version = '5.1.0'; // Latest stable version
+        const version = requestedVersion || (await this.readInstallRecord('epubcheck'))?.version || DEFAULT_EPUBCHECK_VERSION;
 
         return {
             name: 'epubcheck',
@@ -45,10 +104,10 @@ export class ExternalToolInstaller {
         };
     }
 
-    async getDaisyAceInfo(): Promise<ToolInfo> {
+    async getDaisyAceInfo(requestedVersion?: string): Promise<ToolInfo> {
         return {
             name: 'daisy-ace',
-            version: 'latest',
+            version: requestedVersion || (await this.readInstallRecord('daisy-ace'))?.version || 'latest',
             downloadUrl: 'npm:@daisy/ace',
             executable: 'ace',
             installed: false
@@ -59,6 +118,14 @@ export class ExternalToolInstaller {
         try {
             const toolPath = path.join(this.toolsDir, tool.name);
 
+            // A tool installed by install-tools is used from where it was installed, if it is the version asked for
+            const record = await this.readInstallRecord(tool.name as InstallableTool);
+            if (record && (record.version === tool.version || tool.version === 'latest') && await fs.pathExists(record.path)) {
+                tool.path = record.path;
+                tool.installed = true;
+                return true;
+            }
+
             if (tool.name === 'epubcheck') {
                 const execPath = path.join(toolPath, 'epubcheck-' + tool.version, tool.executable);
                 const exists = await fs.pathExists(execPath);
@@ -68,8 +135,11 @@ export class ExternalToolInstaller {
                     return true;
                 }
             } else if (tool.name === 'daisy-ace') {
-                // Check if ace is available in global npm
+                // Check if ace is available in global npm, unless a specific version was asked for
                 try {
+                    if (tool.version !== 'latest') {
+                        throw new Error('Version pinned');
+                    }
                     await execAsync('npm list -g @daisy/ace');
                     tool.installed = true;
                     tool.path = 'ace'; // Global command
@@ -78,7 +148,7 @@ export class ExternalToolInstaller {
                     // Check local installation
                     const localPath = path.join(toolPath, 'node_modules', '.bin', 'ace');
                     const exists = await fs.pathExists(localPath);
-                    if (exists) {
+                    if (exists && (tool.version === 'latest' || await this.readAceVersion(toolPath) === tool.version)) {
                         tool.path = localPath;
                         tool.installed = true;
                         return true;
@@ -115,61 +185,63 @@ export class ExternalToolInstaller {
                 writer.on('error', reject);
             });
 
-            // Extract the ZIP file using yauzl
-            await this.extractZipFile(zipPath, toolPath);
-
-            // Clean up ZIP file
-            await fs.remove(zipPath);
-
-            // Verify installation
-            const execPath = path.join(toolPath, `epubcheck-${tool.version}`, tool.executable);
-            const exists = await fs.pathExists(execPath);
-
-            if (exists) {
-                // Make executable on Unix systems
-                if (os.platform() !== 'win32') {
-                    await fs.chmod(execPath, '755');
-                }
-
-                tool.path = execPath;
-                tool.installed = true;
-                this.logger.success(`Successfully installed ${tool.name}`);
-                return true;
-            } else {
-                // Try to list what was actually extracted to help debug
-                try {
-                    const extractedFiles = await fs.readdir(toolPath);
-                    this.logger.warn(`Expected file not found. Extracted files: ${extractedFiles.join(', ')}`);
-
-                    // Check if there's a differently named directory
-                    for (const file of extractedFiles) {
-                        const filePath = path.join(toolPath, file);
-                        const stat = await fs.stat(filePath);
-                        if (stat.isDirectory() && file.startsWith('epubcheck')) {
-                            const altExecPath = path.join(filePath, tool.executable);
-                            if (await fs.pathExists(altExecPath)) {
-                                if (os.platform() !== 'win32') {
-                                    await fs.chmod(altExecPath, '755');
-                                }
-                                tool.path = altExecPath;
-                                tool.installed = true;
-                                this.logger.success(`Successfully installed ${tool.name} (found in ${file})`);
-                                return true;
-                            }
-                        }
-                    }
-                } catch (listError) {
-                    this.logger.warn(`Could not list extracted files: ${listError}`);
-                }
-
-                throw new Error(`Installation verification failed: ${execPath} not found`);
+            try {
+                await this.installEpubCheckArchive(tool, zipPath, 'download');
+            } finally {
+                // Clean up ZIP file
+                await fs.remove(zipPath);
             }
+            return true;
         } catch (error) {
             this.logger.error(`Failed to install ${tool.name}: ${error}`);
             return false;
         }
     }
 
+    /**
+     * Extract an EpubCheck release ZIP into the tools directory and record the installation
+     */
+    private async installEpubCheckArchive(tool: ToolInfo, zipPath: string, source: InstallRecord['source'], sha256?: string): Promise<void> {
+        const toolPath = path.join(this.toolsDir, tool.name);
+        await fs.ensureDir(toolPath);
+
+        await extractZip(zipPath, toolPath);
+
+        // Verify installation
+        let execPath = path.join(toolPath, `epubcheck-${tool.version}`, tool.executable);
+        if (!(await fs.pathExists(execPath))) {
+            // Try to list what was actually extracted to help debug
+            const extractedFiles = await fs.readdir(toolPath);
+            this.logger.warn(`Expected file not found. Extracted files: ${extractedFiles.join(', ')}`);
+
+            // Check if there's a differently named directory
+            let found: string | null = null;
+            for (const file of extractedFiles) {
+                const filePath = path.join(toolPath, file);
+                const stat = await fs.stat(filePath);
+                if (stat.isDirectory() && file.startsWith('epubcheck') && await fs.pathExists(path.join(filePath, tool.executable))) {
+                    found = path.join(filePath, tool.executable);
+                    this.logger.info(`Found ${tool.executable} in ${file}`);
+                    break;
+                }
+            }
+            if (!found) {
+                throw new Error(`Installation verification failed: ${execPath} not found`);
+            }
+            execPath = found;
+        }
+
+        // Make executable on Unix systems
+        if (os.platform() !== 'win32') {
+            await fs.chmod(execPath, '755');
+        }
+
+        await this.writeInstallRecord({ name: 'epubcheck', version: tool.version, path: execPath, source, sha256, installedAt: new Date().toISOString() });
+        tool.path = execPath;
+        tool.installed = true;
+        this.logger.success(`Successfully installed ${tool.name} v${tool.version}`);
+    }
+
     async installDaisyAce(tool: ToolInfo): Promise<boolean> {
         try {
             this.logger.info(`Installing ${tool.name}...`);
@@ -182,7 +254,7 @@ export class ExternalToolInstaller {
                 name: 'daisy-ace-local',
                 version: '1.0.0',
                 dependencies: {
-                    '@daisy/ace': 'latest'
+                    '@daisy/ace': tool.version
                 }
             };
 
@@ -196,9 +268,12 @@ export class ExternalToolInstaller {
             const exists = await fs.pathExists(execPath);
 
             if (exists) {
+                // Record the version npm resolved, so "latest" stays what was installed
+                tool.version = await this.readAceVersion(toolPath) || tool.version;
+                await this.writeInstallRecord({ name: 'daisy-ace', version: tool.version, path: execPath, source: 'npm', installedAt: new Date().toISOString() });
                 tool.path = execPath;
                 tool.installed = true;
-                this.logger.success(`Successfully installed ${tool.name}`);
+                this.logger.success(`Successfully installed ${tool.name} v${tool.version}`);
                 return true;
             } else {
                 throw new Error('Installation verification failed');
@@ -209,15 +284,61 @@ export class ExternalToolInstaller {
         }
     }
 
-    async installAllTools(): Promise<{ epubcheck: ToolInfo; daisyAce: ToolInfo }> {
+    /**
+     * Install DAISY ACE from a bundle made by running `npm install @daisy/ace@<version>` in an empty directory
+     * and packing that directory. The bundle must contain the version the manifest lists.
+     */
+    private async installDaisyAceBundle(tool: ToolInfo, bundlePath: string, sha256: string): Promise<void> {
+        const toolPath = path.join(this.toolsDir, tool.name);
+        const staging = await fs.mkdtemp(path.join(this.toolsDir, `.${tool.name}-`));
+
+        try {
+            await this.extractArchive(bundlePath, staging);
+
+            const root = await this.findAceRoot(staging);
+            if (!root) {
+                throw new Error(`${path.basename(bundlePath)} does not contain node_modules/@daisy/ace`);
+            }
+            const bundledVersion = await this.readAceVersion(root);
+            if (bundledVersion !== tool.version) {
+                throw new Error(`${path.basename(bundlePath)} contains @daisy/ace ${bundledVersion}, but the manifest lists ${tool.version}`);
+            }
+            if (!(await fs.pathExists(path.join(root, 'node_modules', '.bin', 'ace')))) {
+                throw new Error(`${path.basename(bundlePath)} has no node_modules/.bin/ace`);
+            }
+
+            await fs.remove(toolPath);
+            await fs.move(root, toolPath);
+        } finally {
+            await fs.remove(staging);
+        }
+
+        const execPath = path.join(toolPath, 'node_modules', '.bin', 'ace');
+        await this.writeInstallRecord({ name: 'daisy-ace', version: tool.version, path: execPath, source: 'local', sha256, installedAt: new Date().toISOString() });
+        tool.path = execPath;
+        tool.installed = true;
+        this.logger.success(`Successfully installed ${tool.name} v${tool.version}`);
+    }
+
+    /**
+     * Install the tools that are missing, by downloading them or, with options.from, from local artifacts.
+     * failed lists the tools that could not be installed.
+     */
+    async installAllTools(options: ToolInstallOptions = {}): Promise<{ epubcheck: ToolInfo; daisyAce: ToolInfo; failed: InstallableTool[] }> {
         await this.initializeToolsDirectory();
 
-        const epubcheck = await this.getEpubCheckInfo();
-        const daisyAce = await this.getDaisyAceInfo();
+        if (options.from) {
+            return this.installFromLocal(options);
+        }
+
+        const epubcheck = await this.getEpubCheckInfo(options.versions?.epubcheck);
+        const daisyAce = await this.getDaisyAceInfo(options.versions?.ace);
 
         // Check existing installations
-        await this.checkToolInstallation(epubcheck);
-        await this.checkToolInstallation(daisyAce);
+        if (!options.force) {
+            await this.checkToolInstallation(epubcheck);
+            await this.checkToolInstallation(daisyAce);
+        }
 
         // Install missing tools
         if (!epubcheck.installed) {
@@ -232,53 +353,277 @@ export class ExternalToolInstaller {
             this.logger.info(`${daisyAce.name} is already installed`);
         }
 
-        return { epubcheck, daisyAce };
+        const failed: InstallableTool[] = [];
+        if (!epubcheck.installed) {
+            failed.push('epubcheck');
+        }
+        if (!daisyAce.installed) {
+            failed.push('daisy-ace');
+        }
+        return { epubcheck, daisyAce, failed };
     }
 
-    private async extractZipFile(zipPath: string, extractPath: string): Promise<void> {
-        return new Promise<void>((resolve, reject) => {
-            yauzl.open(zipPath, { lazyEntries: true }, (err, zipfile) => {
-                if (err) {
-                    reject(err);
+    /**
+     * Install from a directory or archive of artifacts listed in a pinned manifest. An archive is checked against
+     * the manifest's bundles before it is extracted, and each artifact's SHA-256 before it is installed.
+     * Tools the manifest doesn't list are left as they are.
+     */
+    private async installFromLocal(options: ToolInstallOptions): Promise<{ epubcheck: ToolInfo; daisyAce: ToolInfo; failed: InstallableTool[] }> {
+        // A manifest that comes with the artifacts would vouch for whatever it was swapped with
+        if (!options.manifest) {
+            throw new Error(`Installing from ${options.from} needs a pinned manifest (--manifest), kept apart from the artifacts`);
+        }
+        const source = path.resolve(options.from!);
+        if (!(await fs.pathExists(source))) {
+            throw new Error(`Tools source not found: ${source}`);
+        }
+
+        const manifest = await loadToolManifest(path.resolve(options.manifest));
+        this.logger.info(`Using tool manifest ${manifest.path}`);
+
+        let root = source;
+        let tempDir: string | null = null;
+        if ((await fs.stat(source)).isFile()) {
+            await verifyBundle(manifest, source);
+            this.logger.info(`SHA-256 of ${path.basename(source)} matches the manifest`);
+            tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'epub-fix-tools-'));
+            this.logger.info(`Extracting ${path.basename(source)}...`);
+            root = tempDir;
+        }
+
+        try {
+            if (tempDir) {
+                await this.extractArchive(source, tempDir);
+            }
+
+            const epubcheckArtifact = selectArtifact(manifest, 'epubcheck', options.versions?.epubcheck);
+            const aceArtifact = selectArtifact(manifest, 'daisy-ace', options.versions?.ace);
+            const epubcheck = await this.getEpubCheckInfo(epubcheckArtifact?.version);
+            const daisyAce = await this.getDaisyAceInfo(aceArtifact?.version);
+            const failed: InstallableTool[] = [];
+
+            const install = async (tool: ToolInfo, artifact: ToolArtifact | null,
+                installArtifact: (filePath: string, sha256: string) => Promise<void>) => {
+                if (!artifact) {
+                    this.logger.warn(`${manifest.path} lists no ${tool.name}; leaving it as it is`);
+                    await this.checkToolInstallation(tool);
                     return;
                 }
+                if (!options.force && await this.checkToolInstallation(tool)) {
+                    this.logger.info(`${tool.name} v${tool.version} is already installed`);
+                    return;
+                }
+                try {
+                    this.logger.info(`Installing ${tool.name} v${tool.version} from ${artifact.file}...`);
+                    const filePath = await verifyArtifact(artifact, root);
+                    this.logger.info(`SHA-256 of ${artifact.file} matches the manifest`);
+                    await installArtifact(filePath, artifact.sha256);
+                } catch (error) {
+                    this.logger.error(`Failed to install ${tool.name}: ${error instanceof Error ? error.message : error}`);
+                    tool.installed = false;
+                    failed.push(tool.name as InstallableTool);
+                }
+            };
 
-                zipfile.readEntry();
-                zipfile.on('entry', async (entry) => {
-                    if (/\/$/.test(entry.fileName)) {
-                        // Directory entry
-                        const dirPath = path.join(extractPath, entry.fileName);
-                        await fs.ensureDir(dirPath);
-                        zipfile.readEntry();
-                    } else {
-                        // File entry
-                        const filePath = path.join(extractPath, entry.fileName);
-                        await fs.ensureDir(path.dirname(filePath));
-
-                        zipfile.openReadStream(entry, (err, readStream) => {
-                            if (err) {
-                                reject(err);
-                                return;
-                            }
-
-                            const writeStream = fs.createWriteStream(filePath);
-                            readStream.pipe(writeStream);
-                            writeStream.on('close', () => {
-                                zipfile.readEntry();
-                            });
-                            writeStream.on('error', reject);
-                        });
-                    }
-                });
+            await install(epubcheck, epubcheckArtifact,
+                (filePath, sha256) => this.installEpubCheckArchive(epubcheck, filePath, 'local', sha256));
+            await install(daisyAce, aceArtifact,
+                (filePath, sha256) => this.installDaisyAceBundle(daisyAce, filePath, sha256));
+
+            return { epubcheck, daisyAce, failed };
+        } finally {
+            if (tempDir) {
+                await fs.remove(tempDir);
+            }
+        }
+    }
 
-                zipfile.on('end', () => {
-                    resolve();
-                });
+    /**
+     * Installed versions and paths of the tools and Java, with warnings where a tool doesn't report the version
+     * it was installed as, or the version the manifest pins
+     */
+    async getToolStatus(manifestPath?: string): Promise<ToolsStatusReport> {
+        const manifest = manifestPath ? await loadToolManifest(path.resolve(manifestPath)) : null;
+        const java = await this.detectJavaVersion();
+        const report: ToolsStatusReport = { java: { available: java !== null, version: java || undefined, warnings: [] }, tools: [] };
+
+        if (!java) {
+            report.java.warnings.push('Java was not found; EpubCheck needs Java 8 or later');
+        } else if (javaMajorVersion(java) < 11) {
+            report.java.warnings.push(`Java ${java} is older than 11; --epubcheck-daemon needs Java 11 or later`);
+        }
 
-                zipfile.on('error', reject);
-            });
+        for (const name of ['epubcheck', 'daisy-ace'] as InstallableTool[]) {
+            const record = await this.readInstallRecord(name);
+            const tool = name === 'epubcheck' ? await this.getEpubCheckInfo() : await this.getDaisyAceInfo();
+            const status: ToolStatus = { name, installed: await this.checkToolInstallation(tool), warnings: [] };
+            report.tools.push(status);
+            if (!status.installed) {
+                status.warnings.push(`${name} is not installed; run epub-fix install-tools`);
+                continue;
+            }
+
+            status.path = tool.path;
+            const fromRecord = record && record.path === tool.path;
+            status.source = fromRecord ? record!.source : tool.path === 'ace' ? 'global' : undefined;
+            status.pinnedVersion = fromRecord ? record!.version : undefined;
+            status.detectedVersion = name === 'epubcheck' ?
+                (java ? await this.detectEpubCheckVersion(tool.path!) : undefined) :
+                await this.detectAceVersion(tool.path!);
+
+            if (!status.detectedVersion) {
+                status.warnings.push(`Could not determine the ${name} version`);
+            } else if (status.pinnedVersion && status.detectedVersion !== status.pinnedVersion) {
+                status.warnings.push(`Installed as ${status.pinnedVersion}, but reports ${status.detectedVersion}`);
+            }
+
+            const pinned = manifest?.tools.filter(artifact => artifact.name === name).map(artifact => artifact.version) || [];
+            const version = status.detectedVersion || status.pinnedVersion;
+            if (manifest && pinned.length > 0 && version && !pinned.includes(version)) {
+                status.warnings.push(`${manifest.path} pins ${pinned.join(', ')}, but ${version} is installed`);
+            }
+            if (name === 'daisy-ace' && status.warnings.length > 0 && status.detectedVersion) {
+                // The issue routing table is keyed by ACE rule id
+                status.warnings.push('ACE rule ids change between releases, so issues may not reach the fixers that handle them');
+            }
+        }
+
+        return report;
+    }
+
+    private async detectJavaVersion(): Promise<string | null> {
+        try {
+            const result = await runTool('java', ['-version'], { tool: 'java', timeout: 15000 });
+            // Java prints its version to stderr, e.g. openjdk version "17.0.2" 2022-01-18
+            const match = (result.stderr + result.stdout).match(/version "([^"]+)"/);
+            return match ? match[1] : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private async detectEpubCheckVersion(jarPath: string): Promise<string | undefined> {
+        try {
+            const result = await runTool('java', ['-jar', jarPath, '--version'], { tool: 'epubcheck', timeout: 60000 });
+            // e.g. EPUBCheck v5.1.0
+            return (result.stdout + result.stderr).match(/EPUBCheck v?(\d+(?:\.\d+)+\S*)/i)?.[1];
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async detectAceVersion(acePath: string): Promise<string | undefined> {
+        if (acePath !== 'ace') {
+            // node_modules/.bin/ace in the tool directory
+            return await this.readAceVersion(path.dirname(path.dirname(path.dirname(acePath)))) || undefined;
+        }
+        try {
+            const result = await runTool('ace', ['--version'], { timeout: 30000 });
+            return result.stdout.trim().match(/\d+(?:\.\d+)+\S*/)?.[0];
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Version of the @daisy/ace package installed under dir, or null
+     */
+    private async readAceVersion(dir: string): Promise<string | null> {
+        try {
+            const packageJson = await fs.readJson(path.join(dir, 'node_modules', '@daisy', 'ace', 'package.json'));
+            return typeof packageJson.version === 'string' ? packageJson.version : null;
+        } catch {
+            return null;
+        }
+    }
+
+    // The directory in an extracted ACE bundle that holds node_modules/@daisy/ace
+    private async findAceRoot(dir: string, depth = 0): Promise<string | null> {
+        if (await fs.pathExists(path.join(dir, 'node_modules', '@daisy', 'ace', 'package.json'))) {
+            return dir;
+        }
+        if (depth >= 2) {
+            return null;
+        }
+        for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+            if (entry.isDirectory() && entry.name !== 'node_modules') {
+                const found = await this.findAceRoot(path.join(dir, entry.name), depth + 1);
+                if (found) {
+                    return found;
+                }
+            }
+        }
+        return null;
+    }
+
+    private async readInstallRecord(name: InstallableTool): Promise<InstallRecord | null> {
+        const recordPath = path.join(this.toolsDir, name, INSTALL_RECORD_FILE);
+        try {
+            return await fs.pathExists(recordPath) ? await fs.readJson(recordPath) : null;
+        } catch (error) {
+            this.logger.warn(`Ignoring unreadable ${recordPath}: ${error}`);
+            return null;
+        }
+    }
+
+    private async writeInstallRecord(record: InstallRecord): Promise<void> {
+        await fs.writeJson(path.join(this.toolsDir, record.name, INSTALL_RECORD_FILE), record, { spaces: 2 });
+    }
+
+    /**
+     * Extract a ZIP or tar (optionally gzipped) archive of tools
+     */
+    private async extractArchive(archivePath: string, extractPath: string): Promise<void> {
+        if (/\.zip$/i.test(archivePath)) {
+            await extractZip(archivePath, extractPath, TOOL_ARCHIVE_LIMITS);
+        } else if (/\.(tgz|tar\.gz|tar)$/i.test(archivePath)) {
+            await this.extractTarFile(archivePath, extractPath, TOOL_ARCHIVE_LIMITS);
+        } else {
+            throw new Error(`Unsupported archive type: ${path.basename(archivePath)} (expected .zip, .tgz, .tar.gz or .tar)`);
+        }
+    }
+
+    /**
+     * Extract a tar archive with the same path checks and limits as ZIPs. Links must point inside extractPath.
+     */
+    private async extractTarFile(tarPath: string, extractPath: string, limits: Partial<ArchiveLimits>): Promise<void> {
+        const budget = new ArchiveBudget(limits);
+        let failure: Error | null = null;
+
+        await tar.x({
+            file: tarPath,
+            cwd: extractPath,
+            filter: (entryPath, entry) => {
+                if (failure) {
+                    return false;
+                }
+                try {
+                    const size = entry.size || 0;
+                    budget.addEntry(entryPath, undefined, size);
+                    const target = resolveEntryPath(extractPath, entryPath);
+                    const { linkpath: linkPath, type } = entry as any;
+                    if (linkPath) {
+                        // Hard links are relative to the archive root, symbolic links to the link's directory
+                        const base = type === 'Link' ? extractPath : path.dirname(target);
+                        const linkTarget = path.resolve(base, linkPath);
+                        if (linkTarget !== path.resolve(extractPath) && !linkTarget.startsWith(path.resolve(extractPath) + path.sep)) {
+                            throw new UnsafeArchiveError(`Archive entry "${entryPath}" links outside the extraction directory`, 'path', entryPath);
+                        }
+                    }
+                    budget.addBytes(entryPath, size, size);
+                    return true;
+                } catch (error) {
+                    failure = error as Error;
+                    return false;
+                }
+            }
         });
+
+        if (failure) {
+            throw failure;
+        }
     }
+
     async verifyJavaInstallation(): Promise<boolean> {
         try {
             // Try to run java -version and capture stderr (Java outputs version to stderr)
@@ -315,4 +660,10 @@ export class ExternalToolInstaller {
 
         return javaAvailable && nodeAvailable;
     }
-}
\ No newline at end of file
+}
+
+// Major version of a Java version string: "1.8.0_292" is 8, "17.0.2" is 17
+function javaMajorVersion(version: string): number {
+    const parts = version.split(/[._-]/).map(part => parseInt(part, 10));
+    return parts[0] === 1 ? parts[1] : parts[0];
+}
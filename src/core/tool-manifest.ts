@@ -0,0 +1,173 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { sha256File } from '../utils/common';
+
+export type InstallableTool = 'epubcheck' | 'daisy-ace';
+
+export const TOOL_NAMES: InstallableTool[] = ['epubcheck', 'daisy-ace'];
+
+/**
+ * Name of the manifest in an offline tools directory
+ */
+export const MANIFEST_FILE = 'tools-manifest.json';
+
+/**
+ * One installable artifact. For EpubCheck it is the release ZIP; for DAISY ACE it is a .tgz of a directory
+ * where `npm install @daisy/ace@<version>` was run, with its node_modules.
+ */
+export interface ToolArtifact {
+    name: InstallableTool;
+    version: string;
+    file: string; // Relative to the directory the artifacts are installed from
+    sha256: string;
+}
+
+/**
+ * An archive of artifacts that can be installed from, checked before it is extracted
+ */
+export interface ToolBundle {
+    file: string; // Matched by file name
+    sha256: string;
+}
+
+/**
+ * Pinned tool versions and checksums, e.g.
+ * { "tools": [{ "name": "epubcheck", "version": "5.1.0", "file": "epubcheck-5.1.0.zip", "sha256": "..." }],
+ *   "bundles": [{ "file": "tools-bundle.tgz", "sha256": "..." }] }
+ */
+export interface ToolManifest {
+    path: string;
+    tools: ToolArtifact[];
+    bundles: ToolBundle[];
+}
+
+export class ChecksumMismatchError extends Error {
+    readonly file: string;
+    readonly expected: string;
+    readonly actual: string;
+
+    constructor(file: string, expected: string, actual: string) {
+        super(`Checksum mismatch for ${file}: expected SHA-256 ${expected}, got ${actual}`);
+        this.name = 'ChecksumMismatchError';
+        this.file = file;
+        this.expected = expected;
+        this.actual = actual;
+    }
+}
+
+export async function loadToolManifest(manifestPath: string): Promise<ToolManifest> {
+    if (!(await fs.pathExists(manifestPath))) {
+        throw new Error(`Tool manifest not found: ${manifestPath}`);
+    }
+
+    const data = await fs.readJson(manifestPath);
+    const tools: ToolArtifact[] = [];
+    for (const [index, entry] of (Array.isArray(data?.tools) ? data.tools : []).entries()) {
+        const where = `${manifestPath}, tools[${index}]`;
+        if (!TOOL_NAMES.includes(entry?.name)) {
+            throw new Error(`Unknown tool "${entry?.name}" in ${where} (expected ${TOOL_NAMES.join(' or ')})`);
+        }
+        if (typeof entry.version !== 'string' || typeof entry.file !== 'string' || !entry.version || !entry.file) {
+            throw new Error(`Missing version or file in ${where}`);
+        }
+        tools.push({ name: entry.name, version: entry.version, file: entry.file, sha256: readSha256(entry, where) });
+    }
+    if (tools.length === 0) {
+        throw new Error(`No tools listed in ${manifestPath}`);
+    }
+
+    const bundles: ToolBundle[] = [];
+    for (const [index, entry] of (Array.isArray(data?.bundles) ? data.bundles : []).entries()) {
+        const where = `${manifestPath}, bundles[${index}]`;
+        if (typeof entry?.file !== 'string' || !entry.file) {
+            throw new Error(`Missing file in ${where}`);
+        }
+        bundles.push({ file: entry.file, sha256: readSha256(entry, where) });
+    }
+
+    return { path: manifestPath, tools, bundles };
+}
+
+function readSha256(entry: { sha256?: unknown }, where: string): string {
+    if (typeof entry.sha256 !== 'string' || !/^[0-9a-f]{64}$/i.test(entry.sha256)) {
+        throw new Error(`Missing or invalid sha256 in ${where}`);
+    }
+    return entry.sha256.toLowerCase();
+}
+
+/**
+ * The manifest's artifact for a tool: the requested version, or the newest one listed.
+ * Returns null if the manifest has no artifact for the tool.
+ */
+export function selectArtifact(manifest: ToolManifest, name: InstallableTool, version?: string): ToolArtifact | null {
+    const candidates = manifest.tools.filter(tool => tool.name === name);
+    if (candidates.length === 0) {
+        return null;
+    }
+    if (version) {
+        const match = candidates.find(tool => tool.version === version);
+        if (!match) {
+            throw new Error(`${name} ${version} is not in ${manifest.path} (available: ${candidates.map(tool => tool.version).join(', ')})`);
+        }
+        return match;
+    }
+    return candidates.sort((a, b) => compareVersions(b.version, a.version))[0];
+}
+
+/**
+ * Path of an artifact file in root after checking it against the manifest's SHA-256. Files outside root
+ * are not accepted.
+ */
+export async function verifyArtifact(artifact: ToolArtifact, root: string): Promise<string> {
+    const resolvedRoot = path.resolve(root);
+    const filePath = path.resolve(resolvedRoot, artifact.file);
+    if (!filePath.startsWith(resolvedRoot + path.sep)) {
+        throw new Error(`Artifact ${artifact.file} is outside ${resolvedRoot}`);
+    }
+    if (!(await fs.pathExists(filePath))) {
+        throw new Error(`Artifact not found: ${filePath}`);
+    }
+
+    const actual = await sha256File(filePath);
+    if (actual !== artifact.sha256) {
+        throw new ChecksumMismatchError(filePath, artifact.sha256, actual);
+    }
+    return filePath;
+}
+
+/**
+ * Check an archive of artifacts against the manifest's bundles before anything in it is extracted.
+ * Throws if the manifest lists no bundle with the archive's file name, or its SHA-256 differs.
+ */
+export async function verifyBundle(manifest: ToolManifest, archivePath: string): Promise<void> {
+    const name = path.basename(archivePath);
+    const bundle = manifest.bundles.find(candidate => path.basename(candidate.file) === name);
+    if (!bundle) {
+        throw new Error(`${manifest.path} lists no checksum for ${name}; add it to "bundles", or install from the extracted directory`);
+    }
+
+    const actual = await sha256File(archivePath);
+    if (actual !== bundle.sha256) {
+        throw new ChecksumMismatchError(archivePath, bundle.sha256, actual);
+    }
+}
+
+/**
+ * Compare dotted version numbers; a missing part counts as 0 and text parts compare as strings
+ */
+export function compareVersions(a: string, b: string): number {
+    const partsA = a.replace(/^v/, '').split(/[.-]/);
+    const partsB = b.replace(/^v/, '').split(/[.-]/);
+    for (let index = 0; index < Math.max(partsA.length, partsB.length); index++) {
+        const partA = partsA[index] || '0';
+        const partB = partsB[index] || '0';
+        const numberA = parseInt(partA, 10);
+        const numberB = parseInt(partB, 10);
+        const difference = !isNaN(numberA) && !isNaN(numberB) && numberA !== numberB ?
+            numberA - numberB : partA.localeCompare(partB);
+        if (difference !== 0) {
+            return difference;
+        }
+    }
+    return 0;
+}
@@ -1,9 +1,10 @@
 import { ValidationIssue, FixResult, ProcessingContext, EpubContent, AIImageAnalysis, FixDetail } from '../types';
 import { BaseFixer } from './base-fixer';
+import { resolveHref } from '../core/path-resolver';
 import { Logger } from '../utils/common';
+import { ToolCallOptions, ToolNotFound, getToolTimeout, runTool } from '../utils/process-runner';
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { execSync } from 'child_process';
 import axios from 'axios';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 
@@ -36,6 +37,14 @@ export class AltTextFixer extends BaseFixer {
         return 'Alt Text Fixer';
     }
 
+    getFixerId(): string {
+        return 'alt-text';
+    }
+
+    getRequires(): string[] {
+        return ['structure'];
+    }
+
     getHandledCodes(): string[] {
         return ['missing-alt-text', 'image-alt', 'ACC-002', 'img-alt-empty'];
     }
@@ -432,13 +441,14 @@ export class AltTextFixer extends BaseFixer {
                 this.logger.warn(`Ollama analysis failed for ${src}, falling back to other methods`);
             }
 
-            let result = await this.tryOCRAnalysis(imagePath);
+            const toolTimeouts = context.config?.toolTimeouts;
+            let result = await this.tryOCRAnalysis(imagePath, { timeout: getToolTimeout('tesseract', toolTimeouts), signal: context.signal });
             if (result) {
                 this.logger.info(`OCR analysis successful for ${src}`);
                 return result;
             }
 
-            result = await this.tryImageMetadataAnalysis(imagePath);
+            result = await this.tryImageMetadataAnalysis(imagePath, { timeout: getToolTimeout('exiftool', toolTimeouts), signal: context.signal });
             if (result) {
                 this.logger.info(`Metadata analysis successful for ${src}`);
                 return result;
@@ -458,33 +468,20 @@ export class AltTextFixer extends BaseFixer {
      */
     private async resolveImagePath(content: EpubContent, src: string, context: ProcessingContext): Promise<string | null> {
         try {
-            // Get the temp directory from the processing context
-            const tempDir = context.tempDir;
-
-            // Normalize the src path (remove leading slash if present)
-            const normalizedSrc = src.startsWith('/') ? src.substring(1) : src;
-
-            // Try different path combinations
-            const alternatives = [
-                path.join(tempDir, normalizedSrc),
-                path.join(tempDir, src),
-                path.join(tempDir, path.basename(src)),
-                path.join(tempDir, 'images', path.basename(src)),
-                path.join(tempDir, 'Images', path.basename(src)),
-                path.join(tempDir, 'OEBPS', normalizedSrc),
-                path.join(tempDir, 'OEBPS/images', path.basename(src)),
-                path.join(path.dirname(content.path), normalizedSrc),
-                path.join(path.dirname(content.path), src)
-            ];
-
-            for (const altPath of alternatives) {
-                if (await fs.pathExists(altPath)) {
-                    this.logger.info(`Found image at: ${altPath}`);
-                    return altPath;
-                }
+            // src is relative to the document; a root-relative src is relative to the container
+            const imageFile = resolveHref(src, content.path);
+            if (!imageFile) {
+                this.logger.info(`Image is not in the EPUB: ${src}`);
+                return null;
+            }
+
+            const imagePath = path.join(context.tempDir, imageFile);
+            if (await fs.pathExists(imagePath)) {
+                this.logger.info(`Found image at: ${imagePath}`);
+                return imagePath;
             }
 
-            this.logger.warn(`Image not found: ${src} (tried ${alternatives.length} paths)`);
+            this.logger.warn(`Image not found: ${src} (resolved to ${imageFile} from ${content.path})`);
             return null;
 
         } catch (error) {
@@ -744,22 +741,20 @@ export class AltTextFixer extends BaseFixer {
     /**
      * Try OCR analysis to extract text from images
      */
-    private async tryOCRAnalysis(imagePath: string): Promise<ImageAnalysisResult | null> {
+    private async tryOCRAnalysis(imagePath: string, run: ToolCallOptions): Promise<ImageAnalysisResult | null> {
         try {
-            // Check if Tesseract is available
+            // Run OCR on the image
+            let ocrResult: string;
             try {
-                execSync('tesseract --version', { encoding: 'utf8', stdio: 'pipe' });
-            } catch {
-                this.logger.info('Tesseract OCR not available');
-                return null;
+                ocrResult = (await runTool('tesseract', [imagePath, 'stdout'], { ...run, tool: 'Tesseract', allowedExitCodes: [0] })).stdout;
+            } catch (error) {
+                if (error instanceof ToolNotFound) {
+                    this.logger.info('Tesseract OCR not available');
+                    return null;
+                }
+                throw error;
             }
 
-            // Run OCR on the image
-            const ocrResult = execSync(`tesseract "${imagePath}" stdout`, {
-                encoding: 'utf8',
-                timeout: 15000 // 15 second timeout
-            });
-
             const text = ocrResult.trim();
             if (text && text.length > 10) {
                 // Clean up the OCR text
@@ -789,22 +784,20 @@ export class AltTextFixer extends BaseFixer {
     /**
      * Try extracting useful information from image metadata
      */
-    private async tryImageMetadataAnalysis(imagePath: string): Promise<ImageAnalysisResult | null> {
+    private async tryImageMetadataAnalysis(imagePath: string, run: ToolCallOptions): Promise<ImageAnalysisResult | null> {
         try {
-            // Check if ExifTool is available
+            // Extract metadata
+            let metadata: string;
             try {
-                execSync('exiftool -ver', { encoding: 'utf8', stdio: 'pipe' });
-            } catch {
-                this.logger.info('ExifTool not available for metadata analysis');
-                return null;
+                metadata = (await runTool('exiftool', ['-json', imagePath], { ...run, tool: 'ExifTool', allowedExitCodes: [0] })).stdout;
+            } catch (error) {
+                if (error instanceof ToolNotFound) {
+                    this.logger.info('ExifTool not available for metadata analysis');
+                    return null;
+                }
+                throw error;
             }
 
-            // Extract metadata
-            const metadata = execSync(`exiftool -json "${imagePath}"`, {
-                encoding: 'utf8',
-                timeout: 10000
-            });
-
             const metadataObj = JSON.parse(metadata)[0];
 
             // Look for useful metadata
@@ -840,32 +833,26 @@ export class AltTextFixer extends BaseFixer {
     /**
      * Get the correct Python command to use
      */
-    private getPythonCommand(): string {
-        try {
-            // Try python3 first (more explicit)
-            execSync('python3 --version', { encoding: 'utf8', stdio: 'pipe' });
-            return 'python3';
-        } catch {
+    private async getPythonCommand(): Promise<string> {
+        // Try python3 first (more explicit), then fall back to python
+        for (const command of ['python3', 'python']) {
             try {
-                // Fall back to python
-                execSync('python --version', { encoding: 'utf8', stdio: 'pipe' });
-                return 'python';
+                await runTool(command, ['--version'], { timeout: 10000, allowedExitCodes: [0] });
+                return command;
             } catch {
-                // Default to python3 if neither works
-                return 'python3';
+                // Try the next one
             }
         }
+        // Default to python3 if neither works
+        return 'python3';
     }
 
     /**
      * Check if Python and required AI libraries are available
      */
-    private async checkPythonDependencies(): Promise<boolean> {
+    private async checkPythonDependencies(run: ToolCallOptions = {}): Promise<boolean> {
         try {
-            const pythonCmd = this.getPythonCommand();
-
-            // Check Python availability
-            execSync(`${pythonCmd} --version`, { encoding: 'utf8', stdio: 'pipe' });
+            const pythonCmd = await this.getPythonCommand();
 
             // Check if required libraries are installed
             const checkScript = `
@@ -879,12 +866,14 @@ except ImportError:
     print("NOT_AVAILABLE")
 `;
 
-            const result = execSync(`${pythonCmd} -c "${checkScript}"`, {
-                encoding: 'utf8',
-                stdio: 'pipe'
+            const result = await runTool(pythonCmd, ['-c', checkScript], {
+                tool: 'Python',
+                timeout: run.timeout !== undefined ? run.timeout : getToolTimeout('python'),
+                signal: run.signal,
+                allowedExitCodes: [0]
             });
 
-            return result.trim() === 'AVAILABLE';
+            return result.stdout.trim() === 'AVAILABLE';
 
         } catch {
             return false;
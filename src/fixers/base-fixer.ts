@@ -1,6 +1,8 @@
 import { ValidationIssue, FixResult, ProcessingContext, EpubContent } from '../types';
 import { Logger } from '../utils/common';
 import * as cheerio from 'cheerio';
+import { DocumentCache, serializeDocument } from '../core/document-cache';
+import { EpubPathResolver } from '../core/path-resolver';
 
 type CheerioStatic = ReturnType<typeof cheerio.load>;
 type CheerioElement = any;
@@ -8,22 +10,57 @@ type Cheerio = any;
 
 export abstract class BaseFixer {
     protected logger: Logger;
+    private documentCache: DocumentCache | null = null;
+    protected pathResolver: EpubPathResolver;
 
     constructor(logger: Logger) {
         this.logger = logger;
+        this.pathResolver = new EpubPathResolver(logger);
     }
 
     abstract getFixerName(): string;
+    /**
+     * Stable identifier used by the configuration (enabledFixers, --only, --skip)
+     */
+    abstract getFixerId(): string;
+
+    /**
+     * Capabilities this fixer establishes for later fixers, e.g. 'structure' or 'language'
+     */
+    getProvides(): string[] {
+        return [];
+    }
+
+    /**
+     * Capabilities that must be established first: every fixer providing one runs before this fixer
+     */
+    getRequires(): string[] {
+        return [];
+    }
+
     abstract getHandledCodes(): string[];
     abstract canFix(issue: ValidationIssue): boolean;
     abstract fix(issue: ValidationIssue, context: ProcessingContext): Promise<FixResult>;
 
+    /**
+     * Share parsed documents with the other fixers. Set by the FixerOrchestrator while this fixer runs.
+     */
+    setDocumentCache(cache: DocumentCache | null): void {
+        this.documentCache = cache;
+    }
+
+    /**
+     * The parsed document may be shared with other fixers: only change it if you then call saveDocument
+     */
     protected loadDocument(content: EpubContent): CheerioStatic {
         // Only load text-based content, not binary content
         if (content.content instanceof Buffer) {
             throw new Error(`Cannot load binary file as document: ${content.path}`);
         }
 
+        if (this.documentCache) {
+            return this.documentCache.load(content);
+        }
         return cheerio.load(content.content, {
             xmlMode: true
         });
@@ -35,21 +72,11 @@ export abstract class BaseFixer {
             throw new Error(`Cannot save binary file as document: ${content.path}`);
         }
 
-        // For XML documents like OPF and XHTML, use proper XML serialization
-        // Check if this is an XML document (EPUB XHTML files are XML)
-        if (content.mediaType === 'application/oebps-package+xml' || 
-            content.path.endsWith('.opf') || 
-            content.mediaType === 'application/xhtml+xml' || 
-            content.path.endsWith('.xhtml')) {
-            // For XML/XHTML files, we need to preserve XML structure and self-closing tags
-            // Use XML mode to properly serialize
-            content.content = $.xml();
-            // Ensure proper XML declaration if missing
-            if (typeof content.content === 'string' && !content.content.startsWith('<?xml')) {
-                content.content = '<?xml version="1.0" encoding="UTF-8"?>\n' + content.content;
-            }
+        // With a shared cache the text is only serialized when it's next read
+        if (this.documentCache) {
+            this.documentCache.markModified($, content);
         } else {
-            content.content = $.html();
+            content.content = serializeDocument($, content);
         }
         content.modified = true;
     }
@@ -74,55 +101,34 @@ export abstract class BaseFixer {
         };
     }
 
+    /**
+     * Content for a path from an issue or a fixer, resolved from the container root or the package
+     * directory. Paths that match more than one file are not guessed at.
+     */
     protected findContentByPath(context: ProcessingContext, filePath: string): EpubContent | undefined {
-        // First try exact match
-        let content = context.contents.get(filePath);
-        if (content) {
-            return content;
-        }
-
-        // Try to find by filename only (in case path doesn't match exactly)
-        const fileName = filePath.split('/').pop() || filePath;
-        this.logger.info(`Searching for content by filename: ${fileName} from path: ${filePath}`);
-
-        for (const [path, contentItem] of context.contents) {
-            // Check for exact filename match
-            if (path.endsWith(fileName)) {
-                this.logger.info(`Found content by filename match: ${path} for requested ${filePath}`);
-                return contentItem;
-            }
-            // Check for partial path match
-            if (path.endsWith(filePath)) {
-                this.logger.info(`Found content by partial path match: ${path} for requested ${filePath}`);
-                return contentItem;
+        const resolution = this.pathResolver.resolveReportedPath(context, filePath);
+        if (resolution.path) {
+            if (resolution.path !== filePath) {
+                this.logger.info(`Resolved ${filePath} to ${resolution.path}`);
             }
+            return context.contents.get(resolution.path);
         }
 
-        // Try case-insensitive search
-        const lowerFilePath = filePath.toLowerCase();
-        const lowerFileName = fileName.toLowerCase();
-        this.logger.info(`Trying case-insensitive search for: ${lowerFileName}`);
-
-        for (const [path, contentItem] of context.contents) {
-            if (path.toLowerCase() === lowerFilePath) {
-                this.logger.info(`Found content by exact case-insensitive match: ${path} for requested ${filePath}`);
-                return contentItem;
-            }
-            if (path.toLowerCase().endsWith(lowerFileName)) {
-                this.logger.info(`Found content by case-insensitive filename match: ${path} for requested ${filePath}`);
-                return contentItem;
-            }
-            if (path.toLowerCase().endsWith(lowerFilePath)) {
-                this.logger.info(`Found content by case-insensitive path match: ${path} for requested ${filePath}`);
-                return contentItem;
-            }
+        if (resolution.candidates.length === 0) {
+            this.logger.warn(`Content not found for path: ${filePath}`);
         }
+        return undefined;
+    }
 
-        this.logger.warn(`Content not found for path: ${filePath}. Available paths:`);
-        for (const [path] of context.contents) {
-            this.logger.warn(`  - ${path}`);
+    /**
+     * Whether a file is the package document (OPF) of the rendition being fixed
+     */
+    protected isPackageDocument(context: ProcessingContext, filePath: string, content: EpubContent): boolean {
+        const packagePath = this.pathResolver.getPackagePath(context);
+        if (packagePath) {
+            return filePath === packagePath;
         }
-        return undefined;
+        return filePath.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml';
     }
 
     protected getAllContentFiles(context: ProcessingContext): EpubContent[] {
@@ -133,7 +139,7 @@ export abstract class BaseFixer {
         for (const item of context.manifest.items) {
             this.logger.info(`Checking manifest item: href="${item.href}", mediaType="${item.mediaType}"`);
             if (item.mediaType === 'application/xhtml+xml' || item.mediaType === 'text/html') {
-                const content = context.contents.get(item.href);
+                const content = this.pathResolver.findManifestContent(context, item.href);
                 if (content && typeof content.content === 'string') {
                     contentFiles.push(content);
                     this.logger.info(`Added XHTML/HTML file from manifest: ${item.href}`);
@@ -241,7 +247,7 @@ export abstract class BaseFixer {
         // Look for existing nav file
         for (const item of context.manifest.items) {
             if (item.properties && item.properties.includes('nav')) {
-                const content = context.contents.get(item.href);
+                const content = this.pathResolver.findManifestContent(context, item.href);
                 if (content) {
                     return content;
                 }
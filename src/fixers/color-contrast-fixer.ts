@@ -13,6 +13,14 @@ export class ColorContrastFixer extends BaseFixer {
         return 'Color Contrast Fixer';
     }
 
+    getFixerId(): string {
+        return 'color-contrast';
+    }
+
+    getRequires(): string[] {
+        return ['structure'];
+    }
+
     getHandledCodes(): string[] {
         return [
             'color-contrast',           // Standard color contrast issues
@@ -14,6 +14,14 @@ export class DataAttributeFixer extends BaseFixer {
         return 'Data Attribute Fixer';
     }
 
+    getFixerId(): string {
+        return 'data-attributes';
+    }
+
+    getRequires(): string[] {
+        return ['structure'];
+    }
+
     getHandledCodes(): string[] {
         return [
             'HTM_061',
@@ -14,6 +14,18 @@ export class EpubTypeRoleFixer extends BaseFixer {
         return 'EPUB Type Role Fixer';
     }
 
+    getFixerId(): string {
+        return 'epub-type-roles';
+    }
+
+    getProvides(): string[] {
+        return ['roles'];
+    }
+
+    getRequires(): string[] {
+        return ['structure'];
+    }
+
     getHandledCodes(): string[] {
         return [
             'epub-type-has-matching-role',
@@ -15,6 +15,18 @@ export class HeadingStructureFixer extends BaseFixer {
         return 'Heading Structure Fixer';
     }
 
+    getFixerId(): string {
+        return 'heading-structure';
+    }
+
+    getProvides(): string[] {
+        return ['headings'];
+    }
+
+    getRequires(): string[] {
+        return ['structure'];
+    }
+
     getHandledCodes(): string[] {
         return ['heading-structure', 'heading-order', 'page-has-heading-one', 'ACC-003', 'empty-heading'];
     }
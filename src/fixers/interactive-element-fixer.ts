@@ -13,6 +13,14 @@ export class InteractiveElementFixer extends BaseFixer {
         return 'Interactive Element Accessibility Fixer';
     }
 
+    getFixerId(): string {
+        return 'interactive-elements';
+    }
+
+    getRequires(): string[] {
+        return ['structure'];
+    }
+
     getHandledCodes(): string[] {
         return [
             'aria-label',                   // Missing or empty aria-label
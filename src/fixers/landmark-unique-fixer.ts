@@ -14,6 +14,14 @@ export class LandmarkUniqueFixer extends BaseFixer {
         return 'Landmark Unique Fixer';
     }
 
+    getFixerId(): string {
+        return 'landmark-unique';
+    }
+
+    getRequires(): string[] {
+        return ['structure', 'roles'];
+    }
+
     getHandledCodes(): string[] {
         return [
             'landmark-unique',
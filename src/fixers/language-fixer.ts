@@ -13,6 +13,18 @@ export class LanguageAttributeFixer extends BaseFixer {
         return 'Language Attribute Fixer';
     }
 
+    getFixerId(): string {
+        return 'language-attributes';
+    }
+
+    getProvides(): string[] {
+        return ['language'];
+    }
+
+    getRequires(): string[] {
+        return ['structure'];
+    }
+
     getHandledCodes(): string[] {
         return [
             'missing-lang',
@@ -441,7 +453,7 @@ export class LanguageAttributeFixer extends BaseFixer {
         let opfContent: any = null;
 
         for (const [path, content] of context.contents) {
-            if (path.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml') {
+            if (this.isPackageDocument(context, path, content)) {
                 opfContent = content;
                 break;
             }
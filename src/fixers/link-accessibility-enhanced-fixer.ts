@@ -13,6 +13,14 @@ export class LinkAccessibilityEnhancedFixer extends BaseFixer {
         return 'Link Accessibility Enhanced Fixer';
     }
 
+    getFixerId(): string {
+        return 'link-accessibility-enhanced';
+    }
+
+    getRequires(): string[] {
+        return ['links'];
+    }
+
     getHandledCodes(): string[] {
         return [
             'link-name',
@@ -13,6 +13,18 @@ export class LinkAccessibilityFixer extends BaseFixer {
         return 'Link Accessibility Fixer';
     }
 
+    getFixerId(): string {
+        return 'link-accessibility';
+    }
+
+    getProvides(): string[] {
+        return ['links'];
+    }
+
+    getRequires(): string[] {
+        return ['structure'];
+    }
+
     getHandledCodes(): string[] {
         return [
             'link-name',                    // Links without discernible text
@@ -11,6 +11,18 @@ export class MetadataAccessibilityFixer extends BaseFixer {
         return 'Metadata Accessibility Fixer';
     }
 
+    getFixerId(): string {
+        return 'metadata-accessibility';
+    }
+
+    getProvides(): string[] {
+        return ['accessibility-metadata'];
+    }
+
+    getRequires(): string[] {
+        return ['metadata'];
+    }
+
     getHandledCodes(): string[] {
         return [
             'epub-lang',
@@ -149,7 +161,7 @@ export class MetadataAccessibilityFixer extends BaseFixer {
         let opfPath: string = '';
 
         for (const [path, content] of context.contents) {
-            if (path.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml') {
+            if (this.isPackageDocument(context, path, content)) {
                 opfContent = content;
                 opfPath = path;
                 break;
@@ -198,7 +210,7 @@ export class MetadataAccessibilityFixer extends BaseFixer {
         let opfPath: string = '';
 
         for (const [path, content] of context.contents) {
-            if (path.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml') {
+            if (this.isPackageDocument(context, path, content)) {
                 opfContent = content;
                 opfPath = path;
                 break;
@@ -248,7 +260,7 @@ export class MetadataAccessibilityFixer extends BaseFixer {
         let opfPath: string = '';
 
         for (const [path, content] of context.contents) {
-            if (path.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml') {
+            if (this.isPackageDocument(context, path, content)) {
                 opfContent = content;
                 opfPath = path;
                 break;
@@ -298,7 +310,7 @@ export class MetadataAccessibilityFixer extends BaseFixer {
         let opfPath: string = '';
 
         for (const [path, content] of context.contents) {
-            if (path.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml') {
+            if (this.isPackageDocument(context, path, content)) {
                 opfContent = content;
                 opfPath = path;
                 break;
@@ -352,7 +364,7 @@ export class MetadataAccessibilityFixer extends BaseFixer {
         let opfPath: string = '';
 
         for (const [path, content] of context.contents) {
-            if (path.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml') {
+            if (this.isPackageDocument(context, path, content)) {
                 opfContent = content;
                 opfPath = path;
                 break;
@@ -403,7 +415,7 @@ export class MetadataAccessibilityFixer extends BaseFixer {
         let opfPath: string = '';
 
         for (const [path, content] of context.contents) {
-            if (path.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml') {
+            if (this.isPackageDocument(context, path, content)) {
                 opfContent = content;
                 opfPath = path;
                 break;
@@ -13,6 +13,18 @@ export class MetadataFixer extends BaseFixer {
         return 'Metadata Fixer';
     }
 
+    getFixerId(): string {
+        return 'metadata';
+    }
+
+    getProvides(): string[] {
+        return ['metadata'];
+    }
+
+    getRequires(): string[] {
+        return ['structure'];
+    }
+
     getHandledCodes(): string[] {
         return [
             'RSC-005', // Missing language in OPF
@@ -85,7 +97,7 @@ export class MetadataFixer extends BaseFixer {
             let opfPath: string = '';
 
             for (const [path, content] of context.contents) {
-                if (path.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml') {
+                if (this.isPackageDocument(context, path, content)) {
                     opfContent = content;
                     opfPath = path;
                     break;
@@ -15,6 +15,14 @@ export class NonLinearContentFixer extends BaseFixer {
         return 'Non-Linear Content Fixer';
     }
 
+    getFixerId(): string {
+        return 'non-linear-content';
+    }
+
+    getRequires(): string[] {
+        return ['structure'];
+    }
+
     getHandledCodes(): string[] {
         return ['non-linear-content-reachable', 'OPF-096'];
     }
@@ -96,7 +104,7 @@ export class NonLinearContentFixer extends BaseFixer {
             let opfPath = '';
             
             for (const [filePath, content] of context.contents) {
-                if (filePath.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml') {
+                if (this.isPackageDocument(context, filePath, content)) {
                     opfContent = content;
                     opfPath = filePath;
                     break;
@@ -137,11 +145,7 @@ export class NonLinearContentFixer extends BaseFixer {
                     return context.manifest.spine.some(spineItem => {
                         if (spineItem.linear !== false) {
                             const manifestItem = context.manifest.items.find(item => item.id === spineItem.idref);
-                            const normalizedManifestHref = manifestItem.href.replace(/^\/+/, '').replace(/\\/g, '/');
-                            const normalizedContentPath = content.path.replace(/^\/+/, '').replace(/\\/g, '/');
-                            const manifestFileName = path.basename(manifestItem.href);
-                            const contentFileName = path.basename(content.path);
-                            return normalizedManifestHref === normalizedContentPath || manifestFileName === contentFileName;
+                            return !!manifestItem && this.pathResolver.resolveManifestHref(context, manifestItem.href) === content.path;
                         }
                         return false;
                     });
@@ -217,20 +221,13 @@ export class NonLinearContentFixer extends BaseFixer {
             return context.manifest.spine.some(spineItem => {
                 if (spineItem.linear !== false) { // linear is true or undefined
                     const manifestItem = context.manifest.items.find(item => item.id === spineItem.idref);
-                    // Compare paths more flexibly - check if they match when normalized
-                    // Try multiple normalization approaches
-                    const normalizedManifestHref = manifestItem.href.replace(/^\/+/, '').replace(/\\/g, '/');
-                    const normalizedContentPath = content.path.replace(/^\/+/, '').replace(/\\/g, '/');
-                    
-                    // Also try matching just the filename
-                    const manifestFileName = path.basename(manifestItem.href);
-                    const contentFileName = path.basename(content.path);
-                    
-                    this.logger.info(`Comparing manifest href '${manifestItem.href}' with content path '${content.path}'`);
-                    this.logger.info(`Normalized paths: '${normalizedManifestHref}' vs '${normalizedContentPath}' - match: ${normalizedManifestHref === normalizedContentPath}`);
-                    this.logger.info(`Filename comparison: '${manifestFileName}' vs '${contentFileName}' - match: ${manifestFileName === contentFileName}`);
-                    
-                    return normalizedManifestHref === normalizedContentPath || manifestFileName === contentFileName;
+                    if (!manifestItem) {
+                        return false;
+                    }
+                    // Manifest hrefs are relative to the package document, content paths to the container root
+                    const manifestPath = this.pathResolver.resolveManifestHref(context, manifestItem.href);
+                    this.logger.info(`Comparing manifest href '${manifestItem.href}' (${manifestPath}) with content path '${content.path}'`);
+                    return manifestPath === content.path;
                 }
                 return false;
             });
@@ -249,7 +246,7 @@ export class NonLinearContentFixer extends BaseFixer {
                 const manifestItem = context.manifest.items.find(item => item.id === spineItem.idref);
                 if (manifestItem) {
                     this.logger.info(`Looking for content file matching manifest item: ${manifestItem.href}`);
-                    const contentFile = this.findContentByPath(context, manifestItem.href);
+                    const contentFile = this.pathResolver.findManifestContent(context, manifestItem.href);
                     if (contentFile) {
                         // Check if we already have this file to avoid duplicates
                         if (!linearContentFiles.some(file => file.path === contentFile.path)) {
@@ -13,6 +13,18 @@ export class ResourceReferenceFixer extends BaseFixer {
         return 'Resource Reference Fixer';
     }
 
+    getFixerId(): string {
+        return 'resource-references';
+    }
+
+    getProvides(): string[] {
+        return ['resources'];
+    }
+
+    getRequires(): string[] {
+        return ['structure'];
+    }
+
     getHandledCodes(): string[] {
         return [
             // 'RSC-006',                    // Remote resource reference (not fully implemented)
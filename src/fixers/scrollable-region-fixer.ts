@@ -14,6 +14,14 @@ export class ScrollableRegionFixer extends BaseFixer {
         return 'Scrollable Region Fixer';
     }
 
+    getFixerId(): string {
+        return 'scrollable-regions';
+    }
+
+    getRequires(): string[] {
+        return ['structure'];
+    }
+
     getHandledCodes(): string[] {
         return ['scrollable-region-focusable'];
     }
@@ -13,6 +13,18 @@ export class TitleFixer extends BaseFixer {
         return 'Title Fixer';
     }
 
+    getFixerId(): string {
+        return 'title';
+    }
+
+    getProvides(): string[] {
+        return ['title'];
+    }
+
+    getRequires(): string[] {
+        return ['language'];
+    }
+
     getHandledCodes(): string[] {
         return [
             'RSC-017', // Missing title element
@@ -14,6 +14,14 @@ export class ValidationStructureFixer extends BaseFixer {
         return 'Validation Structure Fixer';
     }
 
+    getFixerId(): string {
+        return 'validation-structure';
+    }
+
+    getProvides(): string[] {
+        return ['structure'];
+    }
+
     getHandledCodes(): string[] {
         return [
             'RSC-005', // Specific structural validation errors
@@ -296,7 +304,7 @@ export class ValidationStructureFixer extends BaseFixer {
         let opfPath: string = '';
 
         for (const [path, content] of context.contents) {
-            if (path.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml') {
+            if (this.isPackageDocument(context, path, content)) {
                 opfContent = content;
                 opfPath = path;
                 break;
@@ -379,7 +387,7 @@ export class ValidationStructureFixer extends BaseFixer {
         let opfPath: string = '';
 
         for (const [path, content] of context.contents) {
-            if (path.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml') {
+            if (this.isPackageDocument(context, path, content)) {
                 opfContent = content;
                 opfPath = path;
                 break;
@@ -476,7 +484,7 @@ export class ValidationStructureFixer extends BaseFixer {
         let opfPath: string = '';
 
         for (const [path, content] of context.contents) {
-            if (path.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml') {
+            if (this.isPackageDocument(context, path, content)) {
                 opfContent = content;
                 opfPath = path;
                 break;
@@ -1277,7 +1285,7 @@ export class ValidationStructureFixer extends BaseFixer {
         let opfPath: string = '';
 
         for (const [path, content] of context.contents) {
-            if (path.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml') {
+            if (this.isPackageDocument(context, path, content)) {
                 opfContent = content;
                 opfPath = path;
                 break;
@@ -1355,7 +1363,7 @@ export class ValidationStructureFixer extends BaseFixer {
 
 
         for (const [path, content] of context.contents) {
-            if (path.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml') {
+            if (this.isPackageDocument(context, path, content)) {
                 opfContent = content;
                 opfPath = path;
                 break;
@@ -1470,7 +1478,7 @@ export class ValidationStructureFixer extends BaseFixer {
         let opfPath: string = '';
 
         for (const [path, content] of context.contents) {
-            if (path.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml') {
+            if (this.isPackageDocument(context, path, content)) {
                 opfContent = content;
                 opfPath = path;
                 break;
@@ -1567,7 +1575,7 @@ export class ValidationStructureFixer extends BaseFixer {
         let opfPath: string = '';
 
         for (const [path, content] of context.contents) {
-            if (path.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml') {
+            if (this.isPackageDocument(context, path, content)) {
                 opfContent = content;
                 opfPath = path;
                 break;
@@ -1643,7 +1651,7 @@ export class ValidationStructureFixer extends BaseFixer {
             this.logger.info(`Searching for OPF file in all contents`);
             // Search for OPF file
             for (const [path, content] of context.contents) {
-                if (path.endsWith('.opf') || content.mediaType === 'application/oebps-package+xml') {
+                if (this.isPackageDocument(context, path, content)) {
                     opfContent = content;
                     opfPath = path;
                     this.logger.info(`Found OPF file candidate: ${path}`);
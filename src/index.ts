@@ -3,6 +3,11 @@ export { Logger } from './utils/common';
 export { loadConfig, defaultConfig } from './core/config';
 export * from './types';
 
+// Plugin API
+export { BaseFixer } from './fixers/base-fixer';
+export { BuiltinRule, RuleDocument, RuleViolation } from './validators/builtin-rule-engine';
+export { EpubFixerPlugin, PluginFixer, FixerPlacement, FixerConstructor, LoadedPlugin } from './core/plugin-loader';
+
 // For programmatic usage
 import { EpubAccessibilityProcessor } from './core/epub-processor';
 import { Logger } from './utils/common';
@@ -0,0 +1,71 @@
+import { BaselineManager } from '../../core/baseline';
+import { CategorizedIssues } from '../../core/issue-categorizer';
+import { AnalysisResult, ValidationIssue } from '../../types';
+import { Logger } from '../../utils/common';
+import { JsonReporter } from '../json-reporter';
+import { SarifReporter } from '../sarif-reporter';
+
+function issue(code: string, file: string, message: string): ValidationIssue {
+    return { type: 'error', category: 'validation', severity: 'major', code, message, fixable: false, location: { file } };
+}
+
+// Built the way EpubProcessor builds its result: suppressed issues are listed apart from the active ones
+function createInput(issues: ValidationIssue[]) {
+    const active = issues.filter(i => !i.suppressed);
+    const result = {
+        epub: { path: 'book.epub', metadata: {}, structure: { items: [], spine: [] } },
+        validation: { valid: active.length === 0, issues: active },
+        accessibility: { issues: [] },
+        summary: {
+            totalIssues: active.length,
+            criticalIssues: 0,
+            fixableIssues: 0,
+            fixedIssues: 0,
+            remainingIssues: { critical: 0, major: active.length, minor: 0 },
+            remainingValidationErrors: active.length
+        },
+        suppressedIssues: issues.filter(i => i.suppressed)
+    } as AnalysisResult;
+    const categorizedIssues: CategorizedIssues = { critical: [], high: [], medium: active, low: [], fixable: [], unfixable: active };
+    return { result, categorizedIssues, fixes: [], startTime: new Date() };
+}
+
+describe('baselined issues in machine-readable reports', () => {
+    const logger = new Logger(false, true);
+    const manager = new BaselineManager(logger);
+
+    function runWithBaseline(): ValidationIssue[] {
+        const accepted = [issue('RSC-005', 'OEBPS/ch1.xhtml', 'Error while parsing file: element "foo" not allowed here')];
+        const baseline = manager.createBaseline(accepted, 'book.epub');
+
+        const issues = [
+            issue('RSC-005', 'OEBPS/ch1.xhtml', 'Error while parsing file: element "bar" not allowed here'),
+            issue('RSC-007', 'OEBPS/ch2.xhtml', 'Referenced resource "img.png" could not be found')
+        ];
+        expect(manager.applyBaseline(issues, baseline)).toBe(1);
+        return issues;
+    }
+
+    it('lists suppressed issues apart from the active ones in the JSON report', () => {
+        const report = JSON.parse(new JsonReporter(logger).render(createInput(runWithBaseline())));
+
+        expect(report.issues.map((i: { code: string }) => i.code)).toEqual(['RSC-007']);
+        expect(report.summary.totalIssues).toBe(1);
+        expect(report.suppressed).toEqual([expect.objectContaining({
+            code: 'RSC-005',
+            location: { file: 'OEBPS/ch1.xhtml' },
+            fingerprint: expect.stringMatching(/^[0-9a-f]{32}$/)
+        })]);
+    });
+
+    it('includes suppressed issues with an external suppression in the SARIF report', () => {
+        const sarif = JSON.parse(new SarifReporter(logger).render(createInput(runWithBaseline())));
+        const results = sarif.runs[0].results;
+
+        expect(results).toHaveLength(2);
+        const suppressed = results.find((r: { ruleId: string }) => r.ruleId === 'RSC-005');
+        const active = results.find((r: { ruleId: string }) => r.ruleId === 'RSC-007');
+        expect(suppressed.suppressions).toEqual([{ kind: 'external', justification: 'Matched the baseline file' }]);
+        expect(active.suppressions).toBeUndefined();
+    });
+});
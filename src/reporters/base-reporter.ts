@@ -0,0 +1,54 @@
+import * as fs from 'fs-extra';
+import { AnalysisResult, FixResult, ValidationIssue } from '../types';
+import { Logger } from '../utils/common';
+import { CategorizedIssues } from '../core/issue-categorizer';
+
+export const TOOL_NAME = 'epub-accessibility-fixer';
+export const TOOL_VERSION = '1.0.0';
+
+/**
+ * Everything a reporter can serialize for one processed EPUB
+ */
+export interface ReportInput {
+    result: AnalysisResult;
+    categorizedIssues: CategorizedIssues;
+    fixes: FixResult[];
+    startTime: Date;
+}
+
+export abstract class BaseReporter {
+    protected logger: Logger;
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+    }
+
+    /**
+     * Name used to select the reporter with --format
+     */
+    abstract getFormat(): string;
+    abstract getFileExtension(): string;
+    abstract render(input: ReportInput): string;
+
+    async generateReport(input: ReportInput, outputPath: string): Promise<void> {
+        this.logger.info(`Generating ${this.getFormat()} report: ${outputPath}`);
+        await fs.writeFile(outputPath, this.render(input), 'utf8');
+        this.logger.success(`${this.getFormat().toUpperCase()} report generated: ${outputPath}`);
+    }
+
+    protected getAllIssues(input: ReportInput): ValidationIssue[] {
+        return [...input.result.validation.issues, ...input.result.accessibility.issues];
+    }
+
+    /**
+     * Priority bucket the categorizer put the issue in
+     */
+    protected getPriority(issue: ValidationIssue, categorizedIssues: CategorizedIssues): string {
+        for (const priority of ['critical', 'high', 'medium', 'low'] as const) {
+            if (categorizedIssues[priority].includes(issue)) {
+                return priority;
+            }
+        }
+        return 'low';
+    }
+}
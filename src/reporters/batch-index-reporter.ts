@@ -0,0 +1,179 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { BatchBookResult } from '../types';
+import { Logger } from '../utils/common';
+
+/**
+ * Aggregate report for batch runs, linking each book's own HTML report
+ */
+export class BatchIndexReporter {
+    private logger: Logger;
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+    }
+
+    async generateReport(results: BatchBookResult[], outputPath: string, startTime: Date): Promise<void> {
+        this.logger.info(`Generating batch index report: ${outputPath}`);
+
+        const html = this.generateHtmlContent(results, path.dirname(outputPath), startTime);
+        await fs.writeFile(outputPath, html, 'utf8');
+
+        this.logger.success(`Batch index report generated: ${outputPath}`);
+    }
+
+    private generateHtmlContent(results: BatchBookResult[], reportDir: string, startTime: Date): string {
+        const succeeded = results.filter(r => r.status !== 'failed');
+        const failed = results.filter(r => r.status === 'failed');
+        const scored = succeeded.filter(r => r.accessibilityScore !== undefined);
+        const averageScore = scored.length > 0 ?
+            Math.round(scored.reduce((sum, r) => sum + (r.accessibilityScore || 0), 0) / scored.length) : undefined;
+        const duration = Math.round((Date.now() - startTime.getTime()) / 1000);
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>EPUB Accessibility Batch Report</title>
+    <style>
+        ${this.getReportStyles()}
+    </style>
+</head>
+<body>
+    <div class="container">
+        <header class="report-header">
+            <h1>EPUB Accessibility Batch Report</h1>
+            <p>${results.length} EPUBs processed on ${startTime.toLocaleString()} in ${duration}s</p>
+        </header>
+
+        <section class="summary">
+            <h2>Summary</h2>
+            <div class="summary-grid">
+                <div class="summary-card success">
+                    <h3>Processed</h3>
+                    <div class="summary-number">${succeeded.length}</div>
+                </div>
+                <div class="summary-card critical">
+                    <h3>Failed</h3>
+                    <div class="summary-number">${failed.length}</div>
+                </div>
+                <div class="summary-card">
+                    <h3>Total Issues</h3>
+                    <div class="summary-number">${succeeded.reduce((sum, r) => sum + r.totalIssues, 0)}</div>
+                </div>
+                <div class="summary-card">
+                    <h3>Fixed Issues</h3>
+                    <div class="summary-number">${succeeded.reduce((sum, r) => sum + r.fixedIssues, 0)}</div>
+                </div>
+                <div class="summary-card">
+                    <h3>Average Accessibility Score</h3>
+                    <div class="summary-number">${averageScore !== undefined ? averageScore : 'N/A'}</div>
+                </div>
+            </div>
+        </section>
+
+        <section class="books">
+            <h2>Books</h2>
+            <table>
+                <thead>
+                    <tr>
+                        <th>EPUB</th>
+                        <th>Status</th>
+                        <th>Issues</th>
+                        <th>Critical</th>
+                        <th>Fixed</th>
+                        <th>Validation Errors</th>
+                        <th>Accessibility Score</th>
+                        <th>Report</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${results.map(result => this.generateBookRow(result, reportDir)).join('')}
+                </tbody>
+            </table>
+        </section>
+    </div>
+</body>
+</html>`;
+    }
+
+    private generateBookRow(result: BatchBookResult, reportDir: string): string {
+        const link = (target: string | undefined, label: string) => target ?
+            `<a href="${this.escapeHtml(path.relative(reportDir, target).split(path.sep).join('/'))}">${label}</a>` : '';
+
+        if (result.status === 'failed') {
+            return `
+                    <tr class="failed">
+                        <td>${this.escapeHtml(path.basename(result.input))}<div class="epub-path">${this.escapeHtml(result.input)}</div></td>
+                        <td><span class="status failed">FAILED</span></td>
+                        <td colspan="5" class="error">${this.escapeHtml(result.error || 'Unknown error')}</td>
+                        <td>${link(result.logPath, 'Log')}</td>
+                    </tr>`;
+        }
+
+        const score = result.accessibilityScore;
+        return `
+                    <tr>
+                        <td>${this.escapeHtml(result.title || path.basename(result.input))}<div class="epub-path">${this.escapeHtml(result.input)}</div></td>
+                        <td><span class="status ${result.status}">${result.status.toUpperCase()}</span></td>
+                        <td>${result.totalIssues}</td>
+                        <td>${result.criticalIssues}</td>
+                        <td>${result.fixedIssues}</td>
+                        <td>${result.validationErrors}</td>
+                        <td>${score !== undefined ? `<span class="score ${this.getScoreClass(score)}">${score}/100</span>` : 'N/A'}</td>
+                        <td>${[link(result.reportPath, 'Report'), link(result.outputPath, 'EPUB'), link(result.logPath, 'Log')].filter(l => l).join(' · ')}</td>
+                    </tr>`;
+    }
+
+    private escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+
+    private getScoreClass(score: number): string {
+        if (score >= 90) return 'excellent';
+        if (score >= 70) return 'good';
+        if (score >= 50) return 'fair';
+        return 'poor';
+    }
+
+    private getReportStyles(): string {
+        return `
+        * { box-sizing: border-box; }
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; padding: 20px; background: #f5f5f5; line-height: 1.6; }
+        .container { max-width: 1200px; margin: 0 auto; background: white; border-radius: 8px; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+        .report-header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; border-radius: 8px 8px 0 0; }
+        .report-header h1 { margin: 0 0 10px 0; font-size: 2.5em; }
+
+        .summary, .books { padding: 30px; border-bottom: 1px solid #eee; }
+        .summary h2, .books h2 { margin-top: 0; color: #333; }
+        .summary-grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(180px, 1fr)); gap: 20px; }
+        .summary-card { background: #f8f9fa; padding: 20px; border-radius: 8px; text-align: center; }
+        .summary-card.critical { background: #ffe6e6; }
+        .summary-card.success { background: #e6f7e6; }
+        .summary-card h3 { margin: 0 0 10px 0; color: #666; font-size: 0.9em; text-transform: uppercase; }
+        .summary-number { font-size: 2.5em; font-weight: bold; color: #333; }
+
+        table { width: 100%; border-collapse: collapse; }
+        th, td { padding: 10px; border-bottom: 1px solid #eee; text-align: left; vertical-align: top; }
+        th { background: #f8f9fa; color: #666; font-size: 0.85em; text-transform: uppercase; }
+        tr.failed { background: #fff5f5; }
+        .epub-path { font-family: monospace; font-size: 0.8em; color: #888; }
+        .error { color: #721c24; }
+        .status { padding: 4px 8px; border-radius: 4px; font-size: 0.8em; font-weight: bold; }
+        .status.fixed { background: #d4edda; color: #155724; }
+        .status.analyzed { background: #d1ecf1; color: #0c5460; }
+        .status.failed { background: #f8d7da; color: #721c24; }
+        .score { padding: 4px 10px; border-radius: 20px; font-weight: bold; }
+        .score.excellent { background: #d4edda; color: #155724; }
+        .score.good { background: #d1ecf1; color: #0c5460; }
+        .score.fair { background: #fff3cd; color: #856404; }
+        .score.poor { background: #f8d7da; color: #721c24; }
+        `;
+    }
+}
@@ -0,0 +1,53 @@
+import { AccessibilityIssue } from '../types';
+import { BaseReporter, ReportInput } from './base-reporter';
+
+const CSV_COLUMNS = [
+    'category', 'type', 'severity', 'priority', 'code', 'message', 'file', 'line', 'column', 'xpath',
+    'fixable', 'fixed', 'wcag_level', 'wcag_criteria', 'impact'
+];
+
+/**
+ * One row per issue, for spreadsheets
+ */
+export class CsvReporter extends BaseReporter {
+    getFormat(): string {
+        return 'csv';
+    }
+
+    getFileExtension(): string {
+        return '.csv';
+    }
+
+    render(input: ReportInput): string {
+        const rows = this.getAllIssues(input).map(issue => {
+            const accessibilityIssue = issue as AccessibilityIssue;
+            return [
+                issue.category,
+                issue.type,
+                issue.severity,
+                this.getPriority(issue, input.categorizedIssues),
+                issue.code,
+                issue.message,
+                issue.location?.file,
+                issue.location?.line,
+                issue.location?.column,
+                issue.location?.xpath,
+                issue.fixable,
+                issue.fixed === true,
+                accessibilityIssue.wcagLevel,
+                (accessibilityIssue.wcagCriteria || []).join(' '),
+                accessibilityIssue.impact
+            ];
+        });
+
+        return [CSV_COLUMNS, ...rows].map(row => row.map(value => this.escapeCsv(value)).join(',')).join('\r\n') + '\r\n';
+    }
+
+    private escapeCsv(value: unknown): string {
+        if (value === undefined || value === null) {
+            return '';
+        }
+        const text = String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }
+}
@@ -1,8 +1,9 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { AnalysisResult, ValidationIssue, AccessibilityIssue, ProcessingContext, FixResult } from '../types';
+import { AnalysisResult, ValidationIssue, AccessibilityIssue, ProcessingContext, FixResult, SourceExcerpt, RenditionSummary } from '../types';
 import { Logger } from '../utils/common';
 import { CategorizedIssues } from '../core/issue-categorizer';
+import { summarizeRenditions } from '../core/renditions';
 import { ImageReviewGenerator } from './image-review-generator';
 
 export interface ReportData {
@@ -29,8 +30,10 @@ export interface ReportData {
         accessibilityScore?: number;
     };
     issues: CategorizedIssues;
+    suppressed: ValidationIssue[]; // Issues matching the --baseline file
     fixes: FixResult[];
     recommendations: string[];
+    renditions?: RenditionSummary[]; // Set for multi-rendition EPUBs
 }
 
 export class HtmlReportGenerator {
@@ -83,18 +86,20 @@ export class HtmlReportGenerator {
         const epubStats = this.getEpubStats(context);
         const duration = Date.now() - analysisStartTime.getTime();
 
-        const totalIssues = context.issues.length;
+        // Issues suppressed by a baseline are listed separately and left out of counts and scores
+        const activeIssues = context.issues.filter(i => !i.suppressed);
+        const totalIssues = activeIssues.length;
         const criticalIssues = categorizedIssues.critical.length;
         // Calculate fixable issues as the count of issues that either:
         // 1. Were initially marked as fixable, OR
         // 2. Actually got fixed (regardless of initial fixable status)
         const initiallyFixable = categorizedIssues.fixable.length;
-        const actuallyFixed = context.issues.filter(i => i.fixed === true).length;
+        const actuallyFixed = activeIssues.filter(i => i.fixed === true).length;
         const fixableIssues = Math.max(initiallyFixable, actuallyFixed);
         const fixedIssues = actuallyFixed;
 
-        const validationScore = this.calculateValidationScore(context.issues);
-        const accessibilityScore = this.calculateAccessibilityScore(context.issues);
+        const validationScore = this.calculateValidationScore(activeIssues);
+        const accessibilityScore = this.calculateAccessibilityScore(activeIssues);
 
         const reportData = {
             epub: {
@@ -120,8 +125,10 @@ export class HtmlReportGenerator {
                 accessibilityScore
             },
             issues: categorizedIssues,
+            suppressed: context.issues.filter(i => i.suppressed),
             fixes,
-            recommendations: this.generateRecommendations(categorizedIssues)
+            recommendations: this.generateRecommendations(categorizedIssues),
+            renditions: summarizeRenditions(context, activeIssues)
         };
 
         // Store the report data for use in other methods
@@ -297,6 +304,25 @@ export class HtmlReportGenerator {
             </div>
         </section>
 
+        ${data.renditions ? `
+        <section class="renditions">
+            <h2>Renditions</h2>
+            <table class="renditions-table">
+                <thead><tr><th>Rendition</th><th>Package document</th><th>Issues</th><th>Fixed</th></tr></thead>
+                <tbody>
+                    ${data.renditions.map(rendition => `
+                    <tr>
+                        <td>${this.escapeHtml(rendition.label)}</td>
+                        <td class="source-path">${this.escapeHtml(rendition.packagePath)}</td>
+                        <td>${rendition.issues}</td>
+                        <td>${rendition.fixedIssues}</td>
+                    </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </section>
+        ` : ''}
+
         ${data.recommendations.length > 0 ? `
         <section class="recommendations">
             <h2>Recommendations</h2>
@@ -315,6 +341,14 @@ export class HtmlReportGenerator {
             ${this.generateIssueSection('Low Priority Issues', data.issues.low, 'low')}
         </section>
 
+        ${data.suppressed.length > 0 ? `
+        <section class="issues suppressed-issues">
+            <h2>Suppressed by Baseline</h2>
+            <p class="suppressed-note">These issues match the baseline file. They are not included in the counts and scores above.</p>
+            ${this.generateIssueSection('Baselined Issues', data.suppressed, 'suppressed')}
+        </section>
+        ` : ''}
+
         ${data.fixes.length > 0 ? `
         <section class="fixes">
             <h2>Applied Fixes</h2>
@@ -380,6 +414,7 @@ export class HtmlReportGenerator {
                     <div class="issue-fix-detail-item">
                         <div class="fix-explanation">${detail.explanation}</div>
                         ${detail.element ? `<div class="fix-element">Element: &lt;${detail.element}&gt;</div>` : ''}
+                        ${detail.excerpt ? this.renderExcerpt(detail.excerpt, detail.line) : ''}
                     </div>
                     `).join('')}
                 </div>
@@ -412,14 +447,22 @@ export class HtmlReportGenerator {
             <span class="issue-type ${issue.type}">${issue.type.toUpperCase()}</span>
             ${issue.fixable ? '<span class="fixable">FIXABLE</span>' : ''}
             ${issue.fixed ? '<span class="fixed-badge">FIXED</span>' : ''}
+            ${issue.fixed && issue.fixedInIteration ? `<span class="iteration-badge">Iteration ${issue.fixedInIteration}</span>` : ''}
+            ${issue.introducedInIteration ? `<span class="iteration-badge">New after iteration ${issue.introducedInIteration}</span>` : ''}
         </div>
         <div class="issue-message">${issue.message}</div>
         ${issue.location ? `
         <div class="issue-location">
+            ${issue.rendition ? `<div class="issue-rendition">${this.escapeHtml(this.getRenditionLabel(issue.rendition))}</div>` : ''}
             ${issue.location.file ? `File: ${issue.location.file}` : ''}
-            ${issue.location.line ? ` (Line ${issue.location.line})` : ''}
+            ${issue.location.line ? ` (Line ${issue.location.line}${issue.location.column ? `, column ${issue.location.column}` : ''})` : ''}
+            ${issue.location.xpath ? `<div class="source-path">${this.escapeHtml(issue.location.xpath)}</div>` : ''}
+            ${issue.location.cfi ? `<div class="source-path">${this.escapeHtml(issue.location.cfi)}</div>` : ''}
+            ${issue.equivalentLocations ? `<div class="equivalent-locations">Also in: ${issue.equivalentLocations.map(location =>
+                `${this.escapeHtml(this.getRenditionLabel(location.rendition))} ${this.escapeHtml(location.file + (location.fragment ? `#${location.fragment}` : ''))}`).join('; ')}</div>` : ''}
         </div>
         ` : ''}
+        ${issue.excerpt ? this.renderExcerpt(issue.excerpt, issue.location?.line) : ''}
         ${isAccessibility && accessibilityIssue.wcagCriteria ? `
         <div class="wcag-info">
             WCAG ${accessibilityIssue.wcagLevel}: ${accessibilityIssue.wcagCriteria.join(', ')}
@@ -444,7 +487,10 @@ export class HtmlReportGenerator {
                 ${fixDetails.map(detail => `
                 <div class="fix-detail-item">
                     <div class="fix-explanation">${detail.explanation}</div>
-                    <div class="fix-file-path">File: ${detail.filePath}</div>
+                    <div class="fix-file-path">File: ${detail.filePath}${detail.line ? ` (Line ${detail.line}, column ${detail.column})` : ''}</div>
+                    ${detail.xpath ? `<div class="source-path">${this.escapeHtml(detail.xpath)}</div>` : ''}
+                    ${detail.cfi ? `<div class="source-path">${this.escapeHtml(detail.cfi)}</div>` : ''}
+                    ${detail.excerpt ? this.renderExcerpt(detail.excerpt, detail.line) : ''}
                     ${detail.originalContent || detail.fixedContent ? `
                     <div class="fix-content-comparison">
                         ${detail.originalContent ? `
@@ -472,6 +518,7 @@ export class HtmlReportGenerator {
         <div class="fix-status">${fix.success ? '✓' : '✗'}</div>
         <div class="fix-content">
             <div class="fix-message">${fix.message}</div>
+            ${fix.rendition ? `<div class="issue-rendition">${this.escapeHtml(this.getRenditionLabel(fix.rendition))}</div>` : ''}
             ${fix.changedFiles && fix.changedFiles.length > 0 ? `
             <div class="fix-files">Changed files: ${fix.changedFiles.join(', ')}</div>
             ` : ''}
@@ -480,6 +527,24 @@ export class HtmlReportGenerator {
     </div>`;
     }
 
+    /**
+     * Numbered source lines with the located line highlighted
+     */
+    private renderExcerpt(excerpt: SourceExcerpt, line?: number): string {
+        const width = String(excerpt.startLine + excerpt.lines.length - 1).length;
+        const lines = excerpt.lines.map((text, index) => {
+            const number = excerpt.startLine + index;
+            const content = `${String(number).padStart(width)} | ${this.escapeHtml(text)}`;
+            return number === line ? `<mark>${content}</mark>` : content;
+        });
+        return `<pre class="source-excerpt">${lines.join('\n')}</pre>`;
+    }
+
+    private getRenditionLabel(id: string): string {
+        const rendition = this.reportData?.renditions?.find(candidate => candidate.id === id);
+        return rendition ? rendition.label : id;
+    }
+
     private escapeHtml(text: string): string {
         return text
             .replace(/&/g, '&amp;')
@@ -829,6 +894,10 @@ export class HtmlReportGenerator {
             font-size: 0.85em; 
         }
         
+        .renditions { padding: 30px; border-bottom: 1px solid #eee; }
+        .renditions h2 { margin-top: 0; color: #333; }
+        .renditions-table { width: 100%; border-collapse: collapse; }
+        .renditions-table th, .renditions-table td { text-align: left; padding: 6px 10px; border-bottom: 1px solid #eee; }
         .recommendations { padding: 30px; border-bottom: 1px solid #eee; }
         .recommendations h2 { margin-top: 0; color: #333; }
         .recommendations ul { padding-left: 20px; }
@@ -845,6 +914,9 @@ export class HtmlReportGenerator {
         .issue-item.medium { border-left: 4px solid #ffc107; }
         .issue-item.low { border-left: 4px solid #28a745; }
         .issue-item.fixed { background: #f8f9fa; opacity: 0.8; }
+        .issue-item.suppressed { border-left: 4px solid #adb5bd; background: #f8f9fa; }
+        .suppressed-issues { border-top: 1px solid #eee; }
+        .suppressed-note { color: #666; }
         
         .issue-header { display: flex; gap: 10px; margin-bottom: 10px; align-items: center; }
         .issue-code { background: #e9ecef; padding: 4px 8px; border-radius: 4px; font-family: monospace; font-size: 0.9em; }
@@ -854,9 +926,15 @@ export class HtmlReportGenerator {
         .issue-type.info { background: #17a2b8; color: white; }
         .fixable { background: #28a745; color: white; padding: 4px 8px; border-radius: 4px; font-size: 0.8em; }
         .fixed-badge { background: #6c757d; color: white; padding: 4px 8px; border-radius: 4px; font-size: 0.8em; }
+        .iteration-badge { background: #e9ecef; color: #495057; padding: 4px 8px; border-radius: 4px; font-size: 0.8em; }
         
         .issue-message { font-weight: 500; margin-bottom: 8px; }
         .issue-location { font-size: 0.9em; color: #666; font-family: monospace; }
+        .source-path { font-size: 0.85em; color: #888; font-family: monospace; word-break: break-all; }
+        .issue-rendition, .equivalent-locations { font-size: 0.85em; color: #555; }
+
+        .source-excerpt { background: #f8f9fa; border: 1px solid #e9ecef; border-radius: 4px; padding: 8px; margin: 8px 0 0; font-size: 0.85em; overflow-x: auto; }
+        .source-excerpt mark { background: #fff3cd; }
         .issue-details { font-size: 0.9em; color: #666; margin-top: 8px; }
         
         .special-note {
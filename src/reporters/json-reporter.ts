@@ -0,0 +1,100 @@
+import { AccessibilityIssue } from '../types';
+import { fingerprintIssue } from '../core/baseline';
+import { BaseReporter, ReportInput, TOOL_NAME, TOOL_VERSION } from './base-reporter';
+
+/**
+ * Version of the JSON report layout documented in REPORT-FORMATS.md.
+ * Bump the major version for breaking changes, the minor version for additions.
+ */
+export const JSON_REPORT_SCHEMA_VERSION = '1.3';
+
+export class JsonReporter extends BaseReporter {
+    getFormat(): string {
+        return 'json';
+    }
+
+    getFileExtension(): string {
+        return '.json';
+    }
+
+    render(input: ReportInput): string {
+        const { result, categorizedIssues, fixes } = input;
+        const issues = this.getAllIssues(input);
+
+        const report = {
+            schemaVersion: JSON_REPORT_SCHEMA_VERSION,
+            tool: { name: TOOL_NAME, version: TOOL_VERSION },
+            generatedAt: new Date().toISOString(),
+            durationMs: Date.now() - input.startTime.getTime(),
+            epub: {
+                path: result.epub.path,
+                title: result.epub.title || null,
+                metadata: result.epub.metadata,
+                renditions: result.epub.renditions
+            },
+            summary: {
+                ...result.summary,
+                valid: result.validation.valid,
+                accessibilityScore: result.accessibility.score !== undefined ? result.accessibility.score : null
+            },
+            issues: issues.map((issue, index) => {
+                const accessibilityIssue = issue as AccessibilityIssue;
+                return {
+                    id: index + 1,
+                    category: issue.category,
+                    type: issue.type,
+                    severity: issue.severity,
+                    priority: this.getPriority(issue, categorizedIssues),
+                    code: issue.code,
+                    fingerprint: issue.fingerprint || fingerprintIssue(issue),
+                    message: issue.message,
+                    location: issue.location || null,
+                    rendition: issue.rendition,
+                    equivalentLocations: issue.equivalentLocations,
+                    fixable: issue.fixable,
+                    fixed: issue.fixed === true,
+                    fixedInIteration: issue.fixedInIteration,
+                    introducedInIteration: issue.introducedInIteration,
+                    details: issue.details,
+                    wcag: issue.category === 'accessibility' ? {
+                        level: accessibilityIssue.wcagLevel,
+                        criteria: accessibilityIssue.wcagCriteria || [],
+                        impact: accessibilityIssue.impact
+                    } : undefined,
+                    element: accessibilityIssue.element
+                };
+            }),
+            fixes: fixes.map(fix => ({
+                success: fix.success,
+                message: fix.message,
+                rendition: fix.rendition,
+                changedFiles: fix.changedFiles || [],
+                fixDetails: (fix.fixDetails || []).map(detail => ({
+                    filePath: detail.filePath,
+                    explanation: detail.explanation,
+                    element: detail.element,
+                    attribute: detail.attribute,
+                    oldValue: detail.oldValue,
+                    newValue: detail.newValue,
+                    issueCode: detail.issueCode,
+                    selector: detail.selector,
+                    line: detail.line,
+                    column: detail.column,
+                    xpath: detail.xpath,
+                    cfi: detail.cfi
+                }))
+            })),
+            iterations: result.iterations || [],
+            suppressed: (result.suppressedIssues || []).map(issue => ({
+                category: issue.category,
+                severity: issue.severity,
+                code: issue.code,
+                fingerprint: issue.fingerprint || fingerprintIssue(issue),
+                message: issue.message,
+                location: issue.location || null
+            }))
+        };
+
+        return JSON.stringify(report, null, 2);
+    }
+}
@@ -0,0 +1,85 @@
+import { ValidationIssue } from '../types';
+import { BaseReporter, ReportInput } from './base-reporter';
+
+/**
+ * JUnit XML with one testsuite per issue category and one testcase per rule.
+ * A rule fails when it has unfixed errors or warnings.
+ */
+export class JunitReporter extends BaseReporter {
+    getFormat(): string {
+        return 'junit';
+    }
+
+    getFileExtension(): string {
+        return '.junit.xml';
+    }
+
+    render(input: ReportInput): string {
+        const issues = this.getAllIssues(input);
+        const epubName = input.result.epub.title || input.result.epub.path;
+        const suites: string[] = [];
+        let totalTests = 0;
+        let totalFailures = 0;
+
+        for (const category of ['validation', 'accessibility'] as const) {
+            const rules = new Map<string, ValidationIssue[]>();
+            for (const issue of issues.filter(i => i.category === category)) {
+                rules.set(issue.code, [...(rules.get(issue.code) || []), issue]);
+            }
+
+            const testcases: string[] = [];
+            let failures = 0;
+            for (const [code, ruleIssues] of rules) {
+                const failing = ruleIssues.filter(i => !i.fixed && i.type !== 'info');
+                if (failing.length > 0) {
+                    failures++;
+                }
+                testcases.push(this.generateTestcase(category, code, ruleIssues, failing));
+            }
+
+            totalTests += rules.size;
+            totalFailures += failures;
+            suites.push(`    <testsuite name="${this.escapeXml(`${category}: ${epubName}`)}" tests="${rules.size}" failures="${failures}" errors="0" skipped="0">
+${testcases.join('\n')}
+    </testsuite>`);
+        }
+
+        const time = ((Date.now() - input.startTime.getTime()) / 1000).toFixed(3);
+        return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="${this.escapeXml(epubName)}" tests="${totalTests}" failures="${totalFailures}" errors="0" time="${time}">
+${suites.join('\n')}
+</testsuites>
+`;
+    }
+
+    private generateTestcase(category: string, code: string, issues: ValidationIssue[], failing: ValidationIssue[]): string {
+        const name = this.escapeXml(code);
+        const classname = `epub.${category}`;
+        const describe = (issue: ValidationIssue) => {
+            const location = issue.location?.file ?
+                ` (${issue.location.file}${issue.location.line ? `:${issue.location.line}` : ''})` : '';
+            return `[${issue.severity}] ${issue.message}${location}${issue.fixed ? ' - fixed' : ''}`;
+        };
+
+        if (failing.length === 0) {
+            return `        <testcase name="${name}" classname="${classname}">
+            <system-out>${this.escapeXml(issues.map(describe).join('\n'))}</system-out>
+        </testcase>`;
+        }
+
+        const worst = failing.some(i => i.severity === 'critical') ? 'critical' :
+            failing.some(i => i.severity === 'major') ? 'major' : 'minor';
+        return `        <testcase name="${name}" classname="${classname}">
+            <failure message="${this.escapeXml(`${failing.length} unfixed issue(s): ${failing[0].message}`)}" type="${worst}">${this.escapeXml(failing.map(describe).join('\n'))}</failure>
+        </testcase>`;
+    }
+
+    private escapeXml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&apos;');
+    }
+}
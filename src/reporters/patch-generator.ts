@@ -0,0 +1,142 @@
+import * as fs from 'fs-extra';
+import { ContentChange, ProcessingContext } from '../types';
+import { Logger } from '../utils/common';
+import { DiffOp, buildHunks, diffLines, formatHunk, splitLines } from '../utils/text-diff';
+
+/**
+ * Owner of one line of a file while replaying the recorded changes:
+ * the change that inserted it and the changes that deleted lines just before it.
+ */
+interface LineOwner {
+    change: number | null;
+    deletedBefore: Set<number>;
+}
+
+/**
+ * Writes a unified diff of every text file the fixers modified, comparing the
+ * extracted original with the final content. Each hunk is labelled with the
+ * fixers (and issue codes) whose recorded changes produced it.
+ */
+export class PatchGenerator {
+    private logger: Logger;
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+    }
+
+    async generatePatch(context: ProcessingContext, outputPath: string): Promise<number> {
+        const patch = this.createPatch(context);
+        await fs.writeFile(outputPath, patch.text, 'utf8');
+        this.logger.success(`Patch for ${patch.files} modified files written to ${outputPath}`);
+        return patch.files;
+    }
+
+    createPatch(context: ProcessingContext): { text: string; files: number } {
+        const changes = context.changes || [];
+        const filePaths = Array.from(new Set(changes.map(change => change.filePath))).sort();
+        let text = '';
+        let files = 0;
+
+        for (const filePath of filePaths) {
+            const fileChanges = changes.filter(change => change.filePath === filePath);
+            const content = context.contents.get(filePath);
+            const original = fileChanges[0].before;
+            const final = content && typeof content.content === 'string' ? content.content : fileChanges[fileChanges.length - 1].after;
+
+            if (original === final) {
+                continue;
+            }
+
+            text += this.createFilePatch(filePath, original, final, fileChanges);
+            files++;
+        }
+
+        return { text, files };
+    }
+
+    private createFilePatch(filePath: string, original: string, final: string, changes: ContentChange[]): string {
+        const owners = this.replayChanges(original, changes);
+        const ops = diffLines(splitLines(original), splitLines(final));
+
+        let text = `# ${filePath}\n`;
+        const seen = new Set<string>();
+        for (const change of changes) {
+            for (const detail of change.fixDetails || []) {
+                const line = `#   ${change.fixerName} (${change.issueCode}): ${detail.explanation.replace(/\s+/g, ' ')}`;
+                if (!seen.has(line)) {
+                    seen.add(line);
+                    text += `${line}\n`;
+                }
+            }
+        }
+
+        text += `--- ${original ? `a/${filePath}` : '/dev/null'}\n`;
+        text += `+++ b/${filePath}\n`;
+
+        for (const hunk of buildHunks(ops)) {
+            text += formatHunk(hunk, this.describeHunk(hunk.ops, owners, changes));
+        }
+
+        return text;
+    }
+
+    /**
+     * Apply the recorded changes one by one, tracking which change produced each line
+     */
+    private replayChanges(original: string, changes: ContentChange[]): { lines: LineOwner[]; end: Set<number> } {
+        let owners: LineOwner[] = splitLines(original).map(() => ({ change: null, deletedBefore: new Set<number>() }));
+        const end = new Set<number>();
+
+        changes.forEach((change, changeIndex) => {
+            const next: LineOwner[] = [];
+            let pending = new Set<number>();
+
+            for (const op of diffLines(splitLines(change.before), splitLines(change.after))) {
+                const previous = owners[op.oldIndex];
+                if (op.type === 'delete') {
+                    pending.add(changeIndex);
+                    previous?.deletedBefore.forEach(index => pending.add(index));
+                    continue;
+                }
+
+                const owner: LineOwner = op.type === 'insert' ?
+                    { change: changeIndex, deletedBefore: pending } :
+                    { change: previous ? previous.change : null, deletedBefore: new Set([...(previous?.deletedBefore || []), ...pending]) };
+                next.push(owner);
+                pending = new Set<number>();
+            }
+
+            pending.forEach(index => end.add(index));
+            owners = next;
+        });
+
+        return { lines: owners, end };
+    }
+
+    private describeHunk(ops: DiffOp[], owners: { lines: LineOwner[]; end: Set<number> }, changes: ContentChange[]): string {
+        const involved = new Set<number>();
+
+        for (const op of ops) {
+            if (op.type === 'insert') {
+                const owner = owners.lines[op.newIndex];
+                if (owner && owner.change !== null) {
+                    involved.add(owner.change);
+                }
+            } else if (op.type === 'delete') {
+                const following = owners.lines[op.newIndex];
+                (following ? following.deletedBefore : owners.end).forEach(index => involved.add(index));
+            }
+        }
+
+        // Fall back to every change of the file when the replay can't tell
+        const indexes = involved.size > 0 ? Array.from(involved) : changes.map((_, index) => index);
+        const labels: string[] = [];
+        for (const index of indexes.sort((a, b) => a - b)) {
+            const label = `${changes[index].fixerName} [${changes[index].issueCode}]`;
+            if (!labels.includes(label)) {
+                labels.push(label);
+            }
+        }
+        return labels.join(', ');
+    }
+}
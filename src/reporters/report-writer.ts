@@ -0,0 +1,62 @@
+import { Logger } from '../utils/common';
+import { BaseReporter, ReportInput } from './base-reporter';
+import { JsonReporter } from './json-reporter';
+import { SarifReporter } from './sarif-reporter';
+import { JunitReporter } from './junit-reporter';
+import { CsvReporter } from './csv-reporter';
+
+/**
+ * Registry of the machine-readable reporters selectable with --format.
+ * The HTML report is always written by HtmlReportGenerator, so 'html' is accepted as a no-op.
+ */
+export class ReportWriter {
+    private logger: Logger;
+    private reporters: BaseReporter[] = [];
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+        this.reporters = [
+            new JsonReporter(logger),
+            new SarifReporter(logger),
+            new JunitReporter(logger),
+            new CsvReporter(logger)
+        ];
+    }
+
+    registerReporter(reporter: BaseReporter): void {
+        this.reporters = this.reporters.filter(r => r.getFormat() !== reporter.getFormat());
+        this.reporters.push(reporter);
+    }
+
+    getFormats(): string[] {
+        return ['html', ...this.reporters.map(r => r.getFormat())];
+    }
+
+    /**
+     * Write one report per requested format next to basePath (a path without extension).
+     * Returns the written files keyed by format.
+     */
+    async writeReports(formats: string[], input: ReportInput, basePath: string): Promise<{ [format: string]: string }> {
+        const written: { [format: string]: string } = {};
+
+        for (const format of formats) {
+            const reporter = this.reporters.find(r => r.getFormat() === format);
+            if (!reporter) {
+                if (format !== 'html') {
+                    this.logger.warn(`Unknown report format: ${format}`);
+                }
+                continue;
+            }
+
+            const outputPath = `${basePath}${reporter.getFileExtension()}`;
+            try {
+                await reporter.generateReport(input, outputPath);
+                written[format] = outputPath;
+            } catch (error) {
+                this.logger.error(`Failed to write ${format} report: ${error}`);
+            }
+        }
+
+        return written;
+    }
+}
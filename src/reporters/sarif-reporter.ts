@@ -0,0 +1,122 @@
+import { AccessibilityIssue, ValidationIssue } from '../types';
+import { BaseReporter, ReportInput, TOOL_NAME, TOOL_VERSION } from './base-reporter';
+import { fingerprintIssue } from '../core/baseline';
+
+/**
+ * SARIF 2.1.0 output for code-scanning dashboards. Issue locations become physical
+ * locations relative to the EPUB root (the EPUBROOT uri base id). Issues hidden by
+ * a baseline are included with an external suppression.
+ */
+export class SarifReporter extends BaseReporter {
+    getFormat(): string {
+        return 'sarif';
+    }
+
+    getFileExtension(): string {
+        return '.sarif';
+    }
+
+    render(input: ReportInput): string {
+        const issues = [...this.getAllIssues(input), ...(input.result.suppressedIssues || [])];
+        const ruleIndex = new Map<string, number>();
+        const rules: any[] = [];
+
+        for (const issue of issues) {
+            if (!ruleIndex.has(issue.code)) {
+                ruleIndex.set(issue.code, rules.length);
+                rules.push(this.createRule(issue));
+            }
+        }
+
+        const sarif = {
+            $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+            version: '2.1.0',
+            runs: [{
+                tool: {
+                    driver: {
+                        name: TOOL_NAME,
+                        version: TOOL_VERSION,
+                        rules
+                    }
+                },
+                originalUriBaseIds: {
+                    EPUBROOT: {
+                        description: { text: `Root of the EPUB container ${input.result.epub.path}` }
+                    }
+                },
+                artifacts: [{
+                    location: { uri: input.result.epub.path.split('\\').join('/') },
+                    description: { text: input.result.epub.title || 'EPUB publication' }
+                }],
+                results: issues.map(issue => this.createResult(issue, ruleIndex.get(issue.code)!))
+            }]
+        };
+
+        return JSON.stringify(sarif, null, 2);
+    }
+
+    private createRule(issue: ValidationIssue): any {
+        const accessibilityIssue = issue as AccessibilityIssue;
+        const tags: string[] = [issue.category];
+        if (issue.category === 'accessibility') {
+            tags.push(...(accessibilityIssue.wcagCriteria || []).map(criterion => `wcag${criterion}`));
+        }
+
+        return {
+            id: issue.code,
+            shortDescription: { text: issue.message },
+            defaultConfiguration: { level: this.getLevel(issue) },
+            properties: {
+                category: issue.category,
+                tags,
+                wcagLevel: accessibilityIssue.wcagLevel
+            }
+        };
+    }
+
+    private createResult(issue: ValidationIssue, index: number): any {
+        const result: any = {
+            ruleId: issue.code,
+            ruleIndex: index,
+            level: issue.fixed ? 'none' : this.getLevel(issue),
+            kind: issue.fixed ? 'pass' : 'fail',
+            message: { text: issue.message },
+            partialFingerprints: { 'epubFixIssue/v1': issue.fingerprint || fingerprintIssue(issue) },
+            properties: {
+                severity: issue.severity,
+                fixable: issue.fixable,
+                fixed: issue.fixed === true
+            }
+        };
+
+        if (issue.suppressed) {
+            result.suppressions = [{ kind: 'external', justification: 'Matched the baseline file' }];
+        }
+
+        if (issue.location?.file) {
+            const physicalLocation: any = {
+                artifactLocation: { uri: encodeURI(issue.location.file), uriBaseId: 'EPUBROOT' }
+            };
+            if (issue.location.line && issue.location.line > 0) {
+                physicalLocation.region = { startLine: issue.location.line };
+                if (issue.location.column && issue.location.column > 0) {
+                    physicalLocation.region.startColumn = issue.location.column;
+                }
+            }
+
+            const location: any = { physicalLocation };
+            if (issue.location.xpath) {
+                location.logicalLocations = [{ fullyQualifiedName: issue.location.xpath, kind: 'element' }];
+            }
+            result.locations = [location];
+        }
+
+        return result;
+    }
+
+    private getLevel(issue: ValidationIssue): 'error' | 'warning' | 'note' {
+        if (issue.type === 'error') return 'error';
+        if (issue.type === 'warning') return 'warning';
+        return 'note';
+    }
+}
@@ -1,3 +1,7 @@
+import { DocumentCache } from '../core/document-cache';
+import { ArchiveLimits } from '../utils/archive-safety';
+import { ToolName } from '../utils/process-runner';
+
 export interface EpubManifest {
     items: ManifestItem[];
     spine: SpineItem[];
@@ -47,10 +51,19 @@ export interface ValidationIssue {
         line?: number;
         column?: number;
         xpath?: string;
+        selector?: string;
+        cfi?: string; // EPUB CFI of the element, or of the document for spine documents
     };
+    excerpt?: SourceExcerpt; // Source lines around the location, shown in the HTML report
+    rendition?: string; // Id of the rendition the file belongs to, set when the EPUB has more than one
+    equivalentLocations?: MappedLocation[]; // The same content in other renditions, from the rendition mapping document
     fixable: boolean;
     fixed?: boolean;
     details?: string;
+    fixedInIteration?: number; // Fix-and-reverify pass that removed the issue
+    introducedInIteration?: number; // Set when the issue first appeared after the fixes of that pass
+    fingerprint?: string; // Stable id used by baseline files
+    suppressed?: boolean; // Matched the baseline, excluded from counts, scores and exit codes
 }
 
 export interface AccessibilityIssue extends ValidationIssue {
@@ -61,6 +74,53 @@ export interface AccessibilityIssue extends ValidationIssue {
     element?: string;
 }
 
+/**
+ * One rootfile of container.xml with its own package document. Most EPUBs have one; multi-rendition
+ * EPUBs add others, such as a fixed-layout rendition next to a reflowable one.
+ */
+export interface Rendition {
+    id: string; // Path of the package document, which is unique within the container
+    index: number; // Position in container.xml; the first is the default rendition
+    label: string; // rendition:label, or a description built from the selection attributes
+    packagePath: string;
+    manifest: EpubManifest;
+    metadata: EpubMetadata;
+    selection: RenditionSelection;
+}
+
+/**
+ * Rendition selection attributes of a rootfile
+ */
+export interface RenditionSelection {
+    media?: string;
+    layout?: string;
+    language?: string;
+    accessMode?: string;
+    label?: string;
+}
+
+/**
+ * Sets of equivalent locations in different renditions, from the rendition mapping document linked in container.xml
+ */
+export interface RenditionMapping {
+    path: string;
+    locations: MappedLocation[][];
+}
+
+export interface MappedLocation {
+    rendition: string; // Rendition id
+    file: string;
+    fragment?: string;
+}
+
+/**
+ * Lines of a content file around an issue or fix location
+ */
+export interface SourceExcerpt {
+    startLine: number; // Line number of lines[0]
+    lines: string[]; // Long lines are clipped around the location
+}
+
 export interface FixDetail {
     filePath: string;
     originalContent?: string;
@@ -73,6 +133,11 @@ export interface FixDetail {
     issueCode?: string;        // Add issue code for association
     issueMessage?: string;     // Add issue message for association
     selector?: string;         // Add CSS selector or XPath for precise element identification
+    line?: number;             // Position of the changed element in the file right after the fix
+    column?: number;
+    xpath?: string;
+    cfi?: string;
+    excerpt?: SourceExcerpt;
 }
 
 export interface FixResult {
@@ -81,6 +146,16 @@ export interface FixResult {
     changedFiles?: string[];
     details?: any;
     fixDetails?: FixDetail[];
+    rendition?: string; // Rendition of the fixed issue, set when the EPUB has more than one
+}
+
+export interface RenditionSummary {
+    id: string;
+    label: string;
+    packagePath: string;
+    title?: string;
+    issues: number; // Issues in the rendition's files, suppressed ones excluded
+    fixedIssues: number;
 }
 
 export interface AnalysisResult {
@@ -89,6 +164,7 @@ export interface AnalysisResult {
         title?: string;
         metadata: EpubMetadata;
         structure: EpubManifest;
+        renditions?: RenditionSummary[]; // Set when the EPUB has more than one rendition
     };
     validation: {
         valid: boolean;
@@ -103,7 +179,12 @@ export interface AnalysisResult {
         criticalIssues: number;
         fixableIssues: number;
         fixedIssues: number;
+        remainingIssues: { critical: number; major: number; minor: number }; // Unfixed issues by severity
+        remainingValidationErrors: number;
     };
+    iterations?: IterationSummary[];
+    reports?: { [format: string]: string }; // Machine-readable reports written for --format
+    suppressedIssues?: ValidationIssue[]; // Issues hidden by --baseline
     outputFiles?: {
         daisyAce?: string;
         epubCheck?: string;
@@ -111,6 +192,28 @@ export interface AnalysisResult {
     };
 }
 
+export interface IterationSummary {
+    iteration: number;
+    issuesFound: number; // Issues reported when re-checking after this iteration's fixes
+    issuesFixed: number;
+    newIssues: number;
+    reopenedIssues: number;
+}
+
+/**
+ * State of one of the checks run on an EPUB, for progress displays
+ */
+export interface ToolProgress {
+    check: 'validation' | 'accessibility';
+    label: string; // EpubCheck, DAISY ACE or Built-in rules
+    state: 'waiting' | 'running' | 'cached' | 'done' | 'failed';
+    startedAt?: number; // Date.now() when it started running
+    duration?: number; // Milliseconds, once finished
+    issues?: number; // Issues found, once finished
+}
+
+export type ToolProgressListener = (checks: ToolProgress[]) => void;
+
 export interface CliOptions {
     input: string;
     output?: string;
@@ -124,6 +227,38 @@ export interface CliOptions {
     keepOutput?: boolean;
     verify?: boolean;
     useGemini?: boolean;  // New option to use Gemini instead of Ollama
+    onlyFixers?: string[]; // Fixer ids or groups to run, replacing the configured selection
+    skipFixers?: string[]; // Fixer ids or groups to leave out
+    iterate?: boolean; // Re-check and re-fix until the issue count stops falling
+    maxIterations?: number;
+    formats?: string[]; // Extra report formats (json, sarif, junit, csv) written next to reportPath
+    quiet?: boolean;
+    failOn?: 'critical' | 'major' | 'minor'; // Exit non-zero if unfixed issues of this severity or worse remain
+    minAccessibilityScore?: number;
+    maxValidationErrors?: number;
+    baseline?: string; // Baseline file of accepted issues to suppress
+    diff?: string; // Write a unified diff of all content changes to this path
+    interactive?: boolean; // Review each proposed change in the terminal before it is applied
+    preserveFormatting?: boolean; // Serialize changed documents as edits to their source text
+    epubcheckDaemon?: boolean; // Run EpubCheck in a long-lived JVM instead of one per check
+    noCache?: boolean; // Run EpubCheck and ACE without reading or writing the result cache
+}
+
+export interface BatchBookResult {
+    input: string;
+    status: 'fixed' | 'analyzed' | 'failed';
+    outputPath?: string;
+    reportPath?: string;
+    logPath?: string;
+    title?: string;
+    totalIssues: number;
+    criticalIssues: number;
+    fixableIssues: number;
+    fixedIssues: number;
+    validationErrors: number;
+    accessibilityScore?: number;
+    durationMs: number;
+    error?: string;
 }
 
 export interface FixerConfig {
@@ -142,6 +277,12 @@ export interface FixerConfig {
         fixBrokenLinks: boolean;
         fixInvalidXhtml: boolean;
     };
+    plugins?: string[]; // npm module names or paths of plugins with extra fixers and rules
+    preserveFormatting?: boolean; // Same as --preserve-formatting
+    archiveLimits?: Partial<ArchiveLimits>; // Overrides for the EPUB extraction limits
+    epubcheckDaemon?: boolean; // Same as --epubcheck-daemon
+    toolTimeouts?: Partial<Record<ToolName, number>>; // Milliseconds per external tool, 0 for no timeout
+    cacheDir?: string; // Where EpubCheck and ACE results are cached, ~/.cache/epub-fix by default
 }
 
 export interface EpubContent {
@@ -151,6 +292,32 @@ export interface EpubContent {
     modified: boolean;
 }
 
+/**
+ * Text of one content file before and after a single fixer call, recorded for --diff
+ */
+export interface ContentChange {
+    fixerId: string;
+    fixerName: string;
+    issueCode: string;
+    filePath: string;
+    before: string; // Empty when the fixer created the file
+    after: string;
+    fixDetails?: FixDetail[]; // The fixer's details for this file
+}
+
+/**
+ * A fixer's change computed by FixerOrchestrator.computeFix but not yet committed
+ */
+export interface ProposedFix {
+    issue: ValidationIssue;
+    fixerId: string;
+    fixerName: string;
+    result: FixResult;
+    changes: ContentChange[]; // Text changes; a reviewer may edit `after` before the commit
+    updatedContents: Map<string, EpubContent>; // Every content entry the fixer added or changed
+    documentPaths: string[]; // Shared documents the fixer loaded or saved; dropped if the change isn't kept
+}
+
 export interface AIImageAnalysis {
     imagePath: string;
     originalSrc: string;
@@ -175,9 +342,17 @@ export interface ProcessingContext {
     manifest: EpubManifest;
     metadata: EpubMetadata;
     contents: Map<string, EpubContent>;
+    packagePath?: string; // Path of the package document (OPF) named by container.xml
+    renditions?: Rendition[]; // Every rendition in container.xml; manifest, metadata and packagePath are the default one's
+    rendition?: Rendition; // The rendition a fixer or rule is working on, in a context from renditionContext
+    renditionMapping?: RenditionMapping;
+    archiveIssues?: ValidationIssue[]; // Unsafe entries skipped when the EPUB was extracted
     issues: ValidationIssue[];
     fixes: FixResult[];
     config: FixerConfig;
     options?: CliOptions;
     aiImageAnalyses?: AIImageAnalysis[];
+    changes?: ContentChange[]; // Recorded per fixer call when a diff was requested
+    documents?: DocumentCache; // Parsed documents shared by the fixers during the fix phase
+    signal?: AbortSignal; // Cancels external tools started while processing
 }
\ No newline at end of file
@@ -0,0 +1,228 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import {
+    ArchiveBudget,
+    UnsafeArchiveError,
+    ZipReader,
+    checkEntryName,
+    extractZip,
+    resolveEntryPath
+} from '../archive-safety';
+
+async function makeZip(files: { [name: string]: string | Buffer }): Promise<Buffer> {
+    const zip = new JSZip();
+    for (const [name, content] of Object.entries(files)) {
+        // Stored uncompressed, like an EPUB's mimetype
+        zip.file(name, content, name === 'mimetype' ? { compression: 'STORE' } : {});
+    }
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+async function rejection(promise: Promise<unknown>): Promise<UnsafeArchiveError> {
+    try {
+        await promise;
+    } catch (error) {
+        expect(error).toBeInstanceOf(UnsafeArchiveError);
+        return error as UnsafeArchiveError;
+    }
+    throw new Error('Expected an UnsafeArchiveError');
+}
+
+describe('checkEntryName', () => {
+    it('accepts names inside the archive root', () => {
+        expect(checkEntryName('OEBPS/text/ch1.xhtml')).toBeNull();
+        expect(checkEntryName('OEBPS/../META-INF/container.xml')).toBeNull();
+        expect(checkEntryName('OEBPS/')).toBeNull();
+    });
+
+    it('rejects names that climb above the root', () => {
+        expect(checkEntryName('../evil.txt')).toMatch(/\.\./);
+        expect(checkEntryName('OEBPS/../../evil.txt')).toMatch(/\.\./);
+        expect(checkEntryName('..')).toMatch(/\.\./);
+    });
+
+    it('treats backslashes as separators', () => {
+        expect(checkEntryName('OEBPS\\..\\..\\evil.txt')).toMatch(/\.\./);
+    });
+
+    it('rejects absolute paths, drive letters and NUL characters', () => {
+        expect(checkEntryName('/etc/passwd')).toMatch(/absolute/);
+        expect(checkEntryName('C:/Windows/evil.dll')).toMatch(/absolute/);
+        expect(checkEntryName('OEBPS/a\0.xhtml')).toMatch(/NUL/);
+    });
+});
+
+describe('resolveEntryPath', () => {
+    const root = path.join(os.tmpdir(), 'extract-root');
+
+    it('resolves safe names inside the root', () => {
+        expect(resolveEntryPath(root, 'OEBPS/ch1.xhtml')).toBe(path.join(root, 'OEBPS', 'ch1.xhtml'));
+    });
+
+    it('throws for names that resolve outside the root', () => {
+        expect(() => resolveEntryPath(root, '../outside.txt')).toThrow(UnsafeArchiveError);
+        expect(() => resolveEntryPath(root, '/tmp/outside.txt')).toThrow(UnsafeArchiveError);
+    });
+});
+
+describe('ArchiveBudget', () => {
+    it('rejects more entries than allowed', () => {
+        const budget = new ArchiveBudget({ maxEntries: 2 });
+        budget.addEntry('a');
+        budget.addEntry('b');
+        expect(() => budget.addEntry('c')).toThrow(expect.objectContaining({ reason: 'entries' }));
+    });
+
+    it('rejects declared sizes over the entry and total limits', () => {
+        const budget = new ArchiveBudget({ maxEntrySize: 100, maxTotalSize: 150 });
+        expect(() => budget.addEntry('big', 10, 101)).toThrow(expect.objectContaining({ reason: 'size', entry: 'big' }));
+        expect(() => budget.checkDeclared([
+            { name: 'a', compressedSize: 80, uncompressedSize: 80 },
+            { name: 'b', compressedSize: 80, uncompressedSize: 80 }
+        ])).toThrow(expect.objectContaining({ reason: 'size' }));
+    });
+
+    it('rejects suspicious compression ratios only for large entries', () => {
+        const budget = new ArchiveBudget({ maxCompressionRatio: 100 });
+        expect(() => budget.addEntry('spaces', 1, 1000)).not.toThrow();
+        expect(() => budget.addEntry('bomb', 1024, 10 * 1024 * 1024)).toThrow(expect.objectContaining({ reason: 'ratio' }));
+    });
+
+    it('counts the bytes actually read, whatever the archive declares', () => {
+        const budget = new ArchiveBudget({ maxEntrySize: 100, maxTotalSize: 150 });
+        budget.addEntry('a', 10, 10);
+        budget.addBytes('a', 60, 60);
+        expect(() => budget.addBytes('a', 60, 120)).toThrow(expect.objectContaining({ reason: 'size' }));
+
+        const total = new ArchiveBudget({ maxEntrySize: 100, maxTotalSize: 150 });
+        total.addBytes('a', 90, 90);
+        expect(() => total.addBytes('b', 90, 90)).toThrow(expect.objectContaining({ reason: 'size', entry: 'b' }));
+    });
+});
+
+describe('ZipReader', () => {
+    it('lists entry names exactly as stored, including unsafe ones', async () => {
+        const data = await makeZip({ 'OEBPS/ch1.xhtml': '<html/>', '../evil.txt': 'evil', 'OEBPS/../../up.txt': 'up' });
+        const zip = await ZipReader.open(data, new ArchiveBudget());
+
+        const names = zip.entries.filter(entry => !entry.dir).map(entry => entry.name);
+        expect(names).toEqual(expect.arrayContaining(['OEBPS/ch1.xhtml', '../evil.txt', 'OEBPS/../../up.txt']));
+        expect(names.filter(name => checkEntryName(name) !== null)).toHaveLength(2);
+    });
+
+    it('reads entries and finds files by name', async () => {
+        const data = await makeZip({ 'META-INF/container.xml': '<container/>', 'mimetype': 'application/epub+zip' });
+        const zip = await ZipReader.open(data, new ArchiveBudget());
+
+        const readText = async (name: string) => {
+            const entry = zip.file(name);
+            expect(entry).not.toBeNull();
+            return entry ? (await zip.read(entry)).toString('utf8') : null;
+        };
+        expect(await readText('META-INF/container.xml')).toBe('<container/>');
+        expect(await readText('mimetype')).toBe('application/epub+zip');
+        expect(zip.file('missing.xhtml')).toBeNull();
+        expect(zip.file('META-INF/')).toBeNull();
+    });
+
+    it('rejects a zip bomb from its central directory before inflating it', async () => {
+        const data = await makeZip({ 'zeros.bin': Buffer.alloc(4 * 1024 * 1024) });
+        const error = await rejection(ZipReader.open(data, new ArchiveBudget()));
+        expect(error.reason).toBe('ratio');
+        expect(error.entry).toBe('zeros.bin');
+    });
+
+    it('rejects archives with too many entries', async () => {
+        const data = await makeZip({ 'a.txt': 'a', 'b.txt': 'b', 'c.txt': 'c' });
+        const error = await rejection(ZipReader.open(data, new ArchiveBudget({ maxEntries: 2 })));
+        expect(error.reason).toBe('entries');
+    });
+
+    it('rejects declared sizes that add up to more than the total limit', async () => {
+        const content = 'x'.repeat(1000);
+        const data = await makeZip({ 'a.txt': content, 'b.txt': content });
+        const error = await rejection(ZipReader.open(data, new ArchiveBudget({ maxTotalSize: 1500 })));
+        expect(error.reason).toBe('size');
+    });
+
+    it('does not trust a declared size that is smaller than the content', async () => {
+        const data = await makeZip({ 'a.txt': 'x'.repeat(100000) });
+        // Declare 10 bytes in the central directory entry
+        const central = data.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+        data.writeUInt32LE(10, central + 24);
+
+        const zip = await ZipReader.open(data, new ArchiveBudget());
+        expect(zip.entries[0].uncompressedSize).toBe(10);
+        await expect(zip.read(zip.entries[0])).rejects.toThrow(/larger than the 10 bytes/);
+
+        // The bytes read count against the limits too
+        const limited = await ZipReader.open(data, new ArchiveBudget({ maxEntrySize: 1000 }));
+        await expect(limited.read(limited.entries[0])).rejects.toThrow(/expands to more than 1000 bytes/);
+    });
+
+    it('rejects corrupt compressed data', async () => {
+        const data = await makeZip({ 'a.txt': 'x'.repeat(100000) });
+        // The data follows the 30-byte local header and the file name
+        data.fill(0xff, 30 + 'a.txt'.length, 30 + 'a.txt'.length + 16);
+
+        const zip = await ZipReader.open(data, new ArchiveBudget());
+        await expect(zip.read(zip.entries[0])).rejects.toThrow();
+    });
+});
+
+describe('extractZip', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'extract-zip-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(dir);
+    });
+
+    async function writeZip(data: Buffer): Promise<string> {
+        const zipPath = path.join(dir, 'tool.zip');
+        await fs.writeFile(zipPath, data);
+        return zipPath;
+    }
+
+    it('extracts files and directories', async () => {
+        const zipPath = await writeZip(await makeZip({ 'epubcheck/lib/': '', 'epubcheck/epubcheck.jar': 'jar', 'mimetype': 'stored' }));
+        await extractZip(zipPath, path.join(dir, 'out'));
+
+        expect(await fs.readFile(path.join(dir, 'out', 'epubcheck', 'epubcheck.jar'), 'utf8')).toBe('jar');
+        expect(await fs.readFile(path.join(dir, 'out', 'mimetype'), 'utf8')).toBe('stored');
+        expect((await fs.stat(path.join(dir, 'out', 'epubcheck', 'lib'))).isDirectory()).toBe(true);
+    });
+
+    it('refuses entries outside the target directory before writing anything', async () => {
+        const zipPath = await writeZip(await makeZip({ 'a.txt': 'a', '../evil.txt': 'evil' }));
+        const error = await rejection(extractZip(zipPath, path.join(dir, 'out')));
+
+        expect(error.reason).toBe('path');
+        expect(await fs.pathExists(path.join(dir, 'evil.txt'))).toBe(false);
+        expect(await fs.pathExists(path.join(dir, 'out', 'a.txt'))).toBe(false);
+    });
+
+    it('rejects a corrupt entry instead of hanging', async () => {
+        const data = await makeZip({ 'a.txt': 'x'.repeat(100000) });
+        data.fill(0xff, 30 + 'a.txt'.length, 30 + 'a.txt'.length + 16);
+
+        await expect(extractZip(await writeZip(data), path.join(dir, 'out'))).rejects.toThrow();
+    });
+
+    it('rejects a truncated archive', async () => {
+        const data = await makeZip({ 'a.txt': 'x'.repeat(100000), 'b.txt': 'y'.repeat(100000) });
+
+        await expect(extractZip(await writeZip(data.subarray(0, data.length - 100)), path.join(dir, 'out'))).rejects.toThrow();
+    });
+
+    it('applies the limits', async () => {
+        const zipPath = await writeZip(await makeZip({ 'a.txt': 'a', 'b.txt': 'b', 'c.txt': 'c' }));
+        const error = await rejection(extractZip(zipPath, path.join(dir, 'out'), { maxEntries: 2 }));
+        expect(error.reason).toBe('entries');
+    });
+});
@@ -0,0 +1,121 @@
+import * as cheerio from 'cheerio';
+import { EpubManifest } from '../../types';
+import { EpubCfi, formatCfi, parseCfi } from '../epub-cfi';
+
+const manifest: EpubManifest = {
+    items: [
+        { id: 'nav', href: 'nav.xhtml', mediaType: 'application/xhtml+xml', properties: ['nav'] },
+        { id: 'ch1', href: 'text/ch1.xhtml', mediaType: 'application/xhtml+xml' },
+        { id: 'ch2', href: 'text/ch2.xhtml', mediaType: 'application/xhtml+xml' },
+        { id: 'css', href: 'style.css', mediaType: 'text/css' }
+    ],
+    spine: [{ idref: 'ch1' }, { idref: 'ch2' }]
+};
+
+const packageDocument = `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata/>
+  <manifest/>
+  <spine>
+    <itemref idref="ch1" id="ch1ref"/>
+    <itemref idref="ch2"/>
+  </spine>
+</package>`;
+
+const chapter = `<html xmlns="http://www.w3.org/1999/xhtml">
+<head><title>One</title></head>
+<body id="body01">
+  <h1>One</h1>
+  <p>First</p>
+  <p id="para02">Second <em>with emphasis</em></p>
+</body>
+</html>`;
+
+function load(): cheerio.CheerioAPI {
+    return cheerio.load(chapter, { xmlMode: true });
+}
+
+describe('parseCfi and formatCfi', () => {
+    it('parses steps, id assertions and a character offset', () => {
+        expect(parseCfi('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:10)')).toEqual({
+            packageSteps: [{ index: 6, id: undefined }, { index: 4, id: 'chap01ref' }],
+            contentSteps: [{ index: 4, id: 'body01' }, { index: 10, id: 'para05' }, { index: 3, id: undefined }],
+            offset: 10
+        });
+    });
+
+    it('round-trips escaped assertions', () => {
+        const cfi = 'epubcfi(/6/2!/4[odd^[id^]]/2:5)';
+        const parsed = parseCfi(cfi);
+        expect(parsed?.contentSteps[0].id).toBe('odd[id]');
+        expect(parsed && formatCfi(parsed)).toBe(cfi);
+    });
+
+    it('accepts a CFI without the epubcfi() wrapper and ignores text assertions', () => {
+        expect(parseCfi('/6/2!/4:3[;s=a]')?.offset).toBe(3);
+    });
+
+    it('rejects ranges and malformed CFIs', () => {
+        expect(parseCfi('epubcfi(/6/4!/4,/2:1,/2:5)')).toBeNull();
+        expect(parseCfi('epubcfi(/6/4!)')).toBeNull();
+        expect(parseCfi('epubcfi(/6/x)')).toBeNull();
+        expect(parseCfi('epubcfi(/6/4:3!/4)')).toBeNull();
+        expect(parseCfi('')).toBeNull();
+    });
+});
+
+describe('EpubCfi', () => {
+    const cfi = new EpubCfi(manifest, 'OEBPS/content.opf', packageDocument);
+
+    it('maps content files to spine positions', () => {
+        expect(cfi.spineIndexOf('OEBPS/text/ch2.xhtml')).toBe(1);
+        expect(cfi.spineIndexOf('OEBPS/nav.xhtml')).toBe(-1);
+    });
+
+    it('generates CFIs with the spine step and id assertions', () => {
+        const $ = load();
+        expect(cfi.generate('OEBPS/text/ch1.xhtml')).toBe('epubcfi(/6/2[ch1ref])');
+        expect(cfi.generate('OEBPS/text/ch1.xhtml', $('p').get(1))).toBe('epubcfi(/6/2[ch1ref]!/4[body01]/6[para02])');
+        expect(cfi.generate('OEBPS/text/ch2.xhtml', $('em').get(0))).toBe('epubcfi(/6/4!/4[body01]/6[para02]/2)');
+        expect(cfi.generate('OEBPS/nav.xhtml', $('p').get(0))).toBeNull();
+    });
+
+    it('assumes the usual spine step without a package document', () => {
+        const spineFirst = new EpubCfi(manifest, 'OEBPS/content.opf', '<package><spine><itemref idref="ch1"/></spine></package>');
+        expect(spineFirst.generate('OEBPS/text/ch1.xhtml')).toBe('epubcfi(/2/2)');
+        expect(new EpubCfi(manifest, 'OEBPS/content.opf').generate('OEBPS/text/ch1.xhtml')).toBe('epubcfi(/6/2)');
+    });
+
+    it('resolves the CFIs it generates back to the same element', () => {
+        const $ = load();
+        for (const element of [$('h1').get(0), $('p').get(0), $('em').get(0), $('body').get(0)]) {
+            const generated = cfi.generate('OEBPS/text/ch1.xhtml', element);
+            const target = generated ? cfi.resolve(generated, () => $) : null;
+            expect(target?.node).toBe(element);
+            expect(target?.filePath).toBe('OEBPS/text/ch1.xhtml');
+        }
+    });
+
+    it('resolves a whole document and a terminal text step', () => {
+        const $ = load();
+        expect(cfi.resolve('epubcfi(/6/4)', () => $)).toEqual({ spineIndex: 1, filePath: 'OEBPS/text/ch2.xhtml', node: null });
+
+        const text = cfi.resolve('epubcfi(/6/2!/4/6/1:3)', () => $);
+        expect(text?.node).toBe($('#para02').get(0));
+        expect(text?.offset).toBe(3);
+    });
+
+    it('corrects steps whose id assertion names another element', () => {
+        const $ = load();
+        expect(cfi.resolve('epubcfi(/6/2!/4/2[para02])', () => $)?.node).toBe($('#para02').get(0));
+        expect(cfi.resolve('epubcfi(/6/4[ch1ref]!/4)', () => $)?.filePath).toBe('OEBPS/text/ch1.xhtml');
+    });
+
+    it('returns null for CFIs that point nowhere', () => {
+        const $ = load();
+        expect(cfi.resolve('epubcfi(/6/8)', () => $)).toBeNull();
+        expect(cfi.resolve('epubcfi(/6/2!/4/20)', () => $)).toBeNull();
+        expect(cfi.resolve('epubcfi(/6/2!/4/1/2)', () => $)).toBeNull();
+        expect(cfi.resolve('epubcfi(/6/2!/4)', () => null)).toBeNull();
+    });
+});
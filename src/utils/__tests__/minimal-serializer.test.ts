@@ -0,0 +1,95 @@
+import * as cheerio from 'cheerio';
+import { parseWithSource, serializeMinimal } from '../minimal-serializer';
+
+const document = `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xml:lang='en'>
+<head>
+    <title>Caf&#233; &amp; more</title>
+    <style><![CDATA[ p > em { color: red } ]]></style>
+</head>
+<body   class="main"  >
+    <!-- chapter start -->
+    <h3 id="c1">Chapter   one</h3>
+    <p>Text with &nbsp; an <em>entity</em> and a <br/> break.</p>
+    <img src="a.png" alt='old "alt"'/>
+    <p data-x = "1" title="keep &quot;me&quot;">Last</p>
+</body>
+</html>
+`;
+
+function edit(change: ($: cheerio.CheerioAPI) => void): string | null {
+    const $ = parseWithSource(document);
+    change($);
+    return serializeMinimal($);
+}
+
+describe('serializeMinimal', () => {
+    it('writes an unchanged document back byte for byte', () => {
+        expect(edit(() => undefined)).toBe(document);
+    });
+
+    it('returns null for documents not parsed with parseWithSource', () => {
+        expect(serializeMinimal(cheerio.load(document, { xmlMode: true }))).toBeNull();
+    });
+
+    it('rewrites only the attributes that changed and keeps their quoting', () => {
+        const output = edit($ => {
+            $('img').attr('alt', 'new & <alt>');
+            $('h3').attr('class', 'title');
+            $('p').last().removeAttr('data-x');
+        });
+        expect(output).toBe(document
+            .replace(`alt='old "alt"'`, `alt='new &amp; &lt;alt>'`)
+            .replace('<h3 id="c1">', '<h3 id="c1" class="title">')
+            .replace(' data-x = "1"', ''));
+    });
+
+    it('renames elements in both tags', () => {
+        const output = edit($ => {
+            $('h3').prop('tagName', 'h2');
+        });
+        expect(output).toBe(document.replace('<h3 id="c1">Chapter   one</h3>', '<h2 id="c1">Chapter   one</h2>'));
+    });
+
+    it('escapes changed text and leaves unchanged text with its entities', () => {
+        const output = edit($ => {
+            $('em').text('a < b & c');
+        });
+        expect(output).toBe(document.replace('<em>entity</em>', '<em>a &lt; b &amp; c</em>'));
+        expect(output).toContain('Caf&#233; &amp; more');
+        expect(output).toContain('Text with &nbsp; an ');
+    });
+
+    it('writes added nodes in full and drops removed ones', () => {
+        const output = edit($ => {
+            $('br').remove();
+            $('body').append('<p class="added">New</p>\n');
+            $('img').append('<span>inside</span>');
+        });
+        expect(output).toBe(document
+            .replace('<br/>', '')
+            .replace(`<img src="a.png" alt='old "alt"'/>`, `<img src="a.png" alt='old "alt"'><span>inside</span></img>`)
+            .replace('Last</p>\n</body>', 'Last</p>\n<p class="added">New</p>\n</body>'));
+    });
+
+    it('keeps comments and CDATA sections as they were', () => {
+        const output = edit($ => {
+            $('body').attr('class', 'changed');
+        });
+        expect(output).toContain('<!-- chapter start -->');
+        expect(output).toContain('<style><![CDATA[ p > em { color: red } ]]></style>');
+        expect(output).toContain('<body   class="changed"  >');
+    });
+
+    it('round-trips its own output', () => {
+        const once = edit($ => {
+            $('h3').attr('id', 'chapter-1');
+            $('em').text('changed');
+        });
+        const $ = parseWithSource(once || '');
+        expect(serializeMinimal($)).toBe(once);
+        expect($('h3').attr('id')).toBe('chapter-1');
+        expect($('em').text()).toBe('changed');
+    });
+});
@@ -0,0 +1,92 @@
+import {
+    ToolCancelled,
+    ToolCrashed,
+    ToolNotFound,
+    ToolTimeout,
+    getToolTimeout,
+    runTool
+} from '../process-runner';
+
+const node = process.execPath;
+
+// Runs a Node.js script as the external tool
+function runScript(script: string, options: Parameters<typeof runTool>[2] = {}) {
+    return runTool(node, ['-e', script], { tool: 'script', ...options });
+}
+
+describe('runTool', () => {
+    it('passes arguments through without a shell', async () => {
+        const name = 'book "one"; $(touch x) & more.epub';
+        const result = await runTool(node, ['-e', 'process.stdout.write(process.argv[1])', name]);
+        expect(result.stdout).toBe(name);
+        expect(result.exitCode).toBe(0);
+        expect(result.truncated).toBe(false);
+    });
+
+    it('accepts any exit code unless allowed codes are given', async () => {
+        const result = await runScript('process.stderr.write("warned"); process.exit(3)');
+        expect(result.exitCode).toBe(3);
+        expect(result.stderr).toBe('warned');
+
+        await expect(runScript('process.exit(3)', { allowedExitCodes: [0, 1] }))
+            .rejects.toEqual(expect.objectContaining({ kind: 'crashed', exitCode: 3 }));
+    });
+
+    it('reports a missing program as not found', async () => {
+        const error = await runTool('/nonexistent/epub-tool', [], { tool: 'missing' }).catch(e => e);
+        expect(error).toBeInstanceOf(ToolNotFound);
+        expect(error.kind).toBe('not-found');
+    });
+
+    it('stops a program that runs past the timeout and keeps its output', async () => {
+        const started = Date.now();
+        const error = await runScript('process.stdout.write("started"); setInterval(() => undefined, 1000)', { timeout: 1000 })
+            .catch(e => e);
+        expect(error).toBeInstanceOf(ToolTimeout);
+        expect(error.timeout).toBe(1000);
+        expect(error.stdout).toBe('started');
+        expect(Date.now() - started).toBeLessThan(5000);
+    });
+
+    it('kills a program that ignores SIGTERM after the grace period', async () => {
+        const script = 'process.on("SIGTERM", () => undefined); process.stdout.write("ready"); setInterval(() => undefined, 1000)';
+        const error = await runScript(script, { timeout: 500 }).catch(e => e);
+        expect(error).toBeInstanceOf(ToolTimeout);
+    }, 15000);
+
+    it('caps the output it keeps and marks the result truncated', async () => {
+        const result = await runScript('process.stdout.write("x".repeat(100000)); process.stderr.write("y".repeat(10))', { maxOutput: 1000 });
+        expect(result.stdout).toBe('x'.repeat(1000));
+        expect(result.stderr).toBe('y'.repeat(10));
+        expect(result.truncated).toBe(true);
+    });
+
+    it('stops a running program when cancelled', async () => {
+        const controller = new AbortController();
+        const running = runScript('process.stdout.write("ready"); setInterval(() => undefined, 1000)', { signal: controller.signal });
+        setTimeout(() => controller.abort(), 300);
+        const error = await running.catch(e => e);
+        expect(error).toBeInstanceOf(ToolCancelled);
+        expect(error.kind).toBe('cancelled');
+    });
+
+    it('does not start a program when already cancelled', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expect(runScript('process.exit(0)', { signal: controller.signal })).rejects.toBeInstanceOf(ToolCancelled);
+    });
+
+    it('reports a program killed by a signal as crashed', async () => {
+        const error = await runScript('process.kill(process.pid, "SIGKILL")').catch(e => e);
+        expect(error).toBeInstanceOf(ToolCrashed);
+        expect(error.signal).toBe('SIGKILL');
+    });
+});
+
+describe('getToolTimeout', () => {
+    it('uses the configured timeout, including 0, over the default', () => {
+        expect(getToolTimeout('tesseract')).toBe(15000);
+        expect(getToolTimeout('tesseract', { tesseract: 1000 })).toBe(1000);
+        expect(getToolTimeout('tesseract', { tesseract: 0 })).toBe(0);
+    });
+});
@@ -0,0 +1,97 @@
+import { DiffOp, buildHunks, diffLines, formatHunk, splitLines } from '../text-diff';
+
+// The old and new text an edit script describes
+function apply(ops: DiffOp[]): { oldText: string; newText: string } {
+    return {
+        oldText: ops.filter(op => op.type !== 'insert').map(op => op.line).join(''),
+        newText: ops.filter(op => op.type !== 'delete').map(op => op.line).join('')
+    };
+}
+
+function edits(ops: DiffOp[]): number {
+    return ops.filter(op => op.type !== 'equal').length;
+}
+
+describe('splitLines', () => {
+    it('keeps line terminators and a last line without one', () => {
+        expect(splitLines('a\nb\n')).toEqual(['a\n', 'b\n']);
+        expect(splitLines('a\n\nb')).toEqual(['a\n', '\n', 'b']);
+        expect(splitLines('')).toEqual([]);
+    });
+});
+
+describe('diffLines', () => {
+    it('describes both texts', () => {
+        const oldText = 'one\ntwo\nthree\nfour\nfive\n';
+        const newText = 'zero\none\nthree\nfour\nFIVE\nsix';
+        const ops = diffLines(splitLines(oldText), splitLines(newText));
+        expect(apply(ops)).toEqual({ oldText, newText });
+    });
+
+    it('finds the shortest edit script', () => {
+        const ops = diffLines(splitLines('a\nb\nc\na\nb\nb\na\n'), splitLines('c\nb\na\nb\na\nc\n'));
+        expect(edits(ops)).toBe(5);
+        expect(edits(diffLines(['a\n', 'b\n', 'c\n'], ['a\n', 'x\n', 'c\n']))).toBe(2);
+    });
+
+    it('numbers each operation with its position in both texts', () => {
+        const ops = diffLines(['a\n', 'b\n', 'c\n'], ['a\n', 'x\n', 'y\n', 'c\n']);
+        expect(ops.map(op => [op.type, op.oldIndex, op.newIndex])).toEqual([
+            ['equal', 0, 0],
+            ['delete', 1, 1],
+            ['insert', 2, 1],
+            ['insert', 2, 2],
+            ['equal', 2, 3]
+        ]);
+    });
+
+    it('handles empty texts', () => {
+        expect(diffLines([], [])).toEqual([]);
+        expect(diffLines([], ['a\n']).map(op => op.type)).toEqual(['insert']);
+        expect(diffLines(['a\n'], []).map(op => op.type)).toEqual(['delete']);
+    });
+
+    it('reports a very large change as one replacement', () => {
+        const oldLines = Array.from({ length: 1500 }, (_, index) => `old ${index}\n`);
+        const newLines = Array.from({ length: 1500 }, (_, index) => `new ${index}\n`);
+        const ops = diffLines(['same\n', ...oldLines, 'end\n'], ['same\n', ...newLines, 'end\n']);
+        expect(apply(ops)).toEqual({
+            oldText: ['same\n', ...oldLines, 'end\n'].join(''),
+            newText: ['same\n', ...newLines, 'end\n'].join('')
+        });
+        expect(ops.slice(1, 1501).every(op => op.type === 'delete')).toBe(true);
+    });
+});
+
+describe('buildHunks and formatHunk', () => {
+    const oldLines = Array.from({ length: 20 }, (_, index) => `line ${index + 1}\n`);
+
+    it('groups changes with context and merges nearby ones', () => {
+        const newLines = [...oldLines];
+        newLines[1] = 'changed 2\n';
+        newLines[5] = 'changed 6\n';
+        newLines.splice(17, 1);
+        const hunks = buildHunks(diffLines(oldLines, newLines), 2);
+
+        expect(hunks.map(hunk => [hunk.oldStart, hunk.oldLength, hunk.newStart, hunk.newLength])).toEqual([
+            [1, 8, 1, 8],
+            [16, 5, 16, 4]
+        ]);
+    });
+
+    it('formats unified diff hunks', () => {
+        const newLines = [...oldLines.slice(0, 19), 'line 20'];
+        const [hunk] = buildHunks(diffLines(oldLines, newLines), 1);
+        expect(formatHunk(hunk, 'chapter.xhtml')).toBe(
+            '@@ -19,2 +19,2 @@ chapter.xhtml\n' +
+            ' line 19\n' +
+            '-line 20\n' +
+            '+line 20\n' +
+            '\\ No newline at end of file\n');
+    });
+
+    it('points an empty range at the line before it', () => {
+        const [hunk] = buildHunks(diffLines(['a\n'], ['a\n', 'b\n']), 0);
+        expect(formatHunk(hunk)).toBe('@@ -1,0 +2,1 @@\n+b\n');
+    });
+});
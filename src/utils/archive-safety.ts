@@ -0,0 +1,319 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Readable } from 'stream';
+import * as yauzl from 'yauzl';
+import * as zlib from 'zlib';
+
+/**
+ * Limits applied when reading ZIP archives from outside: EPUBs and downloaded tools
+ */
+export interface ArchiveLimits {
+    maxEntries: number;
+    maxTotalSize: number; // Bytes, uncompressed, over all entries
+    maxEntrySize: number; // Bytes, uncompressed
+    maxCompressionRatio: number; // Uncompressed to compressed size, for entries of at least RATIO_MIN_SIZE
+}
+
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+    maxEntries: 10000,
+    maxTotalSize: 1024 * 1024 * 1024,
+    maxEntrySize: 512 * 1024 * 1024,
+    maxCompressionRatio: 200
+};
+
+// Small entries such as a long run of spaces compress very well without being a risk
+const RATIO_MIN_SIZE = 1024 * 1024;
+
+export type UnsafeArchiveReason = 'path' | 'entries' | 'size' | 'ratio';
+
+/**
+ * An archive that can't be extracted safely: an entry would be written outside the target directory,
+ * or the archive is over one of the ArchiveLimits
+ */
+export class UnsafeArchiveError extends Error {
+    readonly reason: UnsafeArchiveReason;
+    readonly entry?: string;
+
+    constructor(message: string, reason: UnsafeArchiveReason, entry?: string) {
+        super(message);
+        this.name = 'UnsafeArchiveError';
+        this.reason = reason;
+        this.entry = entry;
+    }
+}
+
+/**
+ * Why an entry name is unsafe to extract, or null if it is safe. Absolute paths, drive letters,
+ * `..` segments that climb above the root and NUL characters are rejected; backslashes count as separators.
+ */
+export function checkEntryName(name: string): string | null {
+    const normalized = name.replace(/\\/g, '/');
+    if (normalized.includes('\0')) {
+        return 'contains a NUL character';
+    }
+    if (normalized.startsWith('/') || /^[a-z]:/i.test(normalized)) {
+        return 'is an absolute path';
+    }
+    const resolved = path.posix.normalize(normalized);
+    if (resolved === '..' || resolved.startsWith('../')) {
+        return 'leaves the archive root with ".."';
+    }
+    return null;
+}
+
+/**
+ * Path to extract an entry to, checked to be inside root
+ */
+export function resolveEntryPath(root: string, name: string): string {
+    const problem = checkEntryName(name);
+    const resolvedRoot = path.resolve(root);
+    const target = path.resolve(resolvedRoot, name.replace(/\\/g, '/'));
+    if (problem || (target !== resolvedRoot && !target.startsWith(resolvedRoot + path.sep))) {
+        throw new UnsafeArchiveError(`Archive entry "${name}" ${problem || 'resolves outside the extraction directory'}`, 'path', name);
+    }
+    return target;
+}
+
+/**
+ * Counts entries and uncompressed bytes while an archive is read, and throws once a limit is passed.
+ * Sizes declared in the archive are checked up front; the bytes actually read are counted too,
+ * since declared sizes can't be trusted.
+ */
+export class ArchiveBudget {
+    private limits: ArchiveLimits;
+    private entries = 0;
+    private totalSize = 0;
+
+    constructor(limits: Partial<ArchiveLimits> = {}) {
+        this.limits = { ...DEFAULT_ARCHIVE_LIMITS, ...limits };
+    }
+
+    maxEntries(): number {
+        return this.limits.maxEntries;
+    }
+
+    addEntry(name: string, compressedSize?: number, uncompressedSize?: number): void {
+        this.entries++;
+        if (this.entries > this.limits.maxEntries) {
+            throw new UnsafeArchiveError(`Archive has more than ${this.limits.maxEntries} entries`, 'entries', name);
+        }
+        if (uncompressedSize === undefined) {
+            return;
+        }
+        this.checkEntrySize(name, uncompressedSize);
+        if (compressedSize !== undefined && uncompressedSize >= RATIO_MIN_SIZE &&
+            uncompressedSize > compressedSize * this.limits.maxCompressionRatio) {
+            const ratio = compressedSize > 0 ? Math.round(uncompressedSize / compressedSize) : Infinity;
+            throw new UnsafeArchiveError(
+                `Archive entry "${name}" has a suspicious compression ratio of ${ratio}:1 (limit ${this.limits.maxCompressionRatio}:1)`,
+                'ratio', name);
+        }
+    }
+
+    /**
+     * Count bytes read from an entry; read is the entry's total so far
+     */
+    addBytes(name: string, bytes: number, read: number): void {
+        this.totalSize += bytes;
+        this.checkEntrySize(name, read);
+        if (this.totalSize > this.limits.maxTotalSize) {
+            throw new UnsafeArchiveError(`Archive expands to more than ${formatSize(this.limits.maxTotalSize)}`, 'size', name);
+        }
+    }
+
+    /**
+     * Check the sizes an archive declares for all its entries before reading any of them
+     */
+    checkDeclared(entries: { name: string; compressedSize?: number; uncompressedSize?: number }[]): void {
+        const declared = new ArchiveBudget(this.limits);
+        let total = 0;
+        for (const entry of entries) {
+            declared.addEntry(entry.name, entry.compressedSize, entry.uncompressedSize);
+            total += entry.uncompressedSize || 0;
+        }
+        if (total > this.limits.maxTotalSize) {
+            throw new UnsafeArchiveError(`Archive declares ${formatSize(total)} of content, more than the ${formatSize(this.limits.maxTotalSize)} limit`, 'size');
+        }
+    }
+
+    private checkEntrySize(name: string, size: number): void {
+        if (size > this.limits.maxEntrySize) {
+            throw new UnsafeArchiveError(`Archive entry "${name}" expands to more than ${formatSize(this.limits.maxEntrySize)}`, 'size', name);
+        }
+    }
+}
+
+/**
+ * An entry of a ZipReader archive, as the central directory describes it
+ */
+export interface ZipEntry {
+    name: string; // As stored in the archive, including any ".." segments or absolute paths
+    dir: boolean;
+    compressedSize: number;
+    uncompressedSize: number; // Declared; reading counts the real size
+}
+
+/**
+ * A ZIP archive in memory, read with yauzl. Opening it reads only the central directory: the entry names
+ * exactly as stored, so unsafe names can be checked, and the declared sizes, which are checked against
+ * the budget before anything is inflated. Entries are inflated one at a time when read. The archive
+ * is read from a buffer, so there is nothing to close.
+ */
+export class ZipReader {
+    readonly entries: ZipEntry[];
+    private zipfile: yauzl.ZipFile;
+    private rawEntries: Map<ZipEntry, yauzl.Entry>;
+    private budget: ArchiveBudget;
+
+    private constructor(zipfile: yauzl.ZipFile, rawEntries: Map<ZipEntry, yauzl.Entry>, budget: ArchiveBudget) {
+        this.zipfile = zipfile;
+        this.rawEntries = rawEntries;
+        this.entries = Array.from(rawEntries.keys());
+        this.budget = budget;
+    }
+
+    /**
+     * Read the central directory. Rejects with an UnsafeArchiveError when the entry count or the declared
+     * sizes are over the budget's limits.
+     */
+    static open(data: Buffer, budget: ArchiveBudget): Promise<ZipReader> {
+        return new Promise<ZipReader>((resolve, reject) => {
+            // Names are decoded here, since yauzl rejects the unsafe ones it decodes itself
+            yauzl.fromBuffer(data, { lazyEntries: true, autoClose: false, decodeStrings: false }, (err, zipfile) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+
+                const rawEntries = new Map<ZipEntry, yauzl.Entry>();
+                zipfile.on('entry', (raw: yauzl.Entry) => {
+                    const fileName: string | Buffer = raw.fileName;
+                    const name = Buffer.isBuffer(fileName) ? fileName.toString('utf8') : fileName;
+                    rawEntries.set({
+                        name,
+                        dir: name.endsWith('/'),
+                        compressedSize: raw.compressedSize,
+                        uncompressedSize: raw.uncompressedSize
+                    }, raw);
+                    if (rawEntries.size > budget.maxEntries()) {
+                        zipfile.close();
+                        reject(new UnsafeArchiveError(`Archive has more than ${budget.maxEntries()} entries`, 'entries', name));
+                        return;
+                    }
+                    zipfile.readEntry();
+                });
+                zipfile.on('end', () => {
+                    try {
+                        budget.checkDeclared(Array.from(rawEntries.keys()));
+                    } catch (error) {
+                        zipfile.close();
+                        reject(error);
+                        return;
+                    }
+                    resolve(new ZipReader(zipfile, rawEntries, budget));
+                });
+                zipfile.on('error', reject);
+                zipfile.readEntry();
+            });
+        });
+    }
+
+    /**
+     * The file entry with this name, or null
+     */
+    file(name: string): ZipEntry | null {
+        return this.entries.find(entry => entry.name === name && !entry.dir) || null;
+    }
+
+    /**
+     * Inflate an entry, stopping as soon as it passes the budget's limits or the size it declares,
+     * instead of inflating all of it into memory first
+     */
+    read(entry: ZipEntry): Promise<Buffer> {
+        const raw = this.rawEntries.get(entry);
+        if (!raw) {
+            return Promise.reject(new Error(`Archive entry "${entry.name}" is not in this archive`));
+        }
+
+        return new Promise<Buffer>((resolve, reject) => {
+            const deflated = raw.compressionMethod === 8;
+            const onOpen = (err: Error | null, compressed: Readable) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+
+                const inflate = deflated ? zlib.createInflateRaw() : null;
+                const stream = inflate ? compressed.pipe(inflate) : compressed;
+                const chunks: Buffer[] = [];
+                let read = 0;
+                let failed = false;
+                const fail = (error: Error) => {
+                    if (failed) {
+                        return;
+                    }
+                    failed = true;
+                    compressed.unpipe();
+                    compressed.destroy();
+                    inflate?.destroy();
+                    reject(error);
+                };
+
+                stream.on('data', (chunk: Buffer) => {
+                    if (failed) {
+                        return;
+                    }
+                    read += chunk.length;
+                    try {
+                        this.budget.addBytes(entry.name, chunk.length, read);
+                        if (read > entry.uncompressedSize) {
+                            throw new UnsafeArchiveError(
+                                `Archive entry "${entry.name}" is larger than the ${entry.uncompressedSize} bytes it declares`, 'size', entry.name);
+                        }
+                    } catch (error) {
+                        fail(error as Error);
+                        return;
+                    }
+                    chunks.push(chunk);
+                });
+                stream.on('end', () => {
+                    if (!failed) {
+                        resolve(Buffer.concat(chunks, read));
+                    }
+                });
+                compressed.on('error', fail);
+                inflate?.on('error', fail);
+            };
+
+            if (deflated) {
+                // Inflated here rather than by yauzl, whose inflating stream drops errors on current Node versions
+                this.zipfile.openReadStream(raw, { decompress: false, decrypt: null, start: null, end: null }, onOpen);
+            } else {
+                this.zipfile.openReadStream(raw, onOpen);
+            }
+        });
+    }
+}
+
+/**
+ * Extract a ZIP file into extractPath. Unlike EPUBs, where unsafe entries are skipped and reported,
+ * an entry that would land outside extractPath fails the whole extraction, as does passing the limits
+ * or a corrupt entry.
+ */
+export async function extractZip(zipPath: string, extractPath: string, limits: Partial<ArchiveLimits> = {}): Promise<void> {
+    const zip = await ZipReader.open(await fs.readFile(zipPath), new ArchiveBudget(limits));
+    const targets = zip.entries.map(entry => resolveEntryPath(extractPath, entry.name));
+
+    for (const [index, entry] of zip.entries.entries()) {
+        if (entry.dir) {
+            await fs.ensureDir(targets[index]);
+            continue;
+        }
+        await fs.ensureDir(path.dirname(targets[index]));
+        await fs.writeFile(targets[index], await zip.read(entry));
+    }
+}
+
+function formatSize(bytes: number): string {
+    return bytes >= 1024 * 1024 ? `${Math.round(bytes / (1024 * 1024))} MB` : `${bytes} bytes`;
+}
@@ -1,13 +1,16 @@
+import * as crypto from 'crypto';
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import chalk from 'chalk';
 
 export class Logger {
     private verbose: boolean;
+    private quiet: boolean;
     private logs: string[] = [];
 
-    constructor(verbose: boolean = false) {
-        this.verbose = verbose;
+    constructor(verbose: boolean = false, quiet: boolean = false) {
+        this.verbose = verbose && !quiet;
+        this.quiet = quiet;
     }
 
     isVerbose(): boolean {
@@ -25,19 +28,25 @@ export class Logger {
     warn(message: string): void {
         const logMessage = `[WARN] ${new Date().toISOString()} - ${message}`;
         this.logs.push(logMessage);
-        console.log(chalk.yellow(logMessage));
+        if (!this.quiet) {
+            console.log(chalk.yellow(logMessage));
+        }
     }
 
     error(message: string): void {
         const logMessage = `[ERROR] ${new Date().toISOString()} - ${message}`;
         this.logs.push(logMessage);
-        console.log(chalk.red(logMessage));
+        if (!this.quiet) {
+            console.log(chalk.red(logMessage));
+        }
     }
 
     success(message: string): void {
         const logMessage = `[SUCCESS] ${new Date().toISOString()} - ${message}`;
         this.logs.push(logMessage);
-        console.log(chalk.green(logMessage));
+        if (!this.quiet) {
+            console.log(chalk.green(logMessage));
+        }
     }
 
     getLogs(): string[] {
@@ -74,6 +83,16 @@ export async function copyFile(src: string, dest: string): Promise<void> {
     await fs.copy(src, dest);
 }
 
+export function sha256File(filePath: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        const hash = crypto.createHash('sha256');
+        fs.createReadStream(filePath)
+            .on('data', chunk => hash.update(chunk))
+            .on('end', () => resolve(hash.digest('hex')))
+            .on('error', reject);
+    });
+}
+
 export function isValidEpubPath(filePath: string): boolean {
     return path.extname(filePath).toLowerCase() === '.epub' && fs.existsSync(filePath);
 }
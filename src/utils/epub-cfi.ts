@@ -0,0 +1,252 @@
+import * as cheerio from 'cheerio';
+import { EpubContent, EpubManifest } from '../types';
+import { resolveHref } from '../core/path-resolver';
+import { NodeLocation } from './source-locations';
+
+type CheerioStatic = ReturnType<typeof cheerio.load>;
+type Node = any;
+
+/**
+ * One step of a CFI path: even indexes are elements (2 is the first child element), odd ones the text between them
+ */
+export interface CfiStep {
+    index: number;
+    id?: string; // Id assertion, e.g. /4[chap01]
+}
+
+export interface ParsedCfi {
+    packageSteps: CfiStep[]; // Up to the itemref, normally /6/N
+    contentSteps: CfiStep[]; // After the '!', inside the content document
+    offset?: number; // Character offset of a terminal text step
+}
+
+/**
+ * What a CFI points to. node is null when the CFI names the whole content document.
+ */
+export interface CfiTarget {
+    spineIndex: number;
+    filePath: string;
+    node: Node | null;
+    offset?: number;
+}
+
+/**
+ * A resolved CFI as shown by the locate command
+ */
+export interface CfiLocation {
+    cfi: string; // Canonical CFI of the element, with corrected steps and id assertions
+    filePath: string;
+    spineIndex: number;
+    offset?: number;
+    startTag?: string;
+    source?: NodeLocation; // Missing when the CFI names the whole document
+}
+
+const DEFAULT_SPINE_STEP = 6; // spine is the third child of package: metadata, manifest, spine
+
+/**
+ * Parse `epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:10)`. Ranges, and spatial or temporal
+ * offsets, are not supported and return null.
+ */
+export function parseCfi(cfi: string): ParsedCfi | null {
+    const match = cfi.trim().match(/^(?:epubcfi\()?(.*?)\)?$/);
+    const body = match ? match[1] : '';
+    const parts = splitUnescaped(body, '!');
+    if (parts.length < 1 || parts.length > 2 || splitUnescaped(body, ',').length > 1) {
+        return null;
+    }
+
+    const packagePath = parseSteps(parts[0]);
+    const contentPath = parts.length === 2 ? parseSteps(parts[1]) : { steps: [] };
+    if (!packagePath || !contentPath || packagePath.steps.length === 0 || packagePath.offset !== undefined ||
+        (parts.length === 2 && contentPath.steps.length === 0)) {
+        return null;
+    }
+    return { packageSteps: packagePath.steps, contentSteps: contentPath.steps, offset: contentPath.offset };
+}
+
+export function formatCfi(cfi: ParsedCfi): string {
+    const steps = (list: CfiStep[]) => list.map(step => `/${step.index}${step.id ? `[${escapeAssertion(step.id)}]` : ''}`).join('');
+    const content = cfi.contentSteps.length > 0 ? `!${steps(cfi.contentSteps)}${cfi.offset !== undefined ? `:${cfi.offset}` : ''}` : '';
+    return `epubcfi(${steps(cfi.packageSteps)}${content})`;
+}
+
+/**
+ * Generates and resolves CFIs for the content documents in a publication's spine
+ */
+export class EpubCfi {
+    private spineStep: number = DEFAULT_SPINE_STEP;
+    private itemrefIds: (string | undefined)[] = [];
+    private spinePaths: string[];
+
+    /**
+     * packagePath is the OPF's path in the container; the package document text gives the real spine
+     * position and itemref ids, otherwise the usual /6 is assumed
+     */
+    constructor(manifest: EpubManifest, packagePath: string, packageDocument?: string) {
+        this.spinePaths = manifest.spine.map(itemref => {
+            const item = manifest.items.find(candidate => candidate.id === itemref.idref);
+            return (item && resolveHref(item.href, packagePath)) || '';
+        });
+
+        if (packageDocument) {
+            const $ = cheerio.load(packageDocument, { xmlMode: true });
+            const $spine = $('spine').first();
+            if ($spine.length > 0) {
+                this.spineStep = ($spine.parent().children().toArray().indexOf($spine.get(0)) + 1) * 2;
+                this.itemrefIds = $spine.children('itemref').toArray().map(itemref => itemref.attribs.id || undefined);
+            }
+        }
+    }
+
+    /**
+     * Spine position of a content file, or -1 if it isn't in the spine
+     */
+    spineIndexOf(filePath: string): number {
+        return this.spinePaths.indexOf(filePath);
+    }
+
+    /**
+     * CFI of an element in a spine document, or of the document itself when node is omitted or is the root element.
+     * Returns null for files outside the spine.
+     */
+    generate(filePath: string, node?: Node): string | null {
+        const spineIndex = this.spineIndexOf(filePath);
+        if (spineIndex === -1) {
+            return null;
+        }
+
+        const contentSteps: CfiStep[] = [];
+        for (let current = node; current && isElement(current) && current.parent && isElement(current.parent); current = current.parent) {
+            contentSteps.unshift({ index: (elementChildren(current.parent).indexOf(current) + 1) * 2, id: current.attribs?.id });
+        }
+
+        return formatCfi({
+            packageSteps: [{ index: this.spineStep }, { index: (spineIndex + 1) * 2, id: this.itemrefIds[spineIndex] }],
+            contentSteps
+        });
+    }
+
+    /**
+     * Find the element a CFI points to. A step whose id assertion doesn't match is corrected with the element
+     * that has that id, as the spec allows; text steps resolve to the element containing the text.
+     */
+    resolve(cfi: string, loadDocument: (filePath: string) => CheerioStatic | null): CfiTarget | null {
+        const parsed = parseCfi(cfi);
+        if (!parsed) {
+            return null;
+        }
+
+        const itemref = parsed.packageSteps[parsed.packageSteps.length - 1];
+        let spineIndex = itemref.index / 2 - 1;
+        if (itemref.id && this.itemrefIds[spineIndex] !== itemref.id && this.itemrefIds.includes(itemref.id)) {
+            spineIndex = this.itemrefIds.indexOf(itemref.id);
+        }
+        const filePath = this.spinePaths[spineIndex];
+        if (itemref.index % 2 !== 0 || !filePath) {
+            return null;
+        }
+        if (parsed.contentSteps.length === 0) {
+            return { spineIndex, filePath, node: null };
+        }
+
+        const $ = loadDocument(filePath);
+        let node: Node | null = $ ? elementChildren($.root()[0])[0] || null : null;
+        for (const [index, step] of parsed.contentSteps.entries()) {
+            if (!node) {
+                return null;
+            }
+            if (step.index % 2 === 1) {
+                // Text between elements: only meaningful as the last step
+                if (index < parsed.contentSteps.length - 1) {
+                    return null;
+                }
+                break;
+            }
+
+            let child = elementChildren(node)[step.index / 2 - 1] || null;
+            if (step.id && child?.attribs?.id !== step.id) {
+                child = $!(`[id="${step.id.replace(/["\\]/g, '\\$&')}"]`).get(0) || null;
+            }
+            node = child;
+        }
+
+        return node ? { spineIndex, filePath, node, offset: parsed.offset } : null;
+    }
+
+    /**
+     * CFI generator for a processing context, or null if there is no package document
+     */
+    static forContext(context: { manifest: EpubManifest; contents: Map<string, EpubContent>; packagePath?: string },
+        packagePath: string | undefined = context.packagePath): EpubCfi | null {
+        if (!packagePath) {
+            return null;
+        }
+        const opf = context.contents.get(packagePath);
+        return new EpubCfi(context.manifest, packagePath, opf && typeof opf.content === 'string' ? opf.content : undefined);
+    }
+}
+
+function isElement(node: Node): boolean {
+    return node.type === 'tag' || node.type === 'script' || node.type === 'style';
+}
+
+function elementChildren(node: Node): Node[] {
+    return (node.children || []).filter(isElement);
+}
+
+function parseSteps(text: string): { steps: CfiStep[]; offset?: number } | null {
+    const steps: CfiStep[] = [];
+    const pattern = /\/(\d+)(?:\[((?:\^.|[^\]^])*)\])?/y;
+    let position = 0;
+
+    while (position < text.length && text[position] === '/') {
+        pattern.lastIndex = position;
+        const match = pattern.exec(text);
+        if (!match) {
+            return null;
+        }
+        steps.push({ index: parseInt(match[1], 10), id: match[2] ? unescapeAssertion(match[2]) : undefined });
+        position = pattern.lastIndex;
+    }
+
+    // A character offset may follow, with an optional text assertion such as :10[;s=a]
+    const rest = text.substring(position);
+    if (!rest) {
+        return { steps };
+    }
+    const offset = rest.match(/^:(\d+)(?:\[(?:\^.|[^\]^])*\])?$/);
+    return offset ? { steps, offset: parseInt(offset[1], 10) } : null;
+}
+
+// Splits on a character that isn't escaped with ^ or inside an assertion
+function splitUnescaped(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let inAssertion = false;
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+        if (char === '^' && index + 1 < text.length) {
+            current += char + text[++index];
+            continue;
+        }
+        if (char === '[' || char === ']') {
+            inAssertion = char === '[';
+        } else if (char === separator && !inAssertion) {
+            parts.push(current);
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts;
+}
+
+function escapeAssertion(value: string): string {
+    return value.replace(/[\^[\](),;=]/g, '^$&');
+}
+
+function unescapeAssertion(value: string): string {
+    return value.replace(/\^(.)/g, '$1');
+}
@@ -1,7 +1,8 @@
 import * as path from 'path';
 import * as fs from 'fs-extra';
-import * as JSZip from 'jszip';
 import { Logger } from './common';
+import { parseRootfiles } from '../core/renditions';
+import { ArchiveBudget, ArchiveLimits, ZipReader } from './archive-safety';
 
 export interface EpubVersionInfo {
     version: string;
@@ -19,9 +20,9 @@ export class EpubVersionDetector {
     }
 
     /**
-     * Detect EPUB version from an EPUB file
+     * Detect EPUB version from an EPUB file. Archives over the limits are rejected with an UnsafeArchiveError.
      */
-    async detectVersion(epubPath: string): Promise<EpubVersionInfo> {
+    async detectVersion(epubPath: string, limits: Partial<ArchiveLimits> = {}): Promise<EpubVersionInfo> {
         this.logger.info(`Detecting EPUB version for: ${epubPath}`);
 
         if (!await fs.pathExists(epubPath)) {
@@ -29,7 +30,7 @@ export class EpubVersionDetector {
         }
 
         const zipBuffer = await fs.readFile(epubPath);
-        const zip = await JSZip.loadAsync(zipBuffer);
+        const zip = await ZipReader.open(zipBuffer, new ArchiveBudget(limits));
 
         // First, find the OPF file from container.xml
         const containerFile = zip.file('META-INF/container.xml');
@@ -37,30 +38,38 @@ export class EpubVersionDetector {
             throw new Error('Invalid EPUB: Missing META-INF/container.xml');
         }
 
-        const containerContent = await containerFile.async('string');
-        const opfPath = this.extractOpfPath(containerContent);
+        const containerContent = (await zip.read(containerFile)).toString('utf8');
+        const opfPaths = this.extractOpfPaths(containerContent);
 
-        if (!opfPath) {
+        if (opfPaths.length === 0) {
             throw new Error('Invalid EPUB: Cannot find OPF file path in container.xml');
         }
 
-        // Read the OPF file
-        const opfFile = zip.file(opfPath);
-        if (!opfFile) {
-            throw new Error(`Invalid EPUB: OPF file not found at ${opfPath}`);
+        // The default rendition decides the version; the other renditions should match it
+        const versions: EpubVersionInfo[] = [];
+        for (const opfPath of opfPaths) {
+            const opfFile = zip.file(opfPath);
+            if (!opfFile) {
+                if (versions.length === 0) {
+                    throw new Error(`Invalid EPUB: OPF file not found at ${opfPath}`);
+                }
+                this.logger.warn(`OPF file not found for rendition at ${opfPath}`);
+                continue;
+            }
+            versions.push(this.parseVersionFromOpf((await zip.read(opfFile)).toString('utf8')));
         }
 
-        const opfContent = await opfFile.async('string');
-        return this.parseVersionFromOpf(opfContent);
+        if (versions.some(info => info.version !== versions[0].version)) {
+            this.logger.warn(`Renditions have different EPUB versions: ${versions.map(info => info.version).join(', ')}`);
+        }
+        return versions[0];
     }
 
     /**
-     * Extract OPF file path from container.xml
+     * Extract the OPF file path of every rendition from container.xml
      */
-    private extractOpfPath(containerXml: string): string | null {
-        // Simple regex to extract full-path from container.xml
-        const match = containerXml.match(/full-path\s*=\s*["']([^"']+)["']/);
-        return match ? match[1] : null;
+    private extractOpfPaths(containerXml: string): string[] {
+        return parseRootfiles(containerXml).map(rootfile => rootfile.fullPath);
     }
 
     /**
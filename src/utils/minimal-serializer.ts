@@ -0,0 +1,292 @@
+import * as cheerio from 'cheerio';
+
+type CheerioStatic = ReturnType<typeof cheerio.load>;
+type Node = any;
+
+/**
+ * A node as it was parsed: where it is in the source and what it looked like
+ */
+interface NodeSnapshot {
+    start: number;
+    end: number; // Inclusive, like htmlparser2's endIndex
+    name?: string;
+    attribs?: { [name: string]: string };
+    children?: Node[];
+    data?: string;
+    startTagEnd?: number; // Index of the '>' closing the start tag
+    selfClosing?: boolean;
+    endTagStart?: number;
+}
+
+interface SourceInfo {
+    text: string;
+    snapshots: WeakMap<Node, NodeSnapshot>;
+}
+
+// Keyed by the document node, so a document parsed here can be serialized against its source later
+const sources = new WeakMap<Node, SourceInfo>();
+
+const ATTRIBUTE_PATTERN = /(\s+)([^\s=/>"']+)(?:(\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s>"']+)))?/g;
+
+/**
+ * Parse XML/XHTML and remember the source, so serializeMinimal can leave unchanged markup as it was
+ */
+export function parseWithSource(text: string): CheerioStatic {
+    const $ = cheerio.load(text, { xmlMode: true, withStartIndices: true, withEndIndices: true } as any);
+    const root = $.root()[0];
+    const snapshots = new WeakMap<Node, NodeSnapshot>();
+
+    const visit = (node: Node) => {
+        const snapshot = takeSnapshot(node, text);
+        if (!snapshot) {
+            return; // Nodes without a reliable source range are written out in full
+        }
+        snapshots.set(node, snapshot);
+        (node.children || []).forEach(visit);
+    };
+    (root.children || []).forEach(visit);
+    snapshots.set(root, { start: 0, end: text.length - 1, children: [...(root.children || [])] });
+
+    sources.set(root, { text, snapshots });
+    return $;
+}
+
+/**
+ * The document's source with only the changed parts rewritten: edited attributes in place, changed
+ * text, and added or removed nodes. Everything else, including whitespace, quoting, entities, the XML
+ * declaration and DOCTYPE, stays byte-identical. Returns null if `$` wasn't parsed by parseWithSource.
+ */
+export function serializeMinimal($: CheerioStatic): string | null {
+    const root = $.root()[0];
+    const source = sources.get(root);
+    if (!source) {
+        return null;
+    }
+    return new MinimalSerializer(source).children(root);
+}
+
+function takeSnapshot(node: Node, text: string): NodeSnapshot | null {
+    if (typeof node.startIndex !== 'number' || typeof node.endIndex !== 'number' || node.endIndex < node.startIndex) {
+        return null;
+    }
+    const snapshot: NodeSnapshot = { start: node.startIndex, end: node.endIndex };
+
+    if (node.type === 'text' || node.type === 'comment' || node.type === 'directive') {
+        snapshot.data = node.data;
+        return snapshot;
+    }
+    if (node.type === 'cdata') {
+        snapshot.children = [...(node.children || [])];
+        snapshot.data = node.children?.[0]?.data;
+        return snapshot;
+    }
+
+    // Elements: find where the start tag ends, skipping '>' inside quoted attribute values
+    let quote: string | null = null;
+    let index = node.startIndex;
+    for (; index <= node.endIndex; index++) {
+        const char = text[index];
+        if (quote) {
+            quote = char === quote ? null : quote;
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+        } else if (char === '>') {
+            break;
+        }
+    }
+    if (index > node.endIndex) {
+        return null;
+    }
+
+    snapshot.name = node.name;
+    snapshot.attribs = { ...node.attribs };
+    snapshot.children = [...(node.children || [])];
+    snapshot.startTagEnd = index;
+    snapshot.selfClosing = text[index - 1] === '/';
+
+    if (!snapshot.selfClosing) {
+        // An element closed implicitly by malformed markup has no end tag of its own to keep
+        const endTagStart = text.lastIndexOf('</', node.endIndex);
+        if (endTagStart <= index || !text.startsWith(`</${node.name}`, endTagStart)) {
+            return null;
+        }
+        snapshot.endTagStart = endTagStart;
+    }
+    return snapshot;
+}
+
+class MinimalSerializer {
+    private source: SourceInfo;
+    private unchangedCache: Map<Node, boolean> = new Map();
+
+    constructor(source: SourceInfo) {
+        this.source = source;
+    }
+
+    node(node: Node): string {
+        const snapshot = this.source.snapshots.get(node);
+        if (!snapshot) {
+            return this.render(node);
+        }
+        if (this.isUnchanged(node)) {
+            return this.slice(snapshot.start, snapshot.end + 1);
+        }
+
+        switch (node.type) {
+            case 'text':
+                return escapeText(node.data);
+            case 'tag':
+            case 'script':
+            case 'style':
+                return this.element(node, snapshot);
+            default:
+                return this.render(node);
+        }
+    }
+
+    children(parent: Node): string {
+        const snapshot = this.source.snapshots.get(parent);
+        const original: Node[] = snapshot?.children || [];
+        const children: Node[] = parent.children || [];
+        let output = '';
+
+        children.forEach((child, index) => {
+            // Keep anything between two nodes that were already neighbours (normally nothing)
+            const previous = index > 0 ? children[index - 1] : null;
+            const position = original.indexOf(child);
+            if (previous && position > 0 && original[position - 1] === previous) {
+                const previousSnapshot = this.source.snapshots.get(previous);
+                const childSnapshot = this.source.snapshots.get(child);
+                if (previousSnapshot && childSnapshot) {
+                    output += this.slice(previousSnapshot.end + 1, childSnapshot.start);
+                }
+            }
+            output += this.node(child);
+        });
+
+        // The document keeps text outside any node, such as a trailing newline
+        if (parent.type === 'root' && snapshot) {
+            const first = this.source.snapshots.get(original[0]);
+            const last = this.source.snapshots.get(original[original.length - 1]);
+            if (first && children[0] === original[0]) {
+                output = this.slice(0, first.start) + output;
+            }
+            if (last && children[children.length - 1] === original[original.length - 1]) {
+                output += this.slice(last.end + 1, this.source.text.length);
+            }
+        }
+        return output;
+    }
+
+    private element(node: Node, snapshot: NodeSnapshot): string {
+        // Renaming (such as h3 to h2) only replaces the names in the tags
+        const rename = (tag: string, prefix: string) => prefix + node.name + tag.substring(prefix.length + snapshot.name!.length);
+        const startTag = this.editAttributes(rename(this.slice(snapshot.start, snapshot.startTagEnd! + 1), '<'), snapshot.attribs!, node.attribs || {});
+        const children = this.children(node);
+
+        if (snapshot.selfClosing) {
+            return children ? `${startTag.replace(/\s*\/>$/, '>')}${children}</${node.name}>` : startTag;
+        }
+        return startTag + children + rename(this.slice(snapshot.endTagStart!, snapshot.end + 1), '</');
+    }
+
+    /**
+     * Rewrite only the attributes whose values changed, drop removed ones and append new ones
+     */
+    private editAttributes(startTag: string, before: { [name: string]: string }, after: { [name: string]: string }): string {
+        const nameEnd = startTag.search(/[\s/>]/);
+        const close = startTag.match(/\s*\/?>$/)![0];
+        const body = startTag.substring(nameEnd, startTag.length - close.length);
+
+        let attributes = body.replace(ATTRIBUTE_PATTERN, (match, space, name, equals, doubleQuoted, singleQuoted) => {
+            if (!has(after, name)) {
+                return '';
+            }
+            if (has(before, name) && before[name] === after[name]) {
+                return match;
+            }
+            const quote = singleQuoted !== undefined ? '\'' : '"';
+            return `${space}${name}${equals || '='}${quote}${escapeAttribute(after[name], quote)}${quote}`;
+        });
+
+        for (const name of Object.keys(after)) {
+            if (!has(before, name)) {
+                attributes += ` ${name}="${escapeAttribute(after[name], '"')}"`;
+            }
+        }
+        return startTag.substring(0, nameEnd) + attributes + close;
+    }
+
+    private isUnchanged(node: Node): boolean {
+        const cached = this.unchangedCache.get(node);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const snapshot = this.source.snapshots.get(node);
+        let unchanged = !!snapshot;
+        if (snapshot) {
+            if (node.type === 'cdata') {
+                unchanged = node.children?.[0]?.data === snapshot.data && (node.children || []).length === snapshot.children!.length;
+            } else if (snapshot.data !== undefined || node.type === 'text' || node.type === 'comment' || node.type === 'directive') {
+                unchanged = node.data === snapshot.data;
+            } else {
+                const children: Node[] = node.children || [];
+                unchanged = node.name === snapshot.name &&
+                    sameAttributes(snapshot.attribs!, node.attribs || {}) &&
+                    children.length === snapshot.children!.length &&
+                    children.every((child, index) => child === snapshot.children![index] && this.isUnchanged(child));
+            }
+        }
+
+        this.unchangedCache.set(node, unchanged);
+        return unchanged;
+    }
+
+    /**
+     * Serialize a node that has no source to copy from
+     */
+    private render(node: Node): string {
+        switch (node.type) {
+            case 'text':
+                return escapeText(node.data);
+            case 'comment':
+                return `<!--${node.data}-->`;
+            case 'directive':
+                return `<${node.data}>`;
+            case 'cdata':
+                return `<![CDATA[${(node.children || []).map((child: Node) => child.data).join('')}]]>`;
+            case 'root':
+                return (node.children || []).map((child: Node) => this.node(child)).join('');
+            default: {
+                const attributes = Object.keys(node.attribs || {})
+                    .map(name => ` ${name}="${escapeAttribute(node.attribs[name], '"')}"`)
+                    .join('');
+                const children = (node.children || []).map((child: Node) => this.node(child)).join('');
+                return children ? `<${node.name}${attributes}>${children}</${node.name}>` : `<${node.name}${attributes}/>`;
+            }
+        }
+    }
+
+    private slice(start: number, end: number): string {
+        return this.source.text.substring(start, end);
+    }
+}
+
+function sameAttributes(a: { [name: string]: string }, b: { [name: string]: string }): boolean {
+    const names = Object.keys(a);
+    return names.length === Object.keys(b).length && names.every(name => has(b, name) && a[name] === b[name]);
+}
+
+function has(attributes: { [name: string]: string }, name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(attributes, name);
+}
+
+function escapeText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: string, quote: string): string {
+    const escaped = value.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+    return quote === '"' ? escaped.replace(/"/g, '&quot;') : escaped.replace(/'/g, '&apos;');
+}
@@ -0,0 +1,229 @@
+import { spawn } from 'child_process';
+import * as path from 'path';
+
+/**
+ * External tools run through the process runner, for per-tool timeouts
+ */
+export type ToolName = 'epubcheck' | 'ace' | 'tesseract' | 'exiftool' | 'python';
+
+// Milliseconds
+export const DEFAULT_TOOL_TIMEOUTS: Record<ToolName, number> = {
+    epubcheck: 300000,
+    ace: 600000,
+    tesseract: 15000,
+    exiftool: 10000,
+    python: 60000
+};
+
+const DEFAULT_TIMEOUT = 300000; // For tools without an entry above
+const DEFAULT_MAX_OUTPUT = 10 * 1024 * 1024; // Bytes kept of each of stdout and stderr
+const KILL_GRACE_PERIOD = 5000; // Time between SIGTERM and SIGKILL
+
+export interface RunToolOptions {
+    tool?: string; // Name used in messages, the command's base name by default
+    cwd?: string;
+    env?: NodeJS.ProcessEnv;
+    timeout?: number; // Milliseconds, 0 for no timeout
+    maxOutput?: number; // Output past this many bytes per stream is dropped, and the result is marked truncated
+    signal?: AbortSignal;
+    allowedExitCodes?: number[]; // Other exit codes are reported as crashes; when omitted any exit code is accepted
+}
+
+/**
+ * Timeout for a tool, from the configuration's toolTimeouts or the default
+ */
+export function getToolTimeout(tool: ToolName, overrides: Partial<Record<ToolName, number>> = {}): number {
+    return typeof overrides[tool] === 'number' ? overrides[tool]! : DEFAULT_TOOL_TIMEOUTS[tool];
+}
+
+/**
+ * What callers of a tool wrapper, such as the EpubCheck runner, can set for one run
+ */
+export type ToolCallOptions = Pick<RunToolOptions, 'timeout' | 'signal'>;
+
+export interface ToolRunResult {
+    exitCode: number;
+    stdout: string;
+    stderr: string;
+    truncated: boolean;
+    duration: number; // Milliseconds
+}
+
+export type ToolErrorKind = 'timeout' | 'crashed' | 'not-found' | 'cancelled';
+
+/**
+ * An external tool that didn't run to completion. stdout and stderr hold what it wrote before it stopped.
+ */
+export class ToolError extends Error {
+    readonly kind: ToolErrorKind;
+    readonly tool: string;
+    readonly command: string;
+    readonly args: string[];
+    stdout = '';
+    stderr = '';
+
+    constructor(message: string, kind: ToolErrorKind, tool: string, command: string, args: string[]) {
+        super(message);
+        this.name = 'ToolError';
+        this.kind = kind;
+        this.tool = tool;
+        this.command = command;
+        this.args = args;
+    }
+}
+
+export class ToolTimeout extends ToolError {
+    readonly timeout: number;
+
+    constructor(tool: string, command: string, args: string[], timeout: number) {
+        super(`${tool} did not finish within ${timeout >= 1000 ? `${Math.round(timeout / 1000)}s` : `${timeout}ms`} and was stopped`, 'timeout', tool, command, args);
+        this.name = 'ToolTimeout';
+        this.timeout = timeout;
+    }
+}
+
+export class ToolCrashed extends ToolError {
+    readonly exitCode: number | null;
+    readonly signal: string | null;
+
+    constructor(tool: string, command: string, args: string[], exitCode: number | null, signal: string | null, reason?: string) {
+        super(`${tool} ${reason || (signal ? `was killed by ${signal}` : `exited with code ${exitCode}`)}`, 'crashed', tool, command, args);
+        this.name = 'ToolCrashed';
+        this.exitCode = exitCode;
+        this.signal = signal;
+    }
+}
+
+export class ToolNotFound extends ToolError {
+    constructor(tool: string, command: string, args: string[]) {
+        super(`${tool} could not be started: ${command} was not found`, 'not-found', tool, command, args);
+        this.name = 'ToolNotFound';
+    }
+}
+
+export class ToolCancelled extends ToolError {
+    constructor(tool: string, command: string, args: string[]) {
+        super(`${tool} was cancelled`, 'cancelled', tool, command, args);
+        this.name = 'ToolCancelled';
+    }
+}
+
+/**
+ * Run an external program with an argument array, without a shell, so file names are passed through as they are.
+ * Resolves when the program exits with an allowed code; rejects with a ToolError when it can't be started,
+ * runs past the timeout, crashes or is cancelled through the signal.
+ */
+export function runTool(command: string, args: string[], options: RunToolOptions = {}): Promise<ToolRunResult> {
+    const tool = options.tool || path.basename(command);
+    const timeout = options.timeout !== undefined ? options.timeout : DEFAULT_TIMEOUT;
+    const maxOutput = options.maxOutput || DEFAULT_MAX_OUTPUT;
+    const startTime = Date.now();
+
+    return new Promise<ToolRunResult>((resolve, reject) => {
+        if (options.signal?.aborted) {
+            reject(new ToolCancelled(tool, command, args));
+            return;
+        }
+
+        const stdout = new OutputBuffer(maxOutput);
+        const stderr = new OutputBuffer(maxOutput);
+        let stopReason: 'timeout' | 'cancelled' | null = null;
+        let killTimer: NodeJS.Timeout | undefined;
+        let settled = false;
+
+        const child = spawn(command, args, {
+            cwd: options.cwd,
+            env: options.env,
+            shell: false,
+            windowsHide: true,
+            stdio: ['ignore', 'pipe', 'pipe']
+        });
+
+        const stop = (reason: 'timeout' | 'cancelled') => {
+            if (stopReason || settled) {
+                return;
+            }
+            stopReason = reason;
+            child.kill('SIGTERM');
+            killTimer = setTimeout(() => child.kill('SIGKILL'), KILL_GRACE_PERIOD);
+        };
+        const timer = timeout > 0 ? setTimeout(() => stop('timeout'), timeout) : undefined;
+        const onAbort = () => stop('cancelled');
+        options.signal?.addEventListener('abort', onAbort);
+
+        const finish = (error: ToolError | null, exitCode: number = -1) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            clearTimeout(timer);
+            clearTimeout(killTimer);
+            options.signal?.removeEventListener('abort', onAbort);
+
+            if (error) {
+                error.stdout = stdout.toString();
+                error.stderr = stderr.toString();
+                reject(error);
+                return;
+            }
+            resolve({
+                exitCode,
+                stdout: stdout.toString(),
+                stderr: stderr.toString(),
+                truncated: stdout.truncated || stderr.truncated,
+                duration: Date.now() - startTime
+            });
+        };
+
+        child.stdout.on('data', (chunk: Buffer) => stdout.add(chunk));
+        child.stderr.on('data', (chunk: Buffer) => stderr.add(chunk));
+
+        child.on('error', (error: NodeJS.ErrnoException) => {
+            finish(error.code === 'ENOENT' ?
+                new ToolNotFound(tool, command, args) :
+                new ToolCrashed(tool, command, args, null, null, `could not be started: ${error.message}`));
+        });
+
+        child.on('close', (code: number | null, signal: string | null) => {
+            if (stopReason === 'timeout') {
+                finish(new ToolTimeout(tool, command, args, timeout));
+            } else if (stopReason === 'cancelled') {
+                finish(new ToolCancelled(tool, command, args));
+            } else if (code === null || (options.allowedExitCodes && !options.allowedExitCodes.includes(code))) {
+                finish(new ToolCrashed(tool, command, args, code, signal));
+            } else {
+                finish(null, code);
+            }
+        });
+    });
+}
+
+// Keeps the first maxBytes of a stream and drops the rest
+class OutputBuffer {
+    private maxBytes: number;
+    private chunks: Buffer[] = [];
+    private size = 0;
+    truncated = false;
+
+    constructor(maxBytes: number) {
+        this.maxBytes = maxBytes;
+    }
+
+    add(chunk: Buffer): void {
+        const room = this.maxBytes - this.size;
+        if (room <= 0) {
+            this.truncated = true;
+            return;
+        }
+        if (chunk.length > room) {
+            chunk = chunk.subarray(0, room);
+            this.truncated = true;
+        }
+        this.chunks.push(chunk);
+        this.size += chunk.length;
+    }
+
+    toString(): string {
+        return Buffer.concat(this.chunks, this.size).toString('utf8');
+    }
+}
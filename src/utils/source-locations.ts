@@ -0,0 +1,207 @@
+import * as cheerio from 'cheerio';
+import { SourceExcerpt } from '../types';
+
+type CheerioStatic = ReturnType<typeof cheerio.load>;
+type Node = any;
+
+export interface SourcePosition {
+    line: number; // 1-based
+    column: number; // 1-based, in UTF-16 code units
+}
+
+/**
+ * Where an element is in the text it was parsed from
+ */
+export interface NodeLocation extends SourcePosition {
+    offset: number;
+    xpath: string;
+    selector: string;
+    excerpt: SourceExcerpt;
+}
+
+const EXCERPT_CONTEXT = 2; // Lines shown before and after the location
+const EXCERPT_WIDTH = 160; // Longer lines, such as minified XHTML, are clipped around the location
+
+/**
+ * Line starts of a text, for turning offsets into line and column
+ */
+export class LineIndex {
+    readonly text: string;
+    private starts: number[] = [0];
+
+    constructor(text: string) {
+        this.text = text;
+        for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) {
+            this.starts.push(index + 1);
+        }
+    }
+
+    position(offset: number): SourcePosition {
+        let low = 0;
+        let high = this.starts.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (this.starts[middle] <= offset) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+        return { line: low + 1, column: offset - this.starts[low] + 1 };
+    }
+
+    offset(line: number, column: number = 1): number {
+        const start = this.starts[Math.min(Math.max(line, 1), this.starts.length) - 1];
+        return Math.min(start + Math.max(column, 1) - 1, this.text.length);
+    }
+
+    excerpt(position: SourcePosition, context: number = EXCERPT_CONTEXT): SourceExcerpt {
+        const first = Math.max(1, position.line - context);
+        const last = Math.min(this.starts.length, position.line + context);
+        const lines: string[] = [];
+
+        for (let line = first; line <= last; line++) {
+            const end = line < this.starts.length ? this.starts[line] - 1 : this.text.length;
+            const text = this.text.substring(this.starts[line - 1], end).replace(/\r$/, '');
+            lines.push(clip(text, line === position.line ? position.column : 1));
+        }
+        return { startLine: first, lines };
+    }
+}
+
+// Line index of each document parsed here, keyed by its root node
+const indexes = new WeakMap<Node, LineIndex>();
+
+/**
+ * Parse XML/XHTML keeping the source range of every node, so locateNode can report where an element is
+ */
+export function parseWithPositions(text: string): CheerioStatic {
+    const $ = cheerio.load(text, { xmlMode: true, withStartIndices: true, withEndIndices: true } as any);
+    indexes.set($.root()[0], new LineIndex(text));
+    return $;
+}
+
+/**
+ * Line index of the document `node` belongs to, if it was parsed by parseWithPositions
+ */
+export function getLineIndex(node: Node): LineIndex | null {
+    let root = node;
+    while (root && root.parent) {
+        root = root.parent;
+    }
+    return (root && indexes.get(root)) || null;
+}
+
+/**
+ * Line, column, xpath, CSS selector and source excerpt of an element. Returns null for nodes that were not
+ * parsed by parseWithPositions or were added after parsing.
+ */
+export function locateNode(node: Node): NodeLocation | null {
+    const index = node ? getLineIndex(node) : null;
+    if (!index || typeof node.startIndex !== 'number') {
+        return null;
+    }
+
+    const position = index.position(node.startIndex);
+    return {
+        ...position,
+        offset: node.startIndex,
+        xpath: getXPath(node),
+        selector: getCssSelector(node),
+        excerpt: index.excerpt(position)
+    };
+}
+
+/**
+ * The innermost element whose source range contains the offset
+ */
+export function elementAtOffset($: CheerioStatic, offset: number): Node | null {
+    let found: Node | null = null;
+    let children: Node[] = $.root()[0].children || [];
+
+    for (let searching = true; searching;) {
+        searching = false;
+        for (const child of children) {
+            if (isElement(child) && child.startIndex <= offset && offset <= child.endIndex) {
+                found = child;
+                children = child.children || [];
+                searching = true;
+                break;
+            }
+        }
+    }
+    return found;
+}
+
+/**
+ * Absolute xpath such as /html/body/section[2]/p. Positions are only added where an element has siblings of the same name.
+ */
+export function getXPath(node: Node): string {
+    const steps: string[] = [];
+    for (let current = node; current && isElement(current); current = current.parent) {
+        const { position, count } = positionAmongSameName(current);
+        steps.unshift(count > 1 ? `${current.name}[${position}]` : current.name);
+    }
+    return '/' + steps.join('/');
+}
+
+/**
+ * CSS selector for an element, starting from the nearest ancestor with a unique id, such as #ch1 > p:nth-of-type(3) > img
+ */
+export function getCssSelector(node: Node): string {
+    const parts: string[] = [];
+    for (let current = node; current && isElement(current); current = current.parent) {
+        const id = current.attribs?.id;
+        if (id && /^[A-Za-z_][\w-]*$/.test(id) && countIds(current, id) === 1) {
+            parts.unshift(`#${id}`);
+            break;
+        }
+        const { position, count } = positionAmongSameName(current);
+        const name = current.name.replace(/:/g, '\\:'); // epub:switch, dc:title
+        parts.unshift(count > 1 ? `${name}:nth-of-type(${position})` : name);
+    }
+    return parts.join(' > ');
+}
+
+function isElement(node: Node): boolean {
+    return node.type === 'tag' || node.type === 'script' || node.type === 'style';
+}
+
+function positionAmongSameName(node: Node): { position: number; count: number } {
+    const siblings: Node[] = node.parent ? node.parent.children || [] : [node];
+    const sameName = siblings.filter(sibling => isElement(sibling) && sibling.name === node.name);
+    return { position: sameName.indexOf(node) + 1, count: sameName.length };
+}
+
+// Ids counted once per document
+const idCounts = new WeakMap<Node, Map<string, number>>();
+
+function countIds(node: Node, id: string): number {
+    let root = node;
+    while (root.parent) {
+        root = root.parent;
+    }
+
+    let counts = idCounts.get(root);
+    if (!counts) {
+        counts = new Map();
+        const visit = (current: Node) => {
+            const currentId = current.attribs?.id;
+            if (currentId) {
+                counts!.set(currentId, (counts!.get(currentId) || 0) + 1);
+            }
+            (current.children || []).forEach(visit);
+        };
+        visit(root);
+        idCounts.set(root, counts);
+    }
+    return counts.get(id) || 0;
+}
+
+function clip(line: string, column: number): string {
+    if (line.length <= EXCERPT_WIDTH) {
+        return line;
+    }
+    const start = Math.max(0, Math.min(column - 1 - EXCERPT_WIDTH / 4, line.length - EXCERPT_WIDTH));
+    return (start > 0 ? '…' : '') + line.substr(start, EXCERPT_WIDTH) + (start + EXCERPT_WIDTH < line.length ? '…' : '');
+}
@@ -0,0 +1,189 @@
+/**
+ * Line-based diff (Myers' algorithm) and unified diff hunks
+ */
+
+export interface DiffOp {
+    type: 'equal' | 'insert' | 'delete';
+    line: string;
+    oldIndex: number; // Position in the old lines (for inserts: the old line it comes before)
+    newIndex: number; // Position in the new lines (for deletes: the new line it comes before)
+}
+
+export interface DiffHunk {
+    oldStart: number;
+    oldLength: number;
+    newStart: number;
+    newLength: number;
+    ops: DiffOp[];
+}
+
+// Beyond this many edits the changed middle section is reported as one replacement
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Split text into lines, keeping the line terminators so a missing final newline is preserved
+ */
+export function splitLines(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+export function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+    // Common prefix and suffix are cheap to strip and keep the Myers search small
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+        oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+    const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+    const middle = myers(oldMiddle, newMiddle) || [
+        ...oldMiddle.map((line): DiffOp => ({ type: 'delete', line, oldIndex: 0, newIndex: 0 })),
+        ...newMiddle.map((line): DiffOp => ({ type: 'insert', line, oldIndex: 0, newIndex: 0 }))
+    ];
+
+    const ops: DiffOp[] = [];
+    let oldIndex = 0;
+    let newIndex = 0;
+    const push = (type: DiffOp['type'], line: string) => {
+        ops.push({ type, line, oldIndex, newIndex });
+        if (type !== 'insert') oldIndex++;
+        if (type !== 'delete') newIndex++;
+    };
+
+    oldLines.slice(0, prefix).forEach(line => push('equal', line));
+    middle.forEach(op => push(op.type, op.line));
+    oldLines.slice(oldLines.length - suffix).forEach(line => push('equal', line));
+
+    return ops;
+}
+
+/**
+ * Shortest edit script between a and b, or null if it needs more than MAX_EDIT_DISTANCE edits
+ */
+function myers(a: string[], b: string[]): DiffOp[] | null {
+    const n = a.length;
+    const m = b.length;
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    const trace: Int32Array[] = [];
+
+    v[offset + 1] = 0;
+    for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+        // Keep the part of v the next step reads from, for backtracking
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) ?
+                v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+
+            if (x >= n && y >= m) {
+                return backtrack(a, b, trace, d);
+            }
+        }
+    }
+
+    return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[], distance: number): DiffOp[] {
+    const ops: DiffOp[] = [];
+    let x = a.length;
+    let y = b.length;
+
+    for (let d = distance; d > 0; d--) {
+        const saved = trace[d];
+        const get = (k: number) => saved[k + d + 1];
+        const k = x - y;
+        const prevK = (k === -d || (k !== d && get(k - 1) < get(k + 1))) ? k + 1 : k - 1;
+        const prevX = get(prevK);
+        const prevY = prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            ops.push({ type: 'equal', line: a[x - 1], oldIndex: 0, newIndex: 0 });
+            x--;
+            y--;
+        }
+        if (x === prevX) {
+            ops.push({ type: 'insert', line: b[y - 1], oldIndex: 0, newIndex: 0 });
+            y--;
+        } else {
+            ops.push({ type: 'delete', line: a[x - 1], oldIndex: 0, newIndex: 0 });
+            x--;
+        }
+    }
+
+    while (x > 0 && y > 0) {
+        ops.push({ type: 'equal', line: a[x - 1], oldIndex: 0, newIndex: 0 });
+        x--;
+        y--;
+    }
+
+    return ops.reverse();
+}
+
+/**
+ * Group changes into hunks with the given number of context lines
+ */
+export function buildHunks(ops: DiffOp[], context: number = 3): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+    let current: { start: number; end: number } | null = null;
+    const ranges: { start: number; end: number }[] = [];
+
+    ops.forEach((op, index) => {
+        if (op.type === 'equal') {
+            return;
+        }
+        const start = Math.max(0, index - context);
+        const end = Math.min(ops.length, index + context + 1);
+        if (current && start <= current.end) {
+            current.end = end;
+        } else {
+            current = { start, end };
+            ranges.push(current);
+        }
+    });
+
+    for (const range of ranges) {
+        const hunkOps = ops.slice(range.start, range.end);
+        const oldLength = hunkOps.filter(op => op.type !== 'insert').length;
+        const newLength = hunkOps.filter(op => op.type !== 'delete').length;
+        const first = hunkOps[0];
+        hunks.push({
+            // Unified diff line numbers are 1-based; an empty range points at the line before it
+            oldStart: oldLength > 0 ? first.oldIndex + 1 : first.oldIndex,
+            oldLength,
+            newStart: newLength > 0 ? first.newIndex + 1 : first.newIndex,
+            newLength,
+            ops: hunkOps
+        });
+    }
+
+    return hunks;
+}
+
+/**
+ * Format a hunk in unified diff syntax. The heading goes after the closing @@.
+ */
+export function formatHunk(hunk: DiffHunk, heading?: string): string {
+    const prefixes = { equal: ' ', insert: '+', delete: '-' };
+    let text = `@@ -${hunk.oldStart},${hunk.oldLength} +${hunk.newStart},${hunk.newLength} @@${heading ? ` ${heading}` : ''}\n`;
+    for (const op of hunk.ops) {
+        text += prefixes[op.type] + op.line;
+        if (!op.line.endsWith('\n')) {
+            text += '\n\\ No newline at end of file\n';
+        }
+    }
+    return text;
+}
@@ -1,12 +1,10 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 import { AccessibilityIssue, ProcessingContext } from '../types';
 import { Logger } from '../utils/common';
 import { ToolInfo } from '../core/tool-installer';
-
-const execAsync = promisify(exec);
+import { BuiltinRule, BuiltinRuleEngine } from './builtin-rule-engine';
+import { DEFAULT_TOOL_TIMEOUTS, ToolCallOptions, ToolCrashed, runTool } from '../utils/process-runner';
 
 export interface AccessibilityResult {
     score?: number;
@@ -22,9 +20,13 @@ export interface AccessibilityResult {
 export class AccessibilityAnalyzer {
     private logger: Logger;
     private acePath?: string;
+    private ruleEngine: BuiltinRuleEngine;
+    private pluginRuleEngine: BuiltinRuleEngine;
 
     constructor(logger: Logger) {
         this.logger = logger;
+        this.ruleEngine = new BuiltinRuleEngine(logger);
+        this.pluginRuleEngine = new BuiltinRuleEngine(logger, [], 'plugin');
     }
 
     setAcePath(toolInfo: ToolInfo): void {
@@ -35,7 +37,11 @@ export class AccessibilityAnalyzer {
         }
     }
 
-    async analyzeAccessibility(epubPath: string, keepOutput: boolean = false): Promise<AccessibilityResult> {
+    /**
+     * Run DAISY ACE on an EPUB file. Rejects with a ToolError when ACE can't be started, times out,
+     * crashes or is cancelled.
+     */
+    async analyzeAccessibility(epubPath: string, keepOutput: boolean = false, run: ToolCallOptions = {}): Promise<AccessibilityResult> {
         if (!this.acePath) {
             throw new Error('DAISY ACE path not set. Call setAcePath first.');
         }
@@ -55,24 +61,25 @@ export class AccessibilityAnalyzer {
             await fs.ensureDir(outputDir);
 
             // Run DAISY ACE
-            const command = `"${this.acePath}" "${epubPath}" --outdir "${outputDir}" --format json`;
-
-            let stdout = '';
-            let stderr = '';
-
-            try {
-                const result = await execAsync(command, {
-                    maxBuffer: 1024 * 1024 * 10, // 10MB buffer
-                    timeout: 600000 // 10 minute timeout for accessibility analysis
-                });
-                stdout = result.stdout;
-                stderr = result.stderr;
-            } catch (error: any) {
+            const args = [epubPath, '--outdir', outputDir, '--format', 'json'];
+            const aceRun = await runTool(this.acePath, args, {
+                tool: 'DAISY ACE',
+                timeout: run.timeout !== undefined ? run.timeout : DEFAULT_TOOL_TIMEOUTS.ace,
+                signal: run.signal
+            }).catch(async error => {
+                if (!keepOutput) {
+                    await fs.remove(outputDir);
+                }
+                throw error;
+            });
+            const { stdout, stderr } = aceRun;
+            if (aceRun.exitCode !== 0) {
                 // DAISY ACE might return non-zero exit code for EPUBs with accessibility issues
-                stdout = error.stdout || '';
-                stderr = error.stderr || '';
                 this.logger.info('DAISY ACE completed with warnings (this is normal for EPUBs with accessibility issues)');
             }
+            if (aceRun.truncated) {
+                this.logger.warn('DAISY ACE console output was truncated');
+            }
 
             // Parse the results
             const reportPath = path.join(outputDir, 'report.json');
@@ -100,6 +107,13 @@ export class AccessibilityAnalyzer {
                     // Try to extract basic info from stdout/stderr
                     result = this.parseAccessibilityText(stdout + stderr);
                 }
+            } else if (aceRun.exitCode !== 0) {
+                // Without a report, a failing exit code means ACE itself failed
+                if (!keepOutput) {
+                    await fs.remove(outputDir);
+                }
+                throw new ToolCrashed('DAISY ACE', this.acePath, args, aceRun.exitCode, null,
+                    `exited with code ${aceRun.exitCode} without writing a report: ${lastLine(stderr || stdout)}`);
             } else {
                 this.logger.warn(`DAISY ACE report not found at: ${reportPath}`);
                 // No JSON report generated, parse text output
@@ -172,8 +186,7 @@ export class AccessibilityAnalyzer {
                                 fixable: this.isAccessibilityFixable(subAssertion),
                                 location: {
                                     file: fileUrl,
-                                    line: 0,
-                                    column: 0
+                                    selector: this.extractSelector(subAssertion)
                                 },
                                 element: this.extractElementInfo(subAssertion)
                             };
@@ -258,6 +271,11 @@ export class AccessibilityAnalyzer {
         return '';
     }
 
+    private extractSelector(assertion: any): string | undefined {
+        const cssSelectors = assertion['earl:result']?.['earl:pointer']?.css;
+        return Array.isArray(cssSelectors) && cssSelectors.length > 0 ? cssSelectors[0] : undefined;
+    }
+
     private extractRuleId(assertion: any): string {
         // Updated to work with new DAISY ACE structure
         if (assertion['earl:test']?.['dct:title']) {
@@ -403,76 +421,34 @@ export class AccessibilityAnalyzer {
 
     async performQuickAccessibilityCheck(context: ProcessingContext): Promise<AccessibilityIssue[]> {
         // Fallback accessibility check when DAISY ACE is not available
-        this.logger.info('Performing quick accessibility check...');
+        this.logger.info('Performing built-in accessibility check...');
 
-        const issues: AccessibilityIssue[] = [];
+        const issues = this.ruleEngine.run(context);
 
-        // Check for basic accessibility issues in content files
-        for (const [path, content] of context.contents) {
-            if (content.mediaType === 'application/xhtml+xml' || content.mediaType === 'text/html') {
-                const cheerio = require('cheerio');
-                const $ = cheerio.load(content.content);
-
-                // Check for images without alt text
-                $('img').each((_, img) => {
-                    const $img = $(img);
-                    const alt = $img.attr('alt');
-                    if (!alt && alt !== '') { // Allow empty alt for decorative images
-                        issues.push({
-                            code: 'image-alt',
-                            message: `Image missing alt attribute`,
-                            severity: 'major',
-                            impact: 'serious',
-                            type: 'error',
-                            category: 'accessibility',
-                            wcagLevel: 'A',
-                            wcagCriteria: ['1.1.1'],
-                            fixable: true,
-                            location: { file: path, line: 0, column: 0 },
-                            element: 'img'
-                        });
-                    }
-                });
-
-                // Check for missing language attribute
-                const $html = $('html');
-                if ($html.length > 0 && !$html.attr('lang') && !$html.attr('xml:lang')) {
-                    issues.push({
-                        code: 'html-has-lang',
-                        message: 'Document missing language attribute',
-                        severity: 'major',
-                        impact: 'serious',
-                        type: 'error',
-                        category: 'accessibility',
-                        wcagLevel: 'A',
-                        wcagCriteria: ['3.1.1'],
-                        fixable: true,
-                        location: { file: path, line: 0, column: 0 },
-                        element: 'html'
-                    });
-                }
+        this.logger.info(`Built-in accessibility check found ${issues.length} issues`);
+        return issues;
+    }
 
-                // Check for missing document title
-                const $title = $('title');
-                if ($title.length === 0 || !$title.text().trim()) {
-                    issues.push({
-                        code: 'document-title',
-                        message: 'Document missing title',
-                        severity: 'major',
-                        impact: 'serious',
-                        type: 'error',
-                        category: 'accessibility',
-                        wcagLevel: 'A',
-                        wcagCriteria: ['2.4.2'],
-                        fixable: true,
-                        location: { file: path, line: 0, column: 0 },
-                        element: 'head'
-                    });
-                }
-            }
-        }
+    getRuleEngine(): BuiltinRuleEngine {
+        return this.ruleEngine;
+    }
 
-        this.logger.info(`Quick accessibility check found ${issues.length} issues`);
-        return issues;
+    addPluginRule(rule: BuiltinRule): void {
+        this.pluginRuleEngine.addRule(rule);
+    }
+
+    /**
+     * Plugin rules run whether or not DAISY ACE is available, since ACE doesn't know them
+     */
+    runPluginRules(context: ProcessingContext): AccessibilityIssue[] {
+        if (this.pluginRuleEngine.getRules().length === 0) {
+            return [];
+        }
+        return this.pluginRuleEngine.run(context);
     }
-}
\ No newline at end of file
+}
+
+function lastLine(output: string): string {
+    const lines = output.trim().split('\n');
+    return lines[lines.length - 1] || 'no output';
+}
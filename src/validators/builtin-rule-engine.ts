@@ -0,0 +1,889 @@
+import * as cheerio from 'cheerio';
+import { AccessibilityIssue, ProcessingContext } from '../types';
+import { Logger } from '../utils/common';
+import { locateNode, parseWithPositions } from '../utils/source-locations';
+import { EpubCfi } from '../utils/epub-cfi';
+import { EpubPathResolver, resolveHref } from '../core/path-resolver';
+import { isInRendition, renditionContext } from '../core/renditions';
+
+type CheerioStatic = ReturnType<typeof cheerio.load>;
+type Cheerio = any;
+
+/**
+ * A parsed content document handed to document-level rules
+ */
+export interface RuleDocument {
+    path: string;
+    $: CheerioStatic;
+}
+
+/**
+ * A single finding reported by a rule, before it is turned into an AccessibilityIssue
+ */
+export interface RuleViolation {
+    message: string;
+    file?: string;
+    element?: string;
+    node?: any; // Element the violation is on, used for its line, column, xpath and selector
+}
+
+/**
+ * A built-in accessibility rule. The id is the DAISY ACE / axe rule id so that
+ * issues raised here are routed to the same fixers as issues reported by ACE.
+ */
+export interface BuiltinRule {
+    id: string;
+    description: string;
+    wcagLevel: 'A' | 'AA' | 'AAA';
+    wcagCriteria: string[];
+    impact: 'minor' | 'moderate' | 'serious' | 'critical';
+    fixable: boolean;
+    checkDocument?(doc: RuleDocument, context: ProcessingContext): RuleViolation[];
+    checkPublication?(context: ProcessingContext, documents: RuleDocument[], packagePath?: string): RuleViolation[];
+}
+
+const LANDMARK_ROLES = [
+    'banner', 'complementary', 'contentinfo', 'form', 'main', 'navigation', 'region', 'search'
+];
+
+const DEPRECATED_ROLES = ['doc-endnote', 'doc-biblioentry'];
+
+const VALID_ROLES = [
+    'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button', 'caption', 'cell',
+    'checkbox', 'code', 'columnheader', 'combobox', 'complementary', 'contentinfo', 'definition', 'deletion',
+    'dialog', 'directory', 'document', 'emphasis', 'feed', 'figure', 'form', 'generic', 'grid', 'gridcell',
+    'group', 'heading', 'img', 'insertion', 'link', 'list', 'listbox', 'listitem', 'log', 'main', 'marquee',
+    'math', 'menu', 'menubar', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'meter', 'navigation', 'none',
+    'note', 'option', 'paragraph', 'presentation', 'progressbar', 'radio', 'radiogroup', 'region', 'row',
+    'rowgroup', 'rowheader', 'scrollbar', 'search', 'searchbox', 'separator', 'slider', 'spinbutton', 'status',
+    'strong', 'subscript', 'superscript', 'switch', 'tab', 'table', 'tablist', 'tabpanel', 'term', 'textbox',
+    'time', 'timer', 'toolbar', 'tooltip', 'tree', 'treegrid', 'treeitem',
+    // DPUB-ARIA roles
+    'doc-abstract', 'doc-acknowledgments', 'doc-afterword', 'doc-appendix', 'doc-backlink', 'doc-biblioentry',
+    'doc-bibliography', 'doc-biblioref', 'doc-chapter', 'doc-colophon', 'doc-conclusion', 'doc-cover',
+    'doc-credit', 'doc-credits', 'doc-dedication', 'doc-endnote', 'doc-endnotes', 'doc-epigraph', 'doc-epilogue',
+    'doc-errata', 'doc-example', 'doc-footnote', 'doc-foreword', 'doc-glossary', 'doc-glossref', 'doc-index',
+    'doc-introduction', 'doc-noteref', 'doc-notice', 'doc-pagebreak', 'doc-pagefooter', 'doc-pageheader',
+    'doc-pagelist', 'doc-part', 'doc-preface', 'doc-prologue', 'doc-pullquote', 'doc-qna', 'doc-subtitle',
+    'doc-tip', 'doc-toc'
+];
+
+const VALID_ARIA_ATTRIBUTES = [
+    'aria-activedescendant', 'aria-atomic', 'aria-autocomplete', 'aria-braillelabel', 'aria-brailleroledescription',
+    'aria-busy', 'aria-checked', 'aria-colcount', 'aria-colindex', 'aria-colindextext', 'aria-colspan',
+    'aria-controls', 'aria-current', 'aria-describedby', 'aria-description', 'aria-details', 'aria-disabled',
+    'aria-dropeffect', 'aria-errormessage', 'aria-expanded', 'aria-flowto', 'aria-grabbed', 'aria-haspopup',
+    'aria-hidden', 'aria-invalid', 'aria-keyshortcuts', 'aria-label', 'aria-labelledby', 'aria-level', 'aria-live',
+    'aria-modal', 'aria-multiline', 'aria-multiselectable', 'aria-orientation', 'aria-owns', 'aria-placeholder',
+    'aria-posinset', 'aria-pressed', 'aria-readonly', 'aria-relevant', 'aria-required', 'aria-roledescription',
+    'aria-rowcount', 'aria-rowindex', 'aria-rowindextext', 'aria-rowspan', 'aria-selected', 'aria-setsize',
+    'aria-sort', 'aria-valuemax', 'aria-valuemin', 'aria-valuenow', 'aria-valuetext'
+];
+
+// epub:type values that have a DPUB-ARIA (or ARIA) equivalent, as checked by ACE
+const EPUB_TYPE_ROLES: { [epubType: string]: string } = {
+    'abstract': 'doc-abstract',
+    'acknowledgments': 'doc-acknowledgments',
+    'afterword': 'doc-afterword',
+    'appendix': 'doc-appendix',
+    'biblioentry': 'doc-biblioentry',
+    'bibliography': 'doc-bibliography',
+    'biblioref': 'doc-biblioref',
+    'chapter': 'doc-chapter',
+    'colophon': 'doc-colophon',
+    'conclusion': 'doc-conclusion',
+    'cover': 'doc-cover',
+    'credit': 'doc-credit',
+    'credits': 'doc-credits',
+    'dedication': 'doc-dedication',
+    'endnote': 'doc-endnote',
+    'endnotes': 'doc-endnotes',
+    'epigraph': 'doc-epigraph',
+    'epilogue': 'doc-epilogue',
+    'errata': 'doc-errata',
+    'footnote': 'doc-footnote',
+    'foreword': 'doc-foreword',
+    'glossary': 'doc-glossary',
+    'glossref': 'doc-glossref',
+    'index': 'doc-index',
+    'introduction': 'doc-introduction',
+    'noteref': 'doc-noteref',
+    'notice': 'doc-notice',
+    'pagebreak': 'doc-pagebreak',
+    'page-list': 'doc-pagelist',
+    'part': 'doc-part',
+    'preface': 'doc-preface',
+    'prologue': 'doc-prologue',
+    'pullquote': 'doc-pullquote',
+    'qna': 'doc-qna',
+    'subtitle': 'doc-subtitle',
+    'tip': 'doc-tip',
+    'toc': 'doc-toc'
+};
+
+function getEpubTypes($el: Cheerio): string[] {
+    const value = $el.attr('epub:type') || '';
+    return value.split(/\s+/).filter((t: string) => t.length > 0);
+}
+
+function getRoles($el: Cheerio): string[] {
+    const value = $el.attr('role') || '';
+    return value.split(/\s+/).filter((r: string) => r.length > 0);
+}
+
+function isPageBreak($el: Cheerio): boolean {
+    return getEpubTypes($el).includes('pagebreak') || getRoles($el).includes('doc-pagebreak');
+}
+
+function getAccessibleName($: CheerioStatic, $el: Cheerio): string {
+    const ariaLabel = ($el.attr('aria-label') || '').trim();
+    if (ariaLabel) {
+        return ariaLabel;
+    }
+
+    const labelledBy = ($el.attr('aria-labelledby') || '').trim();
+    if (labelledBy) {
+        const text = labelledBy.split(/\s+/)
+            .map((id: string) => $(`[id="${id}"]`).text().trim())
+            .filter((t: string) => t.length > 0)
+            .join(' ');
+        if (text) {
+            return text;
+        }
+    }
+
+    const text = $el.text().replace(/\s+/g, ' ').trim();
+    if (text) {
+        return text;
+    }
+
+    const imgAlt = $el.find('img[alt]').map((_: number, img: any) => ($(img).attr('alt') || '').trim()).get().join(' ').trim();
+    if (imgAlt) {
+        return imgAlt;
+    }
+
+    return ($el.attr('title') || '').trim();
+}
+
+function getLandmarkRole($el: Cheerio): string | null {
+    const explicit = getRoles($el).find(role => LANDMARK_ROLES.includes(role));
+    if (explicit) {
+        return explicit;
+    }
+    if ($el.attr('role')) {
+        return null;
+    }
+
+    const tagName = ($el.get(0)?.tagName || '').toLowerCase();
+    const sectioningAncestor = $el.parents('article, aside, main, nav, section').length > 0;
+    switch (tagName) {
+        case 'nav':
+            return 'navigation';
+        case 'main':
+            return 'main';
+        case 'aside':
+            return 'complementary';
+        case 'header':
+            return sectioningAncestor ? null : 'banner';
+        case 'footer':
+            return sectioningAncestor ? null : 'contentinfo';
+        case 'section':
+            return ($el.attr('aria-label') || $el.attr('aria-labelledby') || $el.attr('title')) ? 'region' : null;
+        default:
+            return null;
+    }
+}
+
+function getHeadingLevel($el: Cheerio): number {
+    const tagName = ($el.get(0)?.tagName || '').toLowerCase();
+    const match = tagName.match(/^h([1-6])$/);
+    if (match) {
+        return parseInt(match[1]);
+    }
+    const ariaLevel = parseInt($el.attr('aria-level') || '');
+    return isNaN(ariaLevel) ? 2 : ariaLevel;
+}
+
+const BUILTIN_RULES: BuiltinRule[] = [
+    // Images
+    {
+        id: 'image-alt',
+        description: 'Images must have alternate text',
+        wcagLevel: 'A',
+        wcagCriteria: ['1.1.1'],
+        impact: 'critical',
+        fixable: true,
+        checkDocument: ({ path: file, $ }) => {
+            const violations: RuleViolation[] = [];
+            $('img').each((_, img) => {
+                const $img = $(img);
+                if ($img.attr('alt') === undefined && !$img.attr('aria-label') && !$img.attr('aria-labelledby') &&
+                    !['presentation', 'none'].includes($img.attr('role') || '')) {
+                    violations.push({ message: 'Element does not have an alt attribute', file, element: 'img', node: img });
+                }
+            });
+            return violations;
+        }
+    },
+    // Document language and title
+    {
+        id: 'html-has-lang',
+        description: '<html> element must have a lang attribute',
+        wcagLevel: 'A',
+        wcagCriteria: ['3.1.1'],
+        impact: 'serious',
+        fixable: true,
+        checkDocument: ({ path: file, $ }) => {
+            const $html = $('html');
+            if ($html.length > 0 && !$html.attr('lang') && !$html.attr('xml:lang')) {
+                return [{ message: 'The <html> element must have a lang attribute', file, element: 'html', node: $html.get(0) }];
+            }
+            return [];
+        }
+    },
+    {
+        id: 'document-title',
+        description: 'Documents must have <title> element to aid in navigation',
+        wcagLevel: 'A',
+        wcagCriteria: ['2.4.2'],
+        impact: 'serious',
+        fixable: true,
+        checkDocument: ({ path: file, $ }) => {
+            const $title = $('head title');
+            if ($title.length === 0 || !$title.text().trim()) {
+                return [{ message: 'Document does not have a non-empty <title> element', file, element: 'head', node: $title.get(0) || $('head').get(0) }];
+            }
+            return [];
+        }
+    },
+    // Headings
+    {
+        id: 'heading-order',
+        description: 'Heading levels should only increase by one',
+        wcagLevel: 'AA',
+        wcagCriteria: ['1.3.1'],
+        impact: 'moderate',
+        fixable: true,
+        checkDocument: ({ path: file, $ }) => {
+            const violations: RuleViolation[] = [];
+            let previousLevel = 0;
+            $('h1, h2, h3, h4, h5, h6, [role="heading"]').each((_, heading) => {
+                const level = getHeadingLevel($(heading));
+                if (previousLevel > 0 && level > previousLevel + 1) {
+                    violations.push({
+                        message: `Heading order invalid`,
+                        file,
+                        element: `h${level}`,
+                        node: heading
+                    });
+                }
+                previousLevel = level;
+            });
+            return violations;
+        }
+    },
+    {
+        id: 'empty-heading',
+        description: 'Headings should not be empty',
+        wcagLevel: 'A',
+        wcagCriteria: ['1.3.1', '2.4.6'],
+        impact: 'minor',
+        fixable: true,
+        checkDocument: ({ path: file, $ }) => {
+            const violations: RuleViolation[] = [];
+            $('h1, h2, h3, h4, h5, h6, [role="heading"]').each((_, heading) => {
+                const $heading = $(heading);
+                if ($heading.attr('aria-hidden') === 'true') {
+                    return;
+                }
+                if (!getAccessibleName($, $heading)) {
+                    violations.push({
+                        message: 'Element does not have text that is visible to screen readers',
+                        file,
+                        element: ($heading.get(0)?.tagName || 'h1').toLowerCase(),
+                        node: heading
+                    });
+                }
+            });
+            return violations;
+        }
+    },
+    // Links and controls
+    {
+        id: 'link-name',
+        description: 'Links must have discernible text',
+        wcagLevel: 'A',
+        wcagCriteria: ['2.4.4', '4.1.2'],
+        impact: 'serious',
+        fixable: true,
+        checkDocument: ({ path: file, $ }) => {
+            const violations: RuleViolation[] = [];
+            $('a[href]').each((_, link) => {
+                const $link = $(link);
+                if ($link.attr('aria-hidden') === 'true' || isPageBreak($link)) {
+                    return;
+                }
+                if (!getAccessibleName($, $link)) {
+                    violations.push({
+                        message: 'Element is in tab order and does not have accessible text',
+                        file,
+                        element: 'a',
+                        node: link
+                    });
+                }
+            });
+            return violations;
+        }
+    },
+    {
+        id: 'button-name',
+        description: 'Buttons must have discernible text',
+        wcagLevel: 'A',
+        wcagCriteria: ['4.1.2'],
+        impact: 'critical',
+        fixable: true,
+        checkDocument: ({ path: file, $ }) => {
+            const violations: RuleViolation[] = [];
+            $('button, [role="button"], input[type="button"], input[type="submit"], input[type="reset"]').each((_, button) => {
+                const $button = $(button);
+                if (!getAccessibleName($, $button) && !($button.attr('value') || '').trim()) {
+                    violations.push({ message: 'Element does not have inner text that is visible to screen readers', file, element: 'button', node: button });
+                }
+            });
+            return violations;
+        }
+    },
+    {
+        id: 'label',
+        description: 'Form elements must have labels',
+        wcagLevel: 'A',
+        wcagCriteria: ['1.3.1', '4.1.2'],
+        impact: 'critical',
+        fixable: true,
+        checkDocument: ({ path: file, $ }) => {
+            const violations: RuleViolation[] = [];
+            $('input, select, textarea').each((_, control) => {
+                const $control = $(control);
+                const type = ($control.attr('type') || '').toLowerCase();
+                if (['hidden', 'button', 'submit', 'reset', 'image'].includes(type)) {
+                    return;
+                }
+                const id = $control.attr('id');
+                const hasLabel = (id && $(`label[for="${id}"]`).length > 0) || $control.closest('label').length > 0;
+                if (!hasLabel && !$control.attr('aria-label') && !$control.attr('aria-labelledby') && !$control.attr('title')) {
+                    violations.push({ message: 'Form element does not have an implicit (wrapped) <label>', file, element: control.tagName, node: control });
+                }
+            });
+            return violations;
+        }
+    },
+    // Landmarks
+    {
+        id: 'landmark-unique',
+        description: 'Landmarks should have a unique role or role/label/title (i.e. accessible name) combination',
+        wcagLevel: 'AA',
+        wcagCriteria: ['1.3.1'],
+        impact: 'moderate',
+        fixable: true,
+        checkDocument: ({ path: file, $ }) => {
+            const seen = new Map<string, number>();
+            const violations: RuleViolation[] = [];
+            $('nav, main, aside, header, footer, section, [role]').each((_, el) => {
+                const $el = $(el);
+                const role = getLandmarkRole($el);
+                if (!role) {
+                    return;
+                }
+                const key = `${role}|${getAccessibleName($, $el).toLowerCase()}`;
+                const count = (seen.get(key) || 0) + 1;
+                seen.set(key, count);
+                // Report each extra occurrence once the combination has been seen before
+                if (count > 1 && !(role === 'banner' || role === 'contentinfo' || role === 'main')) {
+                    violations.push({
+                        message: 'The landmark must have a unique aria-label, aria-labelledby, or title to make landmarks distinguishable',
+                        file,
+                        element: el.tagName,
+                        node: el
+                    });
+                }
+            });
+            return violations;
+        }
+    },
+    {
+        id: 'landmark-no-duplicate-banner',
+        description: 'Document should not have more than one banner landmark',
+        wcagLevel: 'AA',
+        wcagCriteria: ['1.3.1'],
+        impact: 'moderate',
+        fixable: true,
+        checkDocument: ({ path: file, $ }) => {
+            const banners = $('header, [role~="banner"]').filter((_, el) => getLandmarkRole($(el)) === 'banner');
+            if (banners.length > 1) {
+                return [{ message: 'Document has more than one banner landmark', file, element: 'header', node: banners.get(1) }];
+            }
+            return [];
+        }
+    },
+    // Tables
+    {
+        id: 'td-headers-attr',
+        description: 'All cells in a table element that use the headers attribute must only refer to other cells of that same table',
+        wcagLevel: 'A',
+        wcagCriteria: ['1.3.1'],
+        impact: 'serious',
+        fixable: false,
+        checkDocument: ({ path: file, $ }) => {
+            const violations: RuleViolation[] = [];
+            $('table').each((_, table) => {
+                const $table = $(table);
+                $table.find('td[headers], th[headers]').each((__, cell) => {
+                    const ids = ($(cell).attr('headers') || '').split(/\s+/).filter(id => id.length > 0);
+                    const missing = ids.filter(id => $table.find(`[id="${id}"]`).length === 0);
+                    if (missing.length > 0) {
+                        violations.push({
+                            message: `The headers attribute is not exclusively used to refer to other cells in the table: ${missing.join(', ')}`,
+                            file,
+                            element: cell.tagName,
+                            node: cell
+                        });
+                    }
+                });
+            });
+            return violations;
+        }
+    },
+    {
+        id: 'td-has-header',
+        description: 'Non-empty data cells in large tables must have table headers',
+        wcagLevel: 'A',
+        wcagCriteria: ['1.3.1'],
+        impact: 'critical',
+        fixable: false,
+        checkDocument: ({ path: file, $ }) => {
+            const violations: RuleViolation[] = [];
+            $('table').each((_, table) => {
+                const $table = $(table);
+                if (['presentation', 'none'].includes($table.attr('role') || '')) {
+                    return;
+                }
+                const rows = $table.find('tr');
+                const maxColumns = Math.max(0, ...rows.map((__, row) => $(row).children('td, th').length).get());
+                if (rows.length >= 3 && maxColumns >= 3 && $table.find('th, [role="columnheader"], [role="rowheader"], td[headers]').length === 0) {
+                    violations.push({ message: 'Some non-empty data cells do not have table headers', file, element: 'table', node: table });
+                }
+            });
+            return violations;
+        }
+    },
+    {
+        id: 'scope-attr-valid',
+        description: 'The scope attribute should be used correctly on tables',
+        wcagLevel: 'A',
+        wcagCriteria: ['1.3.1'],
+        impact: 'moderate',
+        fixable: false,
+        checkDocument: ({ path: file, $ }) => {
+            const violations: RuleViolation[] = [];
+            $('[scope]').each((_, el) => {
+                const scope = ($(el).attr('scope') || '').toLowerCase();
+                if (el.tagName.toLowerCase() !== 'th' || !['row', 'col', 'rowgroup', 'colgroup'].includes(scope)) {
+                    violations.push({ message: 'Scope attribute is used incorrectly', file, element: el.tagName, node: el });
+                }
+            });
+            return violations;
+        }
+    },
+    // ARIA
+    {
+        id: 'aria-roles',
+        description: 'ARIA roles used must conform to valid values',
+        wcagLevel: 'A',
+        wcagCriteria: ['4.1.2'],
+        impact: 'critical',
+        fixable: false,
+        checkDocument: ({ path: file, $ }) => {
+            const violations: RuleViolation[] = [];
+            $('[role]').each((_, el) => {
+                const invalid = getRoles($(el)).filter(role => !VALID_ROLES.includes(role));
+                if (invalid.length > 0) {
+                    violations.push({ message: `Role must be one of the valid ARIA roles: ${invalid.join(', ')}`, file, element: el.tagName, node: el });
+                }
+            });
+            return violations;
+        }
+    },
+    {
+        id: 'aria-deprecated-role',
+        description: 'Deprecated ARIA roles must not be used',
+        wcagLevel: 'A',
+        wcagCriteria: ['4.1.2'],
+        impact: 'minor',
+        fixable: true,
+        checkDocument: ({ path: file, $ }) => {
+            const violations: RuleViolation[] = [];
+            $('[role]').each((_, el) => {
+                for (const role of getRoles($(el)).filter(r => DEPRECATED_ROLES.includes(r))) {
+                    violations.push({ message: `The ${role} role is deprecated and should not be used`, file, element: el.tagName, node: el });
+                }
+            });
+            return violations;
+        }
+    },
+    {
+        id: 'aria-valid-attr',
+        description: 'ARIA attributes must conform to valid names',
+        wcagLevel: 'A',
+        wcagCriteria: ['4.1.2'],
+        impact: 'critical',
+        fixable: false,
+        checkDocument: ({ path: file, $ }) => {
+            const violations: RuleViolation[] = [];
+            $('*').each((_, el: any) => {
+                const invalid = Object.keys(el.attribs || {})
+                    .filter(name => name.startsWith('aria-') && !VALID_ARIA_ATTRIBUTES.includes(name));
+                if (invalid.length > 0) {
+                    violations.push({ message: `Invalid ARIA attribute name: ${invalid.join(', ')}`, file, element: el.tagName, node: el });
+                }
+            });
+            return violations;
+        }
+    },
+    {
+        id: 'aria-valid-attr-value',
+        description: 'ARIA ID references must point to elements in the same document',
+        wcagLevel: 'A',
+        wcagCriteria: ['4.1.2'],
+        impact: 'critical',
+        fixable: false,
+        checkDocument: ({ path: file, $ }) => {
+            const violations: RuleViolation[] = [];
+            $('[aria-labelledby], [aria-describedby]').each((_, el) => {
+                const $el = $(el);
+                for (const attr of ['aria-labelledby', 'aria-describedby']) {
+                    const ids = ($el.attr(attr) || '').split(/\s+/).filter(id => id.length > 0);
+                    if (ids.length > 0 && ids.every(id => $(`[id="${id}"]`).length === 0)) {
+                        violations.push({ message: `Invalid ARIA attribute value: ${attr}="${$el.attr(attr)}"`, file, element: el.tagName, node: el });
+                    }
+                }
+            });
+            return violations;
+        }
+    },
+    // epub:type / role
+    {
+        id: 'epub-type-has-matching-role',
+        description: 'Elements with epub:type should have a matching ARIA role',
+        wcagLevel: 'A',
+        wcagCriteria: ['1.3.1', '4.1.2'],
+        impact: 'minor',
+        fixable: true,
+        checkDocument: ({ path: file, $ }) => {
+            const violations: RuleViolation[] = [];
+            $('[epub\\:type]').each((_, el) => {
+                const tagName = el.tagName.toLowerCase();
+                if (tagName === 'html' || tagName === 'body') {
+                    return;
+                }
+                const $el = $(el);
+                const roles = getRoles($el);
+                const expected = getEpubTypes($el)
+                    .map(type => EPUB_TYPE_ROLES[type])
+                    .filter(role => role !== undefined);
+                if (expected.length > 0 && !expected.some(role => roles.includes(role))) {
+                    violations.push({ message: 'Element has no ARIA role matching its epub:type', file, element: tagName, node: el });
+                }
+            });
+            return violations;
+        }
+    },
+    // Page navigation
+    {
+        id: 'pagebreak-label',
+        description: 'Page breaks must have a label',
+        wcagLevel: 'A',
+        wcagCriteria: ['2.4.4'],
+        impact: 'serious',
+        fixable: false,
+        checkDocument: ({ path: file, $ }) => {
+            const violations: RuleViolation[] = [];
+            $('[epub\\:type~="pagebreak"], [role~="doc-pagebreak"]').each((_, el) => {
+                if (!getAccessibleName($, $(el))) {
+                    violations.push({ message: 'Page break marker does not have a label (title, aria-label or text content)', file, element: el.tagName, node: el });
+                }
+            });
+            return violations;
+        }
+    },
+    {
+        id: 'epub-pagesource',
+        description: 'Publications with page breaks must declare the dc:source metadata',
+        wcagLevel: 'A',
+        wcagCriteria: ['2.4.5'],
+        impact: 'serious',
+        fixable: false,
+        checkPublication: (context, documents, packagePath) => {
+            const hasPageBreaks = documents.some(({ $ }) =>
+                $('[epub\\:type~="pagebreak"], [role~="doc-pagebreak"]').length > 0);
+            if (!hasPageBreaks || !packagePath) {
+                return [];
+            }
+            const opf = context.contents.get(packagePath);
+            const opfText = opf && typeof opf.content === 'string' ? opf.content : '';
+            if (/<(dc:)?source[\s>]/.test(opfText) || /property\s*=\s*["']pageBreakSource["']/.test(opfText)) {
+                return [];
+            }
+            return [{
+                message: 'Publications with page breaks must declare the \'dc:source\' metadata',
+                file: packagePath
+            }];
+        }
+    },
+    {
+        id: 'epub-pagelist-broken',
+        description: 'Page list entries must point to existing content',
+        wcagLevel: 'A',
+        wcagCriteria: ['2.4.5'],
+        impact: 'serious',
+        fixable: false,
+        checkPublication: (_context, documents) => {
+            const violations: RuleViolation[] = [];
+            const byPath = new Map(documents.map(doc => [doc.path, doc]));
+            for (const doc of documents) {
+                const pageList = doc.$('nav[epub\\:type~="page-list"], nav[role~="doc-pagelist"]');
+                pageList.find('a[href]').each((_, link) => {
+                    const href = doc.$(link).attr('href') || '';
+                    if (/^[a-z][a-z0-9+.-]*:/i.test(href)) {
+                        return;
+                    }
+                    const file = resolveHref(href, doc.path);
+                    const fragment = href.split('#')[1];
+                    const targetDoc = file ? byPath.get(file) : undefined;
+                    const found = targetDoc && (!fragment || targetDoc.$(`[id="${fragment}"]`).length > 0);
+                    if (!found) {
+                        violations.push({ message: `Page list entry points to a missing target: ${href}`, file: doc.path, element: 'a', node: link });
+                    }
+                });
+            }
+            return violations;
+        }
+    },
+    // Publication metadata
+    {
+        id: 'epub-title',
+        description: 'Publications must have a title',
+        wcagLevel: 'A',
+        wcagCriteria: ['2.4.2'],
+        impact: 'serious',
+        fixable: false,
+        checkPublication: (context, _documents, packagePath) =>
+            context.metadata.title ? [] : [{ message: 'Title is not defined in the package document', file: packagePath }]
+    },
+    {
+        id: 'epub-lang',
+        description: 'Publications must declare a language',
+        wcagLevel: 'A',
+        wcagCriteria: ['3.1.1'],
+        impact: 'serious',
+        fixable: true,
+        checkPublication: (context, _documents, packagePath) =>
+            context.metadata.language ? [] : [{ message: 'OPF XML language is not provided', file: packagePath }]
+    },
+    {
+        id: 'metadata-accessmode',
+        description: 'Publications must declare the schema:accessMode metadata',
+        wcagLevel: 'A',
+        wcagCriteria: [],
+        impact: 'serious',
+        fixable: true,
+        checkPublication: (context, _documents, packagePath) =>
+            context.metadata.accessibility?.accessMode?.length ? [] :
+                [{ message: 'Publications must declare the \'schema:accessMode\' metadata', file: packagePath }]
+    },
+    {
+        id: 'metadata-accessmodesufficient',
+        description: 'Publications should declare the schema:accessModeSufficient metadata',
+        wcagLevel: 'A',
+        wcagCriteria: [],
+        impact: 'moderate',
+        fixable: true,
+        checkPublication: (context, _documents, packagePath) =>
+            context.metadata.accessibility?.accessModeSufficient?.length ? [] :
+                [{ message: 'Publications should declare the \'schema:accessModeSufficient\' metadata', file: packagePath }]
+    },
+    {
+        id: 'metadata-accessibilityfeature',
+        description: 'Publications must declare the schema:accessibilityFeature metadata',
+        wcagLevel: 'A',
+        wcagCriteria: [],
+        impact: 'serious',
+        fixable: true,
+        checkPublication: (context, _documents, packagePath) =>
+            context.metadata.accessibility?.accessibilityFeature?.length ? [] :
+                [{ message: 'Publications must declare the \'schema:accessibilityFeature\' metadata', file: packagePath }]
+    },
+    {
+        id: 'metadata-accessibilityhazard',
+        description: 'Publications must declare the schema:accessibilityHazard metadata',
+        wcagLevel: 'A',
+        wcagCriteria: [],
+        impact: 'serious',
+        fixable: true,
+        checkPublication: (context, _documents, packagePath) =>
+            context.metadata.accessibility?.accessibilityHazard?.length ? [] :
+                [{ message: 'Publications must declare the \'schema:accessibilityHazard\' metadata', file: packagePath }]
+    },
+    {
+        id: 'metadata-accessibilitysummary',
+        description: 'Publications must declare the schema:accessibilitySummary metadata',
+        wcagLevel: 'A',
+        wcagCriteria: [],
+        impact: 'moderate',
+        fixable: true,
+        checkPublication: (context, _documents, packagePath) =>
+            context.metadata.accessibility?.accessibilitySummary ? [] :
+                [{ message: 'Publications must declare the \'schema:accessibilitySummary\' metadata', file: packagePath }]
+    }
+];
+
+/**
+ * Offline accessibility rule engine used when DAISY ACE is not available.
+ * Runs over the extracted content documents and reports issues with the
+ * same rule ids ACE uses, so the existing fixers pick them up unchanged.
+ */
+export class BuiltinRuleEngine {
+    private logger: Logger;
+    private rules: BuiltinRule[];
+    private label: string; // Used in log messages, e.g. "built-in" or "plugin"
+
+    constructor(logger: Logger, rules: BuiltinRule[] = BUILTIN_RULES, label: string = 'built-in') {
+        this.logger = logger;
+        this.rules = [...rules];
+        this.label = label;
+    }
+
+    getRules(): BuiltinRule[] {
+        return [...this.rules];
+    }
+
+    addRule(rule: BuiltinRule): void {
+        this.rules.push(rule);
+    }
+
+    /**
+     * Run the rules over a publication. Each rendition of a multi-rendition EPUB is checked with its own
+     * package document and content documents; a rendition context is checked on its own.
+     */
+    run(context: ProcessingContext): AccessibilityIssue[] {
+        if (context.rendition || !context.renditions || context.renditions.length < 2) {
+            return this.runRendition(context);
+        }
+
+        const issues: AccessibilityIssue[] = [];
+        for (const rendition of context.renditions) {
+            this.logger.info(`Checking ${rendition.label}`);
+            issues.push(...this.runRendition(renditionContext(context, rendition)));
+        }
+        return issues;
+    }
+
+    private runRendition(context: ProcessingContext): AccessibilityIssue[] {
+        const documents = this.loadDocuments(context);
+        const packagePath = new EpubPathResolver(this.logger).getPackagePath(context);
+        const cfi = EpubCfi.forContext(context, packagePath);
+        const issues: AccessibilityIssue[] = [];
+
+        this.logger.info(`Running ${this.rules.length} ${this.label} rules over ${documents.length} content documents`);
+
+        for (const rule of this.rules) {
+            const violations: RuleViolation[] = [];
+
+            try {
+                if (rule.checkDocument) {
+                    for (const doc of documents) {
+                        violations.push(...rule.checkDocument(doc, context));
+                    }
+                }
+                if (rule.checkPublication) {
+                    violations.push(...rule.checkPublication(context, documents, packagePath));
+                }
+            } catch (error) {
+                this.logger.warn(`${this.capitalizedLabel()} rule ${rule.id} failed: ${error}`);
+                continue;
+            }
+
+            for (const violation of violations) {
+                issues.push(this.createIssue(rule, violation, cfi));
+            }
+
+            if (violations.length > 0) {
+                this.logger.info(`Rule ${rule.id}: ${violations.length} violations`);
+            }
+        }
+
+        this.logger.info(`${this.capitalizedLabel()} rules found ${issues.length} issues`);
+        return issues;
+    }
+
+    private capitalizedLabel(): string {
+        return this.label.charAt(0).toUpperCase() + this.label.slice(1);
+    }
+
+    private createIssue(rule: BuiltinRule, violation: RuleViolation, cfi: EpubCfi | null): AccessibilityIssue {
+        const issue: AccessibilityIssue = {
+            code: rule.id,
+            message: violation.message,
+            severity: this.mapSeverity(rule.impact),
+            impact: rule.impact,
+            type: 'error',
+            category: 'accessibility',
+            wcagLevel: rule.wcagLevel,
+            wcagCriteria: [...rule.wcagCriteria],
+            fixable: rule.fixable,
+            location: violation.file ? { file: violation.file } : undefined,
+            element: violation.element
+        };
+        const located = violation.node && locateNode(violation.node);
+        if (issue.location && located) {
+            issue.location = {
+                ...issue.location,
+                line: located.line,
+                column: located.column,
+                xpath: located.xpath,
+                selector: located.selector,
+                cfi: cfi?.generate(issue.location.file!, violation.node) || undefined
+            };
+            issue.excerpt = located.excerpt;
+        }
+        return issue;
+    }
+
+    private mapSeverity(impact: BuiltinRule['impact']): 'critical' | 'major' | 'minor' {
+        // Mirrors AccessibilityAnalyzer's mapping of ACE impacts
+        switch (impact) {
+            case 'critical':
+                return 'critical';
+            case 'minor':
+                return 'minor';
+            default:
+                return 'major';
+        }
+    }
+
+    private loadDocuments(context: ProcessingContext): RuleDocument[] {
+        const documents: RuleDocument[] = [];
+
+        for (const [filePath, content] of context.contents) {
+            if ((content.mediaType === 'application/xhtml+xml' || content.mediaType === 'text/html') &&
+                typeof content.content === 'string' && (!context.rendition || isInRendition(context, context.rendition, filePath))) {
+                try {
+                    documents.push({ path: filePath, $: parseWithPositions(content.content) });
+                } catch (error) {
+                    this.logger.warn(`Could not parse ${filePath} for ${this.label} rules: ${error}`);
+                }
+            }
+        }
+
+        return documents;
+    }
+}
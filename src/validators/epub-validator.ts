@@ -1,12 +1,10 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 import { ValidationIssue, ProcessingContext } from '../types';
 import { Logger } from '../utils/common';
 import { ToolInfo } from '../core/tool-installer';
-
-const execAsync = promisify(exec);
+import { ToolCallOptions } from '../utils/process-runner';
+import { EpubCheckRunner, OneShotEpubCheck } from './epubcheck-daemon';
 
 export interface EpubCheckResult {
     valid: boolean;
@@ -20,6 +18,7 @@ export interface EpubCheckResult {
 export class ValidationRunner {
     private logger: Logger;
     private epubCheckPath?: string;
+    private epubCheck?: EpubCheckRunner;
 
     constructor(logger: Logger) {
         this.logger = logger;
@@ -28,12 +27,25 @@ export class ValidationRunner {
     setEpubCheckPath(toolInfo: ToolInfo): void {
         if (toolInfo.installed && toolInfo.path) {
             this.epubCheckPath = toolInfo.path;
+            this.epubCheck = this.epubCheck || new OneShotEpubCheck(toolInfo.path);
         } else {
             throw new Error('EpubCheck is not installed or path is not available');
         }
     }
 
-    async validateEpub(epubPath: string, keepOutput: boolean = false): Promise<EpubCheckResult> {
+    /**
+     * Run checks through another EpubCheck runner, such as an EpubCheckDaemon, instead of one JVM per check.
+     * null goes back to one JVM per check.
+     */
+    useEpubCheckRunner(runner: EpubCheckRunner | null): void {
+        this.epubCheck = runner || (this.epubCheckPath ? new OneShotEpubCheck(this.epubCheckPath) : undefined);
+    }
+
+    /**
+     * Run EpubCheck on an EPUB file. Rejects with a ToolError when EpubCheck can't be started, times out,
+     * crashes or is cancelled.
+     */
+    async validateEpub(epubPath: string, keepOutput: boolean = false, run: ToolCallOptions = {}): Promise<EpubCheckResult> {
         if (!this.epubCheckPath) {
             throw new Error('EpubCheck path not set. Call setEpubCheckPath first.');
         }
@@ -48,7 +60,7 @@ export class ValidationRunner {
 
             const jsonOutputPath = keepOutput
                 ? path.join(inputDir, `${inputBasename}_epubcheck_${timestamp}.json`)
-                : path.join(path.dirname(epubPath), `validation-${timestamp}.json`);
+                : path.join(path.dirname(epubPath), `validation-${timestamp}-${Math.random().toString(36).substring(2, 8)}.json`);
 
             // Also create a text output file for console output when keeping output
             // Modified to use a fixed name instead of timestamped name
@@ -57,22 +69,16 @@ export class ValidationRunner {
                 : undefined;
 
             // Run epubcheck with JSON output
-            const command = `java -jar "${this.epubCheckPath}" "${epubPath}" --json "${jsonOutputPath}"`;
-
-            let stdout = '';
-            let stderr = '';
-
-            try {
-                const result = await execAsync(command, {
-                    maxBuffer: 1024 * 1024 * 10, // 10MB buffer
-                    timeout: 300000 // 5 minute timeout
-                });
-                stdout = result.stdout;
-                stderr = result.stderr;
-            } catch (error: any) {
-                // EpubCheck returns non-zero exit code for invalid EPUBs
-                stdout = error.stdout || '';
-                stderr = error.stderr || '';
+            const result = await this.epubCheck!.run([epubPath, '--json', jsonOutputPath], run).catch(async error => {
+                // A run that was stopped can leave a partial report behind
+                if (!keepOutput) {
+                    await fs.remove(jsonOutputPath);
+                }
+                throw error;
+            });
+            const { stdout, stderr } = result;
+            if (result.truncated) {
+                this.logger.warn('EpubCheck console output was truncated');
             }
 
             // Save console output to text file if requested
@@ -0,0 +1,423 @@
+import { ChildProcess, spawn } from 'child_process';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { Logger } from '../utils/common';
+import {
+    DEFAULT_TOOL_TIMEOUTS, ToolCallOptions, ToolCancelled, ToolCrashed, ToolError, ToolRunResult, ToolTimeout, runTool
+} from '../utils/process-runner';
+
+// EpubCheck exits with 1 when the EPUB has errors; other codes mean EpubCheck itself failed
+export const EPUBCHECK_EXIT_CODES = [0, 1];
+
+const LAUNCHER_PATH = path.join(__dirname, '..', '..', 'resources', 'EpubCheckDaemon.java');
+const STARTUP_TIMEOUT = 60000; // Compiling the launcher and loading EpubCheck
+const MAX_OUTPUT = 10 * 1024 * 1024;
+
+/**
+ * Runs EpubCheck with command-line arguments (without the `java -jar epubcheck.jar` part)
+ */
+export interface EpubCheckRunner {
+    run(args: string[], options?: ToolCallOptions): Promise<ToolRunResult>;
+}
+
+interface DaemonJob {
+    id: number;
+    args: string[];
+    options: ToolCallOptions;
+    startTime: number;
+    crashes: number; // Times the daemon died while this job was running
+    resolve: (result: ToolRunResult) => void;
+    reject: (error: Error) => void;
+    timer?: NodeJS.Timeout;
+    onAbort?: () => void;
+}
+
+/**
+ * Keeps EpubCheck loaded in long-lived JVMs and sends them checks over stdin/stdout, so only the first
+ * check in each JVM pays for JVM startup. The daemons run the same EpubCheck entry point with the same
+ * arguments as `java -jar epubcheck.jar`, so results are the same as one-shot runs.
+ *
+ * EpubCheck isn't documented as thread-safe, so each JVM runs one check at a time. Checks that run
+ * side by side go to separate JVMs, up to the number given to the constructor; JVMs are only started
+ * when a check needs one, and further checks wait for the least busy JVM.
+ */
+export class EpubCheckDaemon implements EpubCheckRunner {
+    private processes: DaemonProcess[];
+
+    /**
+     * jvms is the number of checks that can run side by side, each in its own JVM
+     */
+    constructor(logger: Logger, jarPath: string, jvms: number = 1) {
+        this.processes = [];
+        for (let i = 0; i < Math.max(1, jvms); i++) {
+            this.processes.push(new DaemonProcess(logger, jarPath));
+        }
+    }
+
+    run(args: string[], options: ToolCallOptions = {}): Promise<ToolRunResult> {
+        let target = this.processes[0];
+        for (const daemon of this.processes) {
+            if (daemon.pending() < target.pending()) {
+                target = daemon;
+            }
+        }
+        return target.run(args, options);
+    }
+
+    /**
+     * Stop all daemons. Checks that are still running or waiting are cancelled.
+     */
+    async stop(): Promise<void> {
+        await Promise.all(this.processes.map(daemon => daemon.stop()));
+    }
+}
+
+/**
+ * One daemon JVM. Checks are queued and sent one at a time.
+ *
+ * A daemon that crashes is restarted for the next check; the check it was running is sent again once.
+ * A check that times out or is cancelled while running restarts the daemon, since a running check can't
+ * be stopped on its own. If the daemon can't be started at all (no Java 11, missing launcher), checks fall
+ * back to one JVM per run.
+ */
+class DaemonProcess {
+    private logger: Logger;
+    private jarPath: string;
+    private child: ChildProcess | null = null;
+    private ready: Promise<boolean> | null = null;
+    private queue: DaemonJob[] = []; // Checks waiting for the daemon
+    private running: DaemonJob | null = null;
+    private nextId = 1;
+    private stdoutBuffer = '';
+    private disabled = false;
+    private stopping = false;
+
+    constructor(logger: Logger, jarPath: string) {
+        this.logger = logger;
+        this.jarPath = jarPath;
+    }
+
+    /**
+     * Checks that are running or waiting
+     */
+    pending(): number {
+        return this.queue.length + (this.running ? 1 : 0);
+    }
+
+    async run(args: string[], options: ToolCallOptions = {}): Promise<ToolRunResult> {
+        if (options.signal?.aborted) {
+            throw new ToolCancelled('EpubCheck', 'java', args);
+        }
+        if (this.disabled) {
+            return this.runOneShot(args, options);
+        }
+
+        return new Promise<ToolRunResult>((resolve, reject) => {
+            const job: DaemonJob = { id: this.nextId++, args, options, startTime: Date.now(), crashes: 0, resolve, reject };
+            if (options.signal) {
+                job.onAbort = () => this.stopJob(job, new ToolCancelled('EpubCheck', 'java', args));
+                options.signal.addEventListener('abort', job.onAbort);
+            }
+            this.queue.push(job);
+            this.sendNext();
+        });
+    }
+
+    /**
+     * Stop the daemon. Checks that are still running or waiting are cancelled.
+     */
+    async stop(): Promise<void> {
+        this.stopping = true;
+        for (const job of [...(this.running ? [this.running] : []), ...this.queue]) {
+            this.finishJob(job, new ToolCancelled('EpubCheck', 'java', job.args));
+        }
+        const child = this.child;
+        this.child = null;
+        this.ready = null;
+        if (child && child.exitCode === null) {
+            const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+            child.stdin?.end();
+            const killTimer = setTimeout(() => child.kill('SIGKILL'), 5000);
+            await exited;
+            clearTimeout(killTimer);
+        }
+        this.stopping = false;
+    }
+
+    /**
+     * Start the daemon if it isn't running. Resolves to false when it can't be started,
+     * in which case checks run one-shot from then on.
+     */
+    private start(): Promise<boolean> {
+        if (!this.ready) {
+            this.ready = this.launch().then(started => {
+                if (!started) {
+                    this.disabled = true;
+                    this.ready = null;
+                }
+                return started;
+            });
+        }
+        return this.ready;
+    }
+
+    private async launch(): Promise<boolean> {
+        if (!(await fs.pathExists(LAUNCHER_PATH))) {
+            this.logger.warn(`EpubCheck daemon launcher not found at ${LAUNCHER_PATH}; running EpubCheck once per check`);
+            return false;
+        }
+
+        this.logger.info('Starting EpubCheck daemon...');
+        const child = spawn('java', ['-cp', this.jarPath, LAUNCHER_PATH], {
+            shell: false,
+            windowsHide: true,
+            stdio: ['pipe', 'pipe', 'pipe']
+        });
+        this.child = child;
+        this.stdoutBuffer = '';
+        let stderr = '';
+
+        return new Promise<boolean>((resolve) => {
+            let started = false;
+            const fail = (reason: string) => {
+                if (!started) {
+                    started = true;
+                    clearTimeout(startupTimer);
+                    this.logger.warn(`EpubCheck daemon could not be started (${reason}); running EpubCheck once per check`);
+                    if (child.exitCode === null) {
+                        child.kill('SIGKILL');
+                    }
+                    this.child = null;
+                    resolve(false);
+                }
+            };
+            const startupTimer = setTimeout(() => fail(`no response within ${STARTUP_TIMEOUT / 1000}s`), STARTUP_TIMEOUT);
+
+            child.stdout!.setEncoding('utf8');
+            child.stdout!.on('data', (chunk: string) => {
+                if (child !== this.child) {
+                    return; // Output from a daemon that has been replaced
+                }
+                if (started) {
+                    this.onOutput(chunk);
+                    return;
+                }
+                this.stdoutBuffer += chunk;
+                const newline = this.stdoutBuffer.indexOf('\n');
+                if (newline === -1) {
+                    return;
+                }
+                if (this.stdoutBuffer.substring(0, newline).trim() !== 'ready') {
+                    fail(`unexpected output: ${this.stdoutBuffer.trim().substring(0, 200)}`);
+                    return;
+                }
+                started = true;
+                clearTimeout(startupTimer);
+                this.logger.info('EpubCheck daemon is ready');
+                this.setIdle(child, true);
+                const rest = this.stdoutBuffer.substring(newline + 1);
+                this.stdoutBuffer = '';
+                resolve(true);
+                this.onOutput(rest);
+            });
+            child.stderr!.setEncoding('utf8');
+            child.stderr!.on('data', (chunk: string) => {
+                // Only kept for startup errors; check output comes back in the responses
+                if (!started && stderr.length < 10000) {
+                    stderr += chunk;
+                }
+            });
+            child.on('error', (error: NodeJS.ErrnoException) => {
+                fail(error.code === 'ENOENT' ? 'java was not found' : error.message);
+            });
+            child.on('exit', (code, signal) => {
+                if (!started) {
+                    fail(`exited with ${signal || `code ${code}`}: ${lastLine(stderr)}`);
+                    return;
+                }
+                this.onExit(child, code, signal);
+            });
+        });
+    }
+
+    // Send the first waiting check once the daemon is free, starting or restarting the daemon if needed
+    private sendNext(): void {
+        if (this.running || this.queue.length === 0) {
+            return;
+        }
+        const child = this.child;
+        if (!child || !child.stdin) {
+            this.start().then(started => {
+                if (started) {
+                    this.sendNext();
+                    return;
+                }
+                for (const job of this.queue.splice(0)) {
+                    this.clearJob(job);
+                    this.runOneShot(job.args, job.options).then(job.resolve, job.reject);
+                }
+            });
+            return;
+        }
+
+        const job = this.queue.shift()!;
+        this.running = job;
+        job.startTime = Date.now();
+        const timeout = job.options.timeout !== undefined ? job.options.timeout : DEFAULT_TOOL_TIMEOUTS.epubcheck;
+        if (timeout > 0) {
+            job.timer = setTimeout(() => this.stopJob(job, new ToolTimeout('EpubCheck', 'java', job.args, timeout)), timeout);
+        }
+        this.setIdle(child, false);
+        const encoded = job.args.map(arg => Buffer.from(arg, 'utf8').toString('base64'));
+        child.stdin.write(`${job.id} ${encoded.join(' ')}\n`);
+    }
+
+    private onOutput(chunk: string): void {
+        this.stdoutBuffer += chunk;
+        let newline: number;
+        while ((newline = this.stdoutBuffer.indexOf('\n')) !== -1) {
+            const line = this.stdoutBuffer.substring(0, newline).trim();
+            this.stdoutBuffer = this.stdoutBuffer.substring(newline + 1);
+            if (line) {
+                this.onResponse(line);
+            }
+        }
+    }
+
+    private onResponse(line: string): void {
+        const [id, exitCode, stdout, stderr] = line.split(' ');
+        const job = this.running;
+        if (!job || job.id !== parseInt(id, 10)) {
+            return; // Stopped before the daemon answered
+        }
+
+        const code = parseInt(exitCode, 10);
+        const decode = (value: string | undefined) => Buffer.from(value || '', 'base64');
+        const out = decode(stdout);
+        const err = decode(stderr);
+        if (!EPUBCHECK_EXIT_CODES.includes(code)) {
+            const error = new ToolCrashed('EpubCheck', 'java', job.args, code, null);
+            error.stdout = out.toString('utf8');
+            error.stderr = err.toString('utf8');
+            this.finishJob(job, error);
+        } else {
+            this.finishJob(job, null, {
+                exitCode: code,
+                stdout: out.subarray(0, MAX_OUTPUT).toString('utf8'),
+                stderr: err.subarray(0, MAX_OUTPUT).toString('utf8'),
+                truncated: out.length > MAX_OUTPUT || err.length > MAX_OUTPUT,
+                duration: Date.now() - job.startTime
+            });
+        }
+        this.sendNext();
+    }
+
+    private onExit(child: ChildProcess, code: number | null, signal: string | null): void {
+        if (child !== this.child) {
+            return; // A daemon that was replaced or stopped on purpose
+        }
+        this.child = null;
+        this.ready = null;
+        if (this.stopping) {
+            return;
+        }
+
+        const job = this.running;
+        this.logger.warn(`EpubCheck daemon exited with ${signal || `code ${code}`}` +
+            (job ? '; restarting it for the running check' : ''));
+        if (job) {
+            job.crashes++;
+            if (job.crashes > 1) {
+                this.finishJob(job, new ToolCrashed('EpubCheck', 'java', job.args, code, signal,
+                    'daemon crashed twice while running this check'));
+            } else {
+                // Sent again first, with a new timeout
+                clearTimeout(job.timer);
+                this.running = null;
+                this.queue.unshift(job);
+            }
+        }
+        this.sendNext();
+    }
+
+    // A running check can't be stopped inside the JVM, so the daemon is replaced; a waiting check is just dropped
+    private stopJob(job: DaemonJob, error: ToolError): void {
+        const wasRunning = job === this.running;
+        this.finishJob(job, error);
+        const child = this.child;
+        if (wasRunning && child) {
+            this.child = null;
+            this.ready = null;
+            child.kill('SIGKILL');
+        }
+        this.sendNext();
+    }
+
+    private finishJob(job: DaemonJob, error: Error | null, result?: ToolRunResult): void {
+        if (job === this.running) {
+            this.running = null;
+        } else {
+            const index = this.queue.indexOf(job);
+            if (index === -1) {
+                return;
+            }
+            this.queue.splice(index, 1);
+        }
+        this.clearJob(job);
+        if (this.child && this.pending() === 0) {
+            this.setIdle(this.child, true);
+        }
+        if (error) {
+            job.reject(error);
+        } else {
+            job.resolve(result!);
+        }
+    }
+
+    private clearJob(job: DaemonJob): void {
+        if (job.timer) {
+            clearTimeout(job.timer);
+        }
+        if (job.onAbort) {
+            job.options.signal?.removeEventListener('abort', job.onAbort);
+        }
+    }
+
+    private runOneShot(args: string[], options: ToolCallOptions): Promise<ToolRunResult> {
+        return new OneShotEpubCheck(this.jarPath).run(args, options);
+    }
+
+    // An idle daemon doesn't keep the Node process alive; it exits when its stdin closes
+    private setIdle(child: ChildProcess, idle: boolean): void {
+        for (const handle of [child, child.stdin, child.stdout, child.stderr] as any[]) {
+            if (handle) {
+                idle ? handle.unref?.() : handle.ref?.();
+            }
+        }
+    }
+}
+
+/**
+ * Plain `java -jar epubcheck.jar` runs, one JVM per check
+ */
+export class OneShotEpubCheck implements EpubCheckRunner {
+    private jarPath: string;
+
+    constructor(jarPath: string) {
+        this.jarPath = jarPath;
+    }
+
+    run(args: string[], options: ToolCallOptions = {}): Promise<ToolRunResult> {
+        return runTool('java', ['-jar', this.jarPath, ...args], {
+            tool: 'EpubCheck',
+            timeout: options.timeout !== undefined ? options.timeout : DEFAULT_TOOL_TIMEOUTS.epubcheck,
+            signal: options.signal,
+            allowedExitCodes: EPUBCHECK_EXIT_CODES
+        });
+    }
+}
+
+function lastLine(output: string): string {
+    const lines = output.trim().split('\n');
+    return lines[lines.length - 1] || 'no output';
+}
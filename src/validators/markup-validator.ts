@@ -0,0 +1,162 @@
+import { JSDOM } from 'jsdom';
+import { Logger } from '../utils/common';
+
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+const PARSER_ERROR_NAMESPACE = 'http://www.mozilla.org/newlayout/xml/parsererror.xml';
+
+// Media types parsed as XML; only XHTML also gets the content-model check
+const XML_MEDIA_TYPES = new Set([
+    'application/xhtml+xml',
+    'application/oebps-package+xml',
+    'application/x-dtbncx+xml',
+    'application/smil+xml',
+    'image/svg+xml'
+]);
+
+// Flow content that can't appear inside elements that only allow phrasing content
+const BLOCK_ELEMENTS = new Set([
+    'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figcaption', 'figure',
+    'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre',
+    'section', 'table', 'ul'
+]);
+const PHRASING_ONLY_ELEMENTS = new Set([
+    'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'pre', 'span', 'em', 'strong', 'b', 'i', 'u', 's', 'small', 'code',
+    'abbr', 'cite', 'q', 'sub', 'sup', 'label', 'dt', 'legend'
+]);
+const SCRIPT_SUPPORTING = ['script', 'template'];
+const ALLOWED_CHILDREN: { [parent: string]: string[] } = {
+    ul: ['li', ...SCRIPT_SUPPORTING],
+    ol: ['li', ...SCRIPT_SUPPORTING],
+    dl: ['dt', 'dd', 'div', ...SCRIPT_SUPPORTING],
+    table: ['caption', 'colgroup', 'thead', 'tbody', 'tfoot', 'tr', ...SCRIPT_SUPPORTING],
+    thead: ['tr', ...SCRIPT_SUPPORTING],
+    tbody: ['tr', ...SCRIPT_SUPPORTING],
+    tfoot: ['tr', ...SCRIPT_SUPPORTING],
+    tr: ['td', 'th', ...SCRIPT_SUPPORTING]
+};
+
+/**
+ * Strict XML well-formedness and basic XHTML content-model checks for content changed by a fixer
+ */
+export class MarkupValidator {
+    private logger: Logger;
+    private parser: DOMParser | null = null;
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+    }
+
+    canCheck(mediaType: string): boolean {
+        return XML_MEDIA_TYPES.has(mediaType);
+    }
+
+    /**
+     * Problems in `content`, empty when it passes. A well-formedness error is the only problem
+     * reported, since the content model can't be checked without a document.
+     */
+    check(content: string, mediaType: string): string[] {
+        if (!this.canCheck(mediaType)) {
+            return [];
+        }
+
+        const { document, error } = this.parse(content, mediaType);
+        if (error) {
+            return [`Not well-formed XML: ${error}`];
+        }
+
+        return mediaType === 'application/xhtml+xml' ? this.checkContentModel(document) : [];
+    }
+
+    /**
+     * The parser error for `content`, or null if it is well-formed
+     */
+    checkWellFormed(content: string, mediaType: string): string | null {
+        return this.parse(content, mediaType).error;
+    }
+
+    /**
+     * Problems in `after` that `before` didn't have, so a fixer is only blamed for what it introduced
+     */
+    findIntroducedProblems(before: string | null, after: string, mediaType: string): string[] {
+        const problems = this.check(after, mediaType);
+        if (problems.length === 0 || before === null) {
+            return problems;
+        }
+
+        const existing = new Map<string, number>();
+        for (const problem of this.check(before, mediaType)) {
+            existing.set(problem, (existing.get(problem) || 0) + 1);
+        }
+
+        // A file that was already not well-formed can't be compared problem by problem
+        if (Array.from(existing.keys()).some(problem => problem.startsWith('Not well-formed XML'))) {
+            this.logger.info('Original content is not well-formed XML, skipping markup check');
+            return [];
+        }
+
+        return problems.filter(problem => {
+            const count = existing.get(problem) || 0;
+            existing.set(problem, count - 1);
+            return count <= 0;
+        });
+    }
+
+    private checkContentModel(document: Document): string[] {
+        const problems: string[] = [];
+        const root = document.documentElement;
+
+        if (root.localName !== 'html' || root.namespaceURI !== XHTML_NAMESPACE) {
+            problems.push(`Root element must be <html> in the XHTML namespace, found <${root.localName}>`);
+            return problems;
+        }
+
+        const sections = Array.from(root.children).map(child => child.localName);
+        if (sections.join(',') !== 'head,body') {
+            problems.push(`<html> must contain <head> followed by <body>, found ${sections.map(name => `<${name}>`).join(', ') || 'nothing'}`);
+        }
+
+        const ids = new Set<string>();
+        for (const element of Array.from(root.querySelectorAll('*'))) {
+            if (element.namespaceURI !== XHTML_NAMESPACE) {
+                continue;
+            }
+            const name = element.localName;
+            const parent = element.parentElement;
+            const parentName = parent && parent.namespaceURI === XHTML_NAMESPACE ? parent.localName : null;
+
+            if (parentName && ALLOWED_CHILDREN[parentName] && !ALLOWED_CHILDREN[parentName].includes(name)) {
+                problems.push(`<${name}> is not allowed inside <${parentName}>`);
+            } else if (parentName && PHRASING_ONLY_ELEMENTS.has(parentName) && BLOCK_ELEMENTS.has(name)) {
+                problems.push(`<${name}> is not allowed inside <${parentName}>`);
+            }
+
+            if (name === 'a' && parent?.closest('a')) {
+                problems.push('<a> is not allowed inside another <a>');
+            }
+
+            const id = element.getAttribute('id');
+            if (id !== null) {
+                if (ids.has(id)) {
+                    problems.push(`Duplicate id "${id}"`);
+                }
+                ids.add(id);
+            }
+        }
+
+        return problems;
+    }
+
+    private parse(content: string, mediaType: string): { document: Document; error: string | null } {
+        if (!this.parser) {
+            this.parser = new (new JSDOM('').window.DOMParser)();
+        }
+
+        // jsdom reports a parser error as a document with a <parsererror> root
+        const document = this.parser.parseFromString(content, mediaType === 'application/xhtml+xml' ? mediaType : 'application/xml');
+        const root = document.documentElement;
+        if (!root) {
+            return { document, error: 'no root element' };
+        }
+        return { document, error: root.namespaceURI === PARSER_ERROR_NAMESPACE ? root.textContent?.trim() || 'parser error' : null };
+    }
+}